@@ -0,0 +1,85 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { FlutterDaemonClient, DaemonEvent, parseDaemonLine } from './daemon.js';
+
+describe('parseDaemonLine', () => {
+  it('should parse bracketed protocol messages', () => {
+    expect(parseDaemonLine('[{"event":"app.started","params":{"appId":"a1"}}]')).toEqual([
+      { event: 'app.started', params: { appId: 'a1' } },
+    ]);
+  });
+
+  it('should treat other output as plain text', () => {
+    expect(parseDaemonLine('Launching lib/main.dart on iPhone 16 Pro in debug mode...')).toBeUndefined();
+    expect(parseDaemonLine('[{not json}]')).toBeUndefined();
+  });
+});
+
+describe('FlutterDaemonClient', () => {
+  let written: string[];
+  let events: DaemonEvent[];
+  let client: FlutterDaemonClient;
+
+  beforeEach(() => {
+    written = [];
+    events = [];
+    client = new FlutterDaemonClient({
+      write: (data) => written.push(data),
+      onEvent: (event) => events.push(event),
+    });
+  });
+
+  it('should route events and return plain lines', () => {
+    const plain = client.feed(
+      'Running pod install...\n[{"event":"app.progress","params":{"message":"Xcode build"}}]\n'
+    );
+
+    expect(plain).toEqual(['Running pod install...']);
+    expect(events).toEqual([{ event: 'app.progress', params: { message: 'Xcode build' } }]);
+  });
+
+  it('should reassemble messages split across chunks', () => {
+    client.feed('[{"event":"app.sta');
+    expect(events).toEqual([]);
+
+    client.feed('rted","params":{"appId":"a1"}}]\n');
+    expect(events).toEqual([{ event: 'app.started', params: { appId: 'a1' } }]);
+  });
+
+  it('should resolve requests with the matching response', async () => {
+    const response = client.request('app.restart', { appId: 'a1', fullRestart: false });
+
+    expect(JSON.parse(written[0])).toEqual([
+      { id: 1, method: 'app.restart', params: { appId: 'a1', fullRestart: false } },
+    ]);
+
+    client.feed('[{"id":1,"result":{"code":0,"message":""}}]\n');
+    await expect(response).resolves.toEqual({ code: 0, message: '' });
+  });
+
+  it('should reject requests that return an error', async () => {
+    const response = client.request('app.stop', { appId: 'missing' });
+    client.feed('[{"id":1,"error":"app \'missing\' not found"}]\n');
+
+    await expect(response).rejects.toThrow("app.stop failed: app 'missing' not found");
+  });
+
+  it('should reject pending requests on close and refuse new ones', async () => {
+    const response = client.request('app.restart', { appId: 'a1' });
+    client.close('flutter exited with code 1');
+
+    await expect(response).rejects.toThrow(/closed before app.restart completed/);
+    await expect(client.request('app.stop', { appId: 'a1' })).rejects.toThrow(/connection closed/);
+  });
+
+  it('should time out requests without a response', async () => {
+    jest.useFakeTimers();
+    try {
+      const response = client.request('app.restart', { appId: 'a1' }, 1000);
+      jest.advanceTimersByTime(1000);
+
+      await expect(response).rejects.toThrow('Flutter daemon request app.restart timed out after 1000ms');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import { logger } from '../utils/logger.js';
+
+/**
+ * An event sent by `flutter run --machine`, e.g. app.start, app.progress or daemon.logMessage.
+ */
+export interface DaemonEvent {
+  event: string;
+  params: Record<string, unknown>;
+}
+
+export interface DaemonClientOptions {
+  /** Writes raw protocol data to the flutter process's stdin */
+  write: (data: string) => void;
+  /** Called for every event received from flutter */
+  onEvent: (event: DaemonEvent) => void;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface DaemonMessage {
+  id?: unknown;
+  event?: unknown;
+  params?: unknown;
+  result?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Parse a protocol line. Flutter wraps every JSON-RPC message in brackets on its own line:
+ * [{"event":"app.started","params":{"appId":"..."}}]
+ *
+ * @returns The messages on the line, or undefined if it is plain output
+ */
+export function parseDaemonLine(line: string): DaemonMessage[] | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('[{') || !trimmed.endsWith('}]')) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      return undefined;
+    }
+    return parsed.filter(
+      (message): message is DaemonMessage => typeof message === 'object' && message !== null
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+function describeError(error: unknown): string {
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return JSON.stringify(error);
+}
+
+/**
+ * JSON-RPC client for the `flutter run --machine` protocol.
+ *
+ * Feed it the process's stdout; it routes responses to pending requests, events to
+ * `onEvent`, and hands back any lines that are not protocol messages.
+ */
+export class FlutterDaemonClient {
+  private nextId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private partialLine = '';
+  private closedReason?: string;
+
+  constructor(private readonly options: DaemonClientOptions) {}
+
+  /**
+   * Process a chunk of stdout. Chunks may split lines; incomplete lines are kept until
+   * the rest arrives.
+   *
+   * @returns Complete lines that are not protocol messages
+   */
+  feed(chunk: string): string[] {
+    const lines = (this.partialLine + chunk).split('\n');
+    this.partialLine = lines.pop() ?? '';
+
+    const plainLines: string[] = [];
+    for (const line of lines) {
+      const messages = parseDaemonLine(line);
+      if (!messages) {
+        plainLines.push(line);
+        continue;
+      }
+      for (const message of messages) {
+        this.dispatch(message);
+      }
+    }
+    return plainLines;
+  }
+
+  /**
+   * Send a request and wait for its response.
+   *
+   * @param method - Protocol method, e.g. "app.restart"
+   * @param params - Method parameters
+   * @param timeoutMs - Reject if no response arrives within this time
+   * @throws Error if flutter returns an error, the request times out, or the process exits
+   */
+  request(method: string, params: Record<string, unknown>, timeoutMs = 60000): Promise<unknown> {
+    if (this.closedReason) {
+      return Promise.reject(new Error(`Flutter daemon connection closed: ${this.closedReason}`));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Flutter daemon request ${method} timed out after ${String(timeoutMs)}ms`));
+      }, timeoutMs);
+      this.pending.set(id, { method, resolve, reject, timer });
+
+      logger.debug('Sending flutter daemon request', { id, method });
+      this.options.write(`${JSON.stringify([{ id, method, params }])}\n`);
+    });
+  }
+
+  /**
+   * Reject all pending requests, e.g. when the flutter process exits.
+   */
+  close(reason: string): void {
+    this.closedReason = reason;
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new Error(`Flutter daemon connection closed before ${request.method} completed: ${reason}`));
+      this.pending.delete(id);
+    }
+  }
+
+  private dispatch(message: DaemonMessage): void {
+    if (typeof message.event === 'string') {
+      const params = typeof message.params === 'object' && message.params !== null
+        ? message.params as Record<string, unknown>
+        : {};
+      this.options.onEvent({ event: message.event, params });
+      return;
+    }
+
+    if (typeof message.id !== 'number') {
+      return;
+    }
+    const request = this.pending.get(message.id);
+    if (!request) {
+      logger.debug('Ignoring flutter daemon response for unknown request', { id: message.id });
+      return;
+    }
+    this.pending.delete(message.id);
+    clearTimeout(request.timer);
+
+    if (message.error !== undefined) {
+      request.reject(new Error(`${request.method} failed: ${describeError(message.error)}`));
+    } else {
+      request.resolve(message.result);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEBUG_COMMANDS, DEBUG_COMMAND_NAMES, stripAppOutputPrefix } from './debug-commands.js';
+
+describe('DEBUG_COMMANDS', () => {
+  it('should map every command to a distinct key', () => {
+    const keys = DEBUG_COMMAND_NAMES.map((name) => DEBUG_COMMANDS[name].key);
+
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(keys.sort()).toEqual(['L', 'P', 'S', 'U', 'i', 'o', 'p', 't', 'w']);
+  });
+
+  it('should not allow reload, restart or quit keys', () => {
+    const keys = DEBUG_COMMAND_NAMES.map((name) => DEBUG_COMMANDS[name].key);
+
+    expect(keys).not.toContain('r');
+    expect(keys).not.toContain('R');
+    expect(keys).not.toContain('q');
+  });
+});
+
+describe('stripAppOutputPrefix', () => {
+  it('should strip the flutter prefix from app output only', () => {
+    expect(stripAppOutputPrefix('flutter: └MaterialApp')).toBe('└MaterialApp');
+    expect(stripAppOutputPrefix('flutter:  └Scaffold')).toBe(' └Scaffold');
+    expect(stripAppOutputPrefix('Performing hot reload...')).toBe('Performing hot reload...');
+  });
+});
@@ -0,0 +1,47 @@
+import { FlutterDebugCommand } from './types.js';
+
+/**
+ * Interactive `flutter run` keys that dump app state or toggle debug features.
+ * Only these keys may be sent through flutter_debug_command; reload, restart and
+ * quit have their own tools.
+ */
+
+export interface FlutterDebugCommandSpec {
+  /** Key sent to flutter run's stdin */
+  key: string;
+  description: string;
+  /** Dumps print a block of output; toggles may print nothing at all */
+  dump: boolean;
+}
+
+export const DEBUG_COMMANDS: Readonly<Record<FlutterDebugCommand, FlutterDebugCommandSpec>> = {
+  'widget-tree': { key: 'w', description: 'Dump the widget hierarchy', dump: true },
+  'render-tree': { key: 't', description: 'Dump the render tree', dump: true },
+  'layer-tree': { key: 'L', description: 'Dump the layer tree', dump: true },
+  'semantics-traversal-order': {
+    key: 'S',
+    description: 'Dump the accessibility tree in traversal order',
+    dump: true,
+  },
+  'semantics-hit-test-order': {
+    key: 'U',
+    description: 'Dump the accessibility tree in inverse hit test order',
+    dump: true,
+  },
+  'debug-paint': { key: 'p', description: 'Toggle construction lines (debug paint)', dump: false },
+  'performance-overlay': { key: 'P', description: 'Toggle the performance overlay', dump: false },
+  platform: { key: 'o', description: 'Switch the target platform between iOS and Android', dump: false },
+  'widget-inspector': { key: 'i', description: 'Toggle the widget inspector', dump: false },
+};
+
+export const DEBUG_COMMAND_NAMES = Object.keys(DEBUG_COMMANDS) as [FlutterDebugCommand, ...FlutterDebugCommand[]];
+
+// App output is prefixed with "flutter: " by flutter run
+const APP_OUTPUT_PREFIX = /^flutter: ?/;
+
+/**
+ * Strip the "flutter: " prefix flutter run adds to every line the app prints.
+ */
+export function stripAppOutputPrefix(line: string): string {
+  return line.replace(APP_OUTPUT_PREFIX, '');
+}
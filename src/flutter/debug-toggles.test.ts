@@ -0,0 +1,135 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyDebugToggles, TextSizeControl } from './debug-toggles.js';
+import { VmServiceClient } from './vm-service.js';
+import type { ContentSizeCategory } from '../simulator/simctl.js';
+
+/** Fake app holding the framework's debug settings behind ext.flutter.* extensions */
+function fakeApp(available = true): {
+  client: VmServiceClient;
+  calls: Array<{ method: string; params: Record<string, unknown> }>;
+} {
+  const state: Record<string, string> = {
+    'ext.flutter.timeDilation': '1.0',
+    'ext.flutter.debugPaint': 'false',
+    'ext.flutter.showPerformanceOverlay': 'false',
+    'ext.flutter.platformOverride': 'iOS',
+    'ext.flutter.brightnessOverride': 'default',
+  };
+  const fields: Record<string, string> = {
+    'ext.flutter.timeDilation': 'timeDilation',
+    'ext.flutter.debugPaint': 'enabled',
+    'ext.flutter.showPerformanceOverlay': 'enabled',
+    'ext.flutter.platformOverride': 'value',
+    'ext.flutter.brightnessOverride': 'value',
+  };
+  const calls: Array<{ method: string; params: Record<string, unknown> }> = [];
+
+  const client: VmServiceClient = new VmServiceClient({
+    send: (data) => {
+      const { id, method, params } = JSON.parse(data) as {
+        id: string;
+        method: string;
+        params: Record<string, unknown>;
+      };
+      let response: Record<string, unknown>;
+      if (method === 'getVM') {
+        response = { result: { isolates: [{ id: 'isolates/1', name: 'main' }] } };
+      } else if (!available || !(method in state)) {
+        response = { error: { code: -32601, message: 'Method not found' } };
+      } else {
+        calls.push({ method, params });
+        const field = fields[method];
+        if (typeof params[field] === 'string') {
+          state[method] = params[field];
+        }
+        response = { result: { type: '_extensionType', method, [field]: state[method] } };
+      }
+      setImmediate(() => {
+        client.receive(JSON.stringify({ jsonrpc: '2.0', id, ...response }));
+      });
+    },
+    close: () => undefined,
+  });
+  return { client, calls };
+}
+
+/** Fake simulator text size setting */
+function fakeTextSize(): TextSizeControl & { current: ContentSizeCategory } {
+  const control = {
+    current: 'large' as ContentSizeCategory,
+    get: () => Promise.resolve(control.current),
+    set: (size: ContentSizeCategory) => {
+      control.current = size;
+      return Promise.resolve();
+    },
+  };
+  return control;
+}
+
+describe('applyDebugToggles', () => {
+  it('should read every setting without changing any', async () => {
+    const { client, calls } = fakeApp();
+
+    const result = await applyDebugToggles(client, {});
+
+    expect(result).toMatchObject({
+      success: true,
+      changed: [],
+      values: { timeDilation: 1, debugPaint: false, performanceOverlay: false, platform: 'iOS', brightness: 'default' },
+    });
+    expect(result.note).toMatch(/hot restart .* resets them/);
+    expect(calls.every((call) => Object.keys(call.params).join() === 'isolateId')).toBe(true);
+  });
+
+  it('should apply requested changes and report the new values', async () => {
+    const { client, calls } = fakeApp();
+
+    const result = await applyDebugToggles(client, { timeDilation: 5, debugPaint: true, brightness: 'dark' });
+
+    expect(result).toMatchObject({
+      success: true,
+      changed: ['timeDilation', 'debugPaint', 'brightness'],
+      values: { timeDilation: 5, debugPaint: true, brightness: 'dark', platform: 'iOS' },
+    });
+    expect(calls).toContainEqual({
+      method: 'ext.flutter.brightnessOverride',
+      params: { value: 'Brightness.dark', isolateId: 'isolates/1' },
+    });
+    expect(calls).toContainEqual({
+      method: 'ext.flutter.timeDilation',
+      params: { timeDilation: '5', isolateId: 'isolates/1' },
+    });
+  });
+
+  it('should read and change the text size through the simulator', async () => {
+    const { client } = fakeApp();
+    const textSize = fakeTextSize();
+
+    expect((await applyDebugToggles(client, {}, textSize)).values.textSize).toBe('large');
+
+    const result = await applyDebugToggles(client, { textSize: 'accessibility-large' }, textSize);
+
+    expect(result).toMatchObject({ success: true, changed: ['textSize'], values: { textSize: 'accessibility-large' } });
+    expect(textSize.current).toBe('accessibility-large');
+    expect(result.note).toMatch(/textSize is a simulator setting/);
+  });
+
+  it('should report the text size as unavailable without a simulator', async () => {
+    const { client } = fakeApp();
+
+    const result = await applyDebugToggles(client, { textSize: 'small' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.textSize).toMatch(/no simulator/);
+  });
+
+  it('should report settings that are unavailable outside debug mode', async () => {
+    const { client } = fakeApp(false);
+
+    const result = await applyDebugToggles(client, { debugPaint: true });
+
+    expect(result.success).toBe(false);
+    expect(result.changed).toEqual([]);
+    expect(result.errors?.debugPaint).toMatch(/must run in debug mode/);
+  });
+});
@@ -0,0 +1,188 @@
+import { VmServiceClient } from './vm-service.js';
+import type { ContentSizeCategory } from '../simulator/simctl.js';
+
+/**
+ * Runtime debug settings exposed by the Flutter framework as ext.flutter.* service
+ * extensions. Calling an extension without its parameter reads the current value.
+ *
+ * The framework has no extension for the text scale factor; it follows the platform's
+ * text size, so that setting goes through the simulator's Dynamic Type size instead.
+ */
+
+export type FlutterPlatformOverride = 'iOS' | 'android' | 'macOS' | 'fuchsia' | 'linux' | 'windows' | 'default';
+export type FlutterBrightnessOverride = 'light' | 'dark' | 'default';
+
+export interface DebugToggleValues {
+  /** Animation slow-down factor; 1.0 is normal speed */
+  timeDilation?: number;
+  /** Show layout bounds, padding and alignment (debugPaintSizeEnabled) */
+  debugPaint?: boolean;
+  performanceOverlay?: boolean;
+  /** Platform the app behaves as, e.g. "android" on an iOS simulator */
+  platform?: FlutterPlatformOverride;
+  brightness?: FlutterBrightnessOverride;
+  /** Dynamic Type size of the simulator, which sets the app's text scale factor */
+  textSize?: ContentSizeCategory;
+}
+
+export type DebugToggleName = keyof DebugToggleValues;
+
+/** Reads and changes the simulator's Dynamic Type size */
+export interface TextSizeControl {
+  get(): Promise<ContentSizeCategory>;
+  set(size: ContentSizeCategory): Promise<void>;
+}
+
+/** Settings backed by an ext.flutter.* service extension */
+type ExtensionToggleName = Exclude<DebugToggleName, 'textSize'>;
+
+export interface DebugToggleResult {
+  success: boolean;
+  /** Current values after applying the changes */
+  values: DebugToggleValues;
+  /** Settings that were changed by this call */
+  changed: DebugToggleName[];
+  /** Settings that could not be read or changed, with the reason */
+  errors?: Partial<Record<DebugToggleName, string>>;
+  note: string;
+}
+
+type ToggleValue = string | number | boolean;
+
+interface ToggleSpec {
+  extension: string;
+  /** Extension parameter that sets the value */
+  param: string;
+  toParam: (value: ToggleValue) => string;
+  /** Read the value from the extension's response */
+  fromResponse: (response: Record<string, unknown>) => ToggleValue | undefined;
+}
+
+function stringField(response: Record<string, unknown>, key: string): string | undefined {
+  const value = response[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+const TOGGLES: Record<ExtensionToggleName, ToggleSpec> = {
+  timeDilation: {
+    extension: 'ext.flutter.timeDilation',
+    param: 'timeDilation',
+    toParam: (value) => String(value),
+    fromResponse: (response) => {
+      const value = Number(stringField(response, 'timeDilation'));
+      return Number.isFinite(value) ? value : undefined;
+    },
+  },
+  debugPaint: {
+    extension: 'ext.flutter.debugPaint',
+    param: 'enabled',
+    toParam: (value) => String(value),
+    fromResponse: (response) => {
+      const value = stringField(response, 'enabled');
+      return value === undefined ? undefined : value === 'true';
+    },
+  },
+  performanceOverlay: {
+    extension: 'ext.flutter.showPerformanceOverlay',
+    param: 'enabled',
+    toParam: (value) => String(value),
+    fromResponse: (response) => {
+      const value = stringField(response, 'enabled');
+      return value === undefined ? undefined : value === 'true';
+    },
+  },
+  platform: {
+    extension: 'ext.flutter.platformOverride',
+    param: 'value',
+    toParam: (value) => String(value),
+    fromResponse: (response) => stringField(response, 'value'),
+  },
+  brightness: {
+    extension: 'ext.flutter.brightnessOverride',
+    param: 'value',
+    // The framework expects "Brightness.light" / "Brightness.dark"; anything else clears the override
+    toParam: (value) => (value === 'default' ? 'default' : `Brightness.${String(value)}`),
+    fromResponse: (response) => stringField(response, 'value')?.replace(/^Brightness\./, ''),
+  },
+};
+
+export const DEBUG_TOGGLE_NAMES: DebugToggleName[] = [...(Object.keys(TOGGLES) as ExtensionToggleName[]), 'textSize'];
+
+const RESET_NOTE =
+  'These settings live in the running isolate: a hot restart (or relaunch) resets them to their defaults, ' +
+  'a hot reload keeps them. textSize is a simulator setting instead: it survives restarts and applies to ' +
+  'every app on the simulator until changed back ("large" is the default).';
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return /code -32601|Unknown method|Method not found/i.test(message)
+    ? 'Not available: the app must run in debug mode and have finished starting'
+    : message;
+}
+
+async function callTextSize(
+  textSize: TextSizeControl | undefined,
+  value: ContentSizeCategory | undefined
+): Promise<ContentSizeCategory> {
+  if (!textSize) {
+    throw new Error('Not available: the session has no simulator');
+  }
+  if (value !== undefined) {
+    await textSize.set(value);
+  }
+  return textSize.get();
+}
+
+async function callToggle(
+  client: VmServiceClient,
+  name: ExtensionToggleName,
+  value: ToggleValue | undefined
+): Promise<ToggleValue | undefined> {
+  const spec = TOGGLES[name];
+  const params = value === undefined ? {} : { [spec.param]: spec.toParam(value) };
+  const response = await client.callExtension(spec.extension, params);
+  return spec.fromResponse((response ?? {}) as Record<string, unknown>);
+}
+
+/**
+ * Apply the given debug settings and report the current value of every setting.
+ * Settings that are not given are only read.
+ *
+ * @param textSize - Access to the simulator's text size, if the session has a simulator
+ */
+export async function applyDebugToggles(
+  client: VmServiceClient,
+  changes: DebugToggleValues,
+  textSize?: TextSizeControl
+): Promise<DebugToggleResult> {
+  const values: DebugToggleValues = {};
+  const changed: DebugToggleName[] = [];
+  const errors: Partial<Record<DebugToggleName, string>> = {};
+
+  for (const name of DEBUG_TOGGLE_NAMES) {
+    const requested = changes[name];
+    try {
+      const current = name === 'textSize'
+        ? await callTextSize(textSize, changes.textSize)
+        : await callToggle(client, name, requested);
+      Object.assign(values, { [name]: current });
+      if (requested !== undefined) {
+        changed.push(name);
+      }
+    } catch (error) {
+      errors[name] = errorMessage(error);
+    }
+  }
+
+  const failedChanges = DEBUG_TOGGLE_NAMES.filter((name) => changes[name] !== undefined && errors[name]);
+  const result: DebugToggleResult = {
+    success: failedChanges.length === 0,
+    values,
+    changed,
+    note: RESET_NOTE,
+  };
+  if (Object.keys(errors).length > 0) {
+    result.errors = errors;
+  }
+  return result;
+}
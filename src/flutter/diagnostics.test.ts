@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseDiagnostics } from './diagnostics.js';
+
+describe('parseDiagnostics', () => {
+  it('should parse Dart compiler errors and warnings relative to the worktree', () => {
+    const diagnostics = parseDiagnostics(
+      [
+        "lib/main.dart:12:5: Error: Expected ';' after this.",
+        '    print("hi")',
+        '    ^',
+        "/Users/alice/app/lib/home.dart:3:8: Warning: Operand of null-aware operation '?.' has type 'String'.",
+        '../../.pub-cache/hosted/pub.dev/foo-1.0.0/lib/foo.dart:1:1: Error: Not found.',
+      ],
+      '/Users/alice/app'
+    );
+
+    expect(diagnostics).toEqual([
+      { severity: 'error', source: 'dart', file: 'lib/main.dart', line: 12, column: 5, message: "Expected ';' after this." },
+      {
+        severity: 'warning',
+        source: 'dart',
+        file: 'lib/home.dart',
+        line: 3,
+        column: 8,
+        message: "Operand of null-aware operation '?.' has type 'String'.",
+      },
+      {
+        severity: 'error',
+        source: 'dart',
+        file: '../../.pub-cache/hosted/pub.dev/foo-1.0.0/lib/foo.dart',
+        line: 1,
+        column: 1,
+        message: 'Not found.',
+      },
+    ]);
+  });
+
+  it('should parse Xcode errors with and without a location and report repeats once', () => {
+    const output = [
+      "Error (Xcode): /Users/alice/app/ios/Runner/AppDelegate.swift:10:5: error: cannot find 'Foo' in scope",
+      "Error (Xcode): No profiles for 'com.example.app' were found",
+      '/Users/alice/app/ios/Runner/Bridge.m:4:1: warning: unused variable',
+      'Could not build the application for the simulator.',
+      "Error (Xcode): /Users/alice/app/ios/Runner/AppDelegate.swift:10:5: error: cannot find 'Foo' in scope",
+    ].join('\n');
+
+    expect(parseDiagnostics(output, '/Users/alice/app')).toEqual([
+      {
+        severity: 'error',
+        source: 'xcode',
+        file: 'ios/Runner/AppDelegate.swift',
+        line: 10,
+        column: 5,
+        message: "cannot find 'Foo' in scope",
+      },
+      { severity: 'error', source: 'xcode', message: "No profiles for 'com.example.app' were found" },
+      { severity: 'warning', source: 'xcode', file: 'ios/Runner/Bridge.m', line: 4, column: 1, message: 'unused variable' },
+    ]);
+  });
+
+  it('should parse CocoaPods and Gradle failures', () => {
+    const output = [
+      'Warning: CocoaPods not installed. Skipping pod install.',
+      '[!] CocoaPods could not find compatible versions for pod "firebase_core"',
+      'e: file:///Users/alice/app/android/app/src/main/kotlin/MainActivity.kt:12:5 Unresolved reference: foo',
+      'FAILURE: Build failed with an exception.',
+      '* What went wrong:',
+      "Execution failed for task ':app:compileDebugKotlin'.",
+    ];
+
+    expect(parseDiagnostics(output, '/Users/alice/app')).toEqual([
+      { severity: 'warning', source: 'cocoapods', message: 'CocoaPods not installed. Skipping pod install.' },
+      { severity: 'error', source: 'cocoapods', message: 'CocoaPods could not find compatible versions for pod "firebase_core"' },
+      {
+        severity: 'error',
+        source: 'gradle',
+        file: 'android/app/src/main/kotlin/MainActivity.kt',
+        line: 12,
+        column: 5,
+        message: 'Unresolved reference: foo',
+      },
+      { severity: 'error', source: 'gradle', message: "Execution failed for task ':app:compileDebugKotlin'." },
+    ]);
+  });
+
+  it('should return nothing for clean output', () => {
+    expect(parseDiagnostics('Running Xcode build...\nXcode build done. 12.3s\n')).toEqual([]);
+  });
+});
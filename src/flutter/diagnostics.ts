@@ -0,0 +1,144 @@
+import { isAbsolute, relative } from 'path';
+import { BuildDiagnostic, DiagnosticSeverity } from './types.js';
+
+/**
+ * Structured errors and warnings extracted from flutter run / build / clean output:
+ * Dart compiler messages, Xcode and native compiler errors, CocoaPods and Gradle failures.
+ */
+
+interface LinePattern {
+  /** Named groups: file, line, column, severity, message */
+  pattern: RegExp;
+  source: BuildDiagnostic['source'];
+  /** Severity for patterns without a severity group */
+  severity?: DiagnosticSeverity;
+}
+
+const SEVERITIES: Partial<Record<string, DiagnosticSeverity>> = {
+  error: 'error',
+  fatal: 'error',
+  warning: 'warning',
+  e: 'error',
+  w: 'warning',
+};
+
+// Checked in order; the first matching pattern wins
+const LINE_PATTERNS: LinePattern[] = [
+  // lib/main.dart:12:5: Error: Expected ';' after this.
+  {
+    pattern: /^(?<file>\S+\.dart):(?<line>\d+):(?<column>\d+): (?<severity>Error|Warning): (?<message>.+)$/,
+    source: 'dart',
+  },
+  // Error (Xcode): /path/ios/Runner/AppDelegate.swift:10:5: error: cannot find 'Foo' in scope
+  // Error (Xcode): No profiles for 'com.example.app' were found
+  {
+    pattern:
+      /^(?<severity>Error|Warning) \(Xcode\): (?:(?<file>\S+?):(?<line>\d+):(?:(?<column>\d+):)? (?:(?:fatal )?(?:error|warning): )?)?(?<message>.+)$/,
+    source: 'xcode',
+  },
+  // /path/ios/Runner/AppDelegate.swift:10:5: error: cannot find 'Foo' in scope (raw xcodebuild output)
+  {
+    pattern:
+      /^(?<file>\S+\.(?:swift|m|mm|h|c|cc|cpp|plist|xcconfig|storyboard|xib)):(?<line>\d+):(?:(?<column>\d+):)? (?:fatal )?(?<severity>error|warning): (?<message>.+)$/,
+    source: 'xcode',
+  },
+  // [!] CocoaPods could not find compatible versions for pod "firebase_core"
+  { pattern: /^\[!\] (?<message>.+)$/, source: 'cocoapods', severity: 'error' },
+  // Warning: CocoaPods not installed. Skipping pod install.
+  { pattern: /^(?<severity>Error|Warning): (?<message>CocoaPods .+)$/, source: 'cocoapods' },
+  // e: file:///path/android/app/src/main/kotlin/MainActivity.kt:12:5 Unresolved reference: foo
+  {
+    pattern: /^(?<severity>e|w): (?<file>\S+?):(?<line>\d+):(?<column>\d+) (?<message>.+)$/,
+    source: 'gradle',
+  },
+  // /path/android/app/src/main/java/Foo.java:12: error: cannot find symbol
+  {
+    pattern: /^(?<file>\S+\.java):(?<line>\d+): (?<severity>error|warning): (?<message>.+)$/,
+    source: 'gradle',
+  },
+];
+
+// Gradle explains a failed build in the line(s) after this header
+const GRADLE_WHAT_WENT_WRONG = /^\* What went wrong:$/;
+
+/**
+ * Make a reported path relative to the worktree when it lies inside it.
+ */
+function toWorktreePath(file: string, worktreePath: string | undefined): string {
+  const path = file.replace(/^file:\/\//, '');
+  if (worktreePath && isAbsolute(path)) {
+    const relativePath = relative(worktreePath, path);
+    if (!relativePath.startsWith('..') && !isAbsolute(relativePath)) {
+      return relativePath;
+    }
+  }
+  return path;
+}
+
+function parseLine(line: string, worktreePath: string | undefined): BuildDiagnostic | undefined {
+  for (const { pattern, source, severity } of LINE_PATTERNS) {
+    // Optional groups that did not participate in the match are undefined
+    const groups: Partial<Record<string, string>> | undefined = pattern.exec(line)?.groups;
+    if (!groups) {
+      continue;
+    }
+    const diagnostic: BuildDiagnostic = {
+      severity: severity ?? SEVERITIES[(groups.severity ?? 'error').toLowerCase()] ?? 'error',
+      source,
+      message: (groups.message ?? '').trim(),
+    };
+    if (groups.file) {
+      diagnostic.file = toWorktreePath(groups.file, worktreePath);
+    }
+    if (groups.line) {
+      diagnostic.line = Number(groups.line);
+    }
+    if (groups.column) {
+      diagnostic.column = Number(groups.column);
+    }
+    return diagnostic;
+  }
+  return undefined;
+}
+
+/**
+ * Extract errors and warnings from build output.
+ *
+ * Identical diagnostics are reported once, since flutter repeats Xcode errors in its
+ * summary. File paths inside the worktree are made relative to it.
+ *
+ * @param output - Output text or individual lines
+ * @param worktreePath - Project root to make file paths relative to
+ */
+export function parseDiagnostics(output: string | string[], worktreePath?: string): BuildDiagnostic[] {
+  const lines = typeof output === 'string' ? output.split('\n') : output;
+  const diagnostics: BuildDiagnostic[] = [];
+  const seen = new Set<string>();
+
+  const add = (diagnostic: BuildDiagnostic): void => {
+    const key = JSON.stringify(diagnostic);
+    if (!seen.has(key)) {
+      seen.add(key);
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (GRADLE_WHAT_WENT_WRONG.test(line)) {
+      const message = lines
+        .slice(index + 1)
+        .map((next) => next.trim())
+        .find((next) => next.length > 0);
+      if (message) {
+        add({ severity: 'error', source: 'gradle', message });
+      }
+      continue;
+    }
+    const diagnostic = parseLine(line, worktreePath);
+    if (diagnostic) {
+      add(diagnostic);
+    }
+  }
+  return diagnostics;
+}
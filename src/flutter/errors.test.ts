@@ -0,0 +1,33 @@
+import { describe, it, expect } from '@jest/globals';
+import { extractErrorBlock, isBuildError } from './errors.js';
+
+describe('isBuildError', () => {
+  it('should match Dart compile errors and Xcode errors', () => {
+    expect(isBuildError("lib/main.dart:12:3: Error: Expected ';' after this.")).toBe(true);
+    expect(isBuildError('Error (Xcode): Flutter failed to compile the app')).toBe(true);
+    expect(isBuildError('Could not build the application for the simulator.')).toBe(false);
+  });
+});
+
+describe('extractErrorBlock', () => {
+  it('should start at the first error line', () => {
+    const lines = [
+      'Running Xcode build...',
+      'Error output from CocoaPods:',
+      '    [!] Unable to find a specification for `Firebase`',
+      'Error launching application on iPhone 16 Pro.',
+    ];
+
+    expect(extractErrorBlock(lines)).toBe(lines.slice(1).join('\n'));
+  });
+
+  it('should cap the block length', () => {
+    const lines = ['Exception: boom', ...Array.from({ length: 10 }, (_, i) => `  frame ${String(i)}`)];
+
+    expect(extractErrorBlock(lines, 3)?.split('\n')).toEqual(['Exception: boom', '  frame 0', '  frame 1']);
+  });
+
+  it('should return undefined without an error line', () => {
+    expect(extractErrorBlock(['Running pod install...', 'Xcode build done.'])).toBeUndefined();
+  });
+});
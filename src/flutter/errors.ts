@@ -0,0 +1,36 @@
+import { isCompileError } from './reload.js';
+
+// Lines that start the part of flutter run output explaining why it failed
+const ERROR_START_PATTERNS = [
+  /^\S+\.dart:\d+:\d+: Error: /,
+  /^Error \(Xcode\): /,
+  /^Error output from CocoaPods:/,
+  /Could not build the application/,
+  /Error launching application/,
+  /Failed to build iOS app/,
+  /^Unhandled exception:/,
+  /^Exception: /,
+  /^Error: /,
+];
+
+/**
+ * Whether a line is a Dart compile error or an Xcode build error.
+ */
+export function isBuildError(line: string): boolean {
+  const trimmed = line.trim();
+  return isCompileError(trimmed) || /^Error \(Xcode\): /.test(trimmed);
+}
+
+/**
+ * Find the block of output explaining a failure: from the first error line to the end
+ * of the output, capped at maxLines.
+ *
+ * @returns The error block joined with newlines, or undefined if no error line was found
+ */
+export function extractErrorBlock(lines: string[], maxLines = 40): string | undefined {
+  const start = lines.findIndex((line) => ERROR_START_PATTERNS.some((pattern) => pattern.test(line.trim())));
+  if (start === -1) {
+    return undefined;
+  }
+  return lines.slice(start, start + maxLines).join('\n');
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from '@jest/globals';
+import { evaluateExpression } from './evaluate.js';
+import { VmServiceClient } from './vm-service.js';
+
+/** Client whose VM service answers every request with the given handler */
+function fakeClient(
+  handler: (method: string, params: Record<string, unknown>) => { result?: unknown; error?: unknown }
+): { client: VmServiceClient; calls: Array<{ method: string; params: Record<string, unknown> }> } {
+  const calls: Array<{ method: string; params: Record<string, unknown> }> = [];
+  const client: VmServiceClient = new VmServiceClient({
+    send: (data) => {
+      const { id, method, params } = JSON.parse(data) as {
+        id: string;
+        method: string;
+        params: Record<string, unknown>;
+      };
+      calls.push({ method, params });
+      const response =
+        method === 'getVM' ? { result: { isolates: [{ id: 'isolates/1', name: 'main' }] } } : handler(method, params);
+      setImmediate(() => {
+        client.receive(JSON.stringify({ jsonrpc: '2.0', id, ...response }));
+      });
+    },
+    close: () => undefined,
+  });
+  return { client, calls };
+}
+
+const isolate = {
+  rootLib: { id: 'libraries/1', uri: 'package:my_app/main.dart' },
+  libraries: [
+    { id: 'libraries/1', uri: 'package:my_app/main.dart' },
+    { id: 'libraries/2', uri: 'package:my_app/state/cart.dart' },
+  ],
+  pauseEvent: { kind: 'Resume' },
+};
+
+describe('evaluateExpression', () => {
+  it('should evaluate in the root library and return kind, class and value', async () => {
+    const { client, calls } = fakeClient((method) =>
+      method === 'getIsolate'
+        ? { result: isolate }
+        : { result: { type: '@Instance', kind: 'Int', classRef: { name: '_Smi' }, valueAsString: '42' } }
+    );
+
+    const result = await evaluateExpression(client, 'counter.value', { timeoutMs: 1000 });
+
+    expect(result).toEqual({ kind: 'Int', class: '_Smi', value: '42', libraryUri: 'package:my_app/main.dart' });
+    expect(calls.at(-1)).toEqual({
+      method: 'evaluate',
+      params: { isolateId: 'isolates/1', targetId: 'libraries/1', expression: 'counter.value', disableBreakpoints: true },
+    });
+  });
+
+  it('should describe plain instances with toString() in the requested library', async () => {
+    const { client, calls } = fakeClient((method) => {
+      if (method === 'getIsolate') {
+        return { result: isolate };
+      }
+      if (method === 'evaluate') {
+        return { result: { type: '@Instance', id: 'objects/7', kind: 'PlainInstance', classRef: { name: 'Cart' } } };
+      }
+      return { result: { type: '@Instance', kind: 'String', valueAsString: 'Cart(items: 3)' } };
+    });
+
+    const result = await evaluateExpression(client, 'cart', {
+      libraryUri: 'package:my_app/state/cart.dart',
+      timeoutMs: 1000,
+    });
+
+    expect(result).toEqual({
+      kind: 'PlainInstance',
+      class: 'Cart',
+      value: 'Cart(items: 3)',
+      libraryUri: 'package:my_app/state/cart.dart',
+    });
+    expect(calls.find((call) => call.method === 'evaluate')?.params.targetId).toBe('libraries/2');
+    expect(calls.at(-1)?.params).toMatchObject({ targetId: 'objects/7', selector: 'toString' });
+  });
+
+  it('should return exceptions thrown by the expression as kind Error', async () => {
+    const { client } = fakeClient((method) =>
+      method === 'getIsolate'
+        ? { result: isolate }
+        : { result: { type: '@Error', kind: 'UnhandledException', message: 'Bad state: No element' } }
+    );
+
+    const result = await evaluateExpression(client, '[].first', { timeoutMs: 1000 });
+
+    expect(result).toEqual({ kind: 'Error', value: 'Bad state: No element', libraryUri: 'package:my_app/main.dart' });
+  });
+
+  it('should refuse to evaluate while the app is paused', async () => {
+    const { client, calls } = fakeClient(() => ({
+      result: { ...isolate, pauseEvent: { kind: 'PauseBreakpoint' } },
+    }));
+
+    await expect(evaluateExpression(client, 'x', { timeoutMs: 1000 })).rejects.toThrow(
+      /app is paused \(PauseBreakpoint\)/
+    );
+    expect(calls.map((call) => call.method)).not.toContain('evaluate');
+  });
+
+  it('should explain unknown libraries, compile errors and unavailable evaluation', async () => {
+    let evaluateError: unknown;
+    const { client } = fakeClient((method) =>
+      method === 'getIsolate' ? { result: isolate } : { error: evaluateError }
+    );
+
+    await expect(
+      evaluateExpression(client, 'x', { libraryUri: 'package:other/other.dart', timeoutMs: 1000 })
+    ).rejects.toThrow(/Library package:other\/other.dart is not loaded/);
+
+    evaluateError = { code: 113, message: 'Expression compilation error', data: { details: "Undefined name 'x'." } };
+    await expect(evaluateExpression(client, 'x', { timeoutMs: 1000 })).rejects.toThrow(
+      /does not compile: .*Undefined name 'x'/
+    );
+
+    evaluateError = { code: 100, message: 'Feature is disabled' };
+    await expect(evaluateExpression(client, 'x', { timeoutMs: 1000 })).rejects.toThrow(/must run in debug mode/);
+  });
+});
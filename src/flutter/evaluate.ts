@@ -0,0 +1,155 @@
+import { VmServiceClient } from './vm-service.js';
+
+/**
+ * Dart expression evaluation in the running app through the VM service evaluate RPC.
+ */
+
+export interface EvaluateOptions {
+  /** Library to evaluate in, e.g. "package:my_app/main.dart" (default: the root library) */
+  libraryUri?: string;
+  timeoutMs: number;
+}
+
+export interface EvaluateResult {
+  /** Instance kind, e.g. "String", "Int", "List", "PlainInstance", "Null"; "Error" if evaluation threw */
+  kind: string;
+  /** Class of the result, e.g. "_Map<String, int>" */
+  class?: string;
+  /** String value of the result, using toString() for objects without a VM-provided value */
+  value?: string;
+  /** The VM shortened the value */
+  truncated?: boolean;
+  /** Library the expression was evaluated in */
+  libraryUri: string;
+}
+
+/** Reference returned by evaluate and invoke: an @Instance, @Error or Sentinel */
+interface EvaluateResponse {
+  type?: string;
+  id?: string;
+  kind?: string;
+  classRef?: { name?: string };
+  valueAsString?: string;
+  valueAsStringIsTruncated?: boolean;
+  message?: string;
+}
+
+interface LibraryRef {
+  id: string;
+  uri: string;
+}
+
+interface IsolateJson {
+  rootLib?: LibraryRef;
+  libraries?: LibraryRef[];
+  pauseEvent?: { kind?: string };
+}
+
+// Instance kinds whose valueAsString is missing and which are worth a toString() call
+const TO_STRING_KINDS = new Set(['PlainInstance', 'List', 'Map', 'Set', 'Record']);
+
+function evaluationError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  if (/code -32601|\(code 100\)|Method not found|not supported/i.test(message)) {
+    return new Error(
+      'Expression evaluation is not available. The app must run in debug mode; ' +
+      `profile and release builds are compiled ahead of time. (${message})`
+    );
+  }
+  if (/\(code 108\)/.test(message)) {
+    return new Error(`The app is in the middle of a hot reload. Try again when it finishes. (${message})`);
+  }
+  if (/\(code 113\)/.test(message)) {
+    return new Error(`The expression does not compile: ${message}`);
+  }
+  return error instanceof Error ? error : new Error(message);
+}
+
+async function request(
+  client: VmServiceClient,
+  method: string,
+  params: Record<string, unknown>,
+  timeoutMs: number
+): Promise<unknown> {
+  try {
+    return await client.request(method, params, timeoutMs);
+  } catch (error) {
+    throw evaluationError(error);
+  }
+}
+
+/**
+ * Evaluate a Dart expression in the app's main isolate.
+ *
+ * Uncaught exceptions thrown by the expression are reported as kind "Error" rather
+ * than rejected, so the caller sees the message.
+ *
+ * @throws Error if the app is paused, evaluation is unavailable (non-debug builds),
+ *   the library is not loaded, the expression does not compile or the request times out
+ */
+export async function evaluateExpression(
+  client: VmServiceClient,
+  expression: string,
+  options: EvaluateOptions
+): Promise<EvaluateResult> {
+  const { timeoutMs } = options;
+  const isolateId = await client.getMainIsolateId(timeoutMs);
+  const isolate = (await request(client, 'getIsolate', { isolateId }, timeoutMs)) as IsolateJson | undefined;
+
+  const pauseKind = isolate?.pauseEvent?.kind;
+  if (pauseKind?.startsWith('Pause')) {
+    throw new Error(
+      `The app is paused (${pauseKind}). Resume it, e.g. from DevTools, before evaluating expressions.`
+    );
+  }
+
+  const library = options.libraryUri
+    ? isolate?.libraries?.find((candidate) => candidate.uri === options.libraryUri)
+    : isolate?.rootLib;
+  if (!library) {
+    throw new Error(
+      options.libraryUri
+        ? `Library ${options.libraryUri} is not loaded in the app. Use a URI like package:my_app/main.dart.`
+        : 'The app has no root library yet. Wait for the app to finish starting.'
+    );
+  }
+
+  const response = (await request(
+    client,
+    'evaluate',
+    { isolateId, targetId: library.id, expression, disableBreakpoints: true },
+    timeoutMs
+  )) as EvaluateResponse | undefined;
+
+  if (response?.type === '@Error' || response?.type === 'Error') {
+    return { kind: 'Error', value: response.message, libraryUri: library.uri };
+  }
+  if (response?.type === 'Sentinel') {
+    return { kind: 'Sentinel', value: response.valueAsString, libraryUri: library.uri };
+  }
+
+  const result: EvaluateResult = { kind: response?.kind ?? 'Unknown', libraryUri: library.uri };
+  if (response?.classRef?.name) {
+    result.class = response.classRef.name;
+  }
+  if (response?.valueAsString !== undefined) {
+    result.value = response.valueAsString;
+    if (response.valueAsStringIsTruncated) {
+      result.truncated = true;
+    }
+  } else if (response?.id && TO_STRING_KINDS.has(result.kind)) {
+    const described = (await request(
+      client,
+      'invoke',
+      { isolateId, targetId: response.id, selector: 'toString', argumentIds: [], disableBreakpoints: true },
+      timeoutMs
+    )) as EvaluateResponse | undefined;
+    if (described?.valueAsString !== undefined) {
+      result.value = described.valueAsString;
+      if (described.valueAsStringIsTruncated) {
+        result.truncated = true;
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from '@jest/globals';
+import { fetchWidgetTree, toWidgetNode } from './inspector.js';
+import { VmServiceClient } from './vm-service.js';
+
+/** Client whose VM service answers every request with the given handler */
+function fakeClient(
+  handler: (method: string, params: Record<string, unknown>) => { result?: unknown; error?: unknown }
+): { client: VmServiceClient; calls: Array<{ method: string; params: Record<string, unknown> }> } {
+  const calls: Array<{ method: string; params: Record<string, unknown> }> = [];
+  const client: VmServiceClient = new VmServiceClient({
+    send: (data) => {
+      const { id, method, params } = JSON.parse(data) as {
+        id: string;
+        method: string;
+        params: Record<string, unknown>;
+      };
+      calls.push({ method, params });
+      const response =
+        method === 'getVM' ? { result: { isolates: [{ id: 'isolates/1', name: 'main' }] } } : handler(method, params);
+      setImmediate(() => {
+        client.receive(JSON.stringify({ jsonrpc: '2.0', id, ...response }));
+      });
+    },
+    close: () => undefined,
+  });
+  return { client, calls };
+}
+
+const summaryTree = {
+  description: 'MyApp',
+  widgetRuntimeType: 'MyApp',
+  valueId: 'inspector-1',
+  createdByLocalProject: true,
+  creationLocation: { file: 'file:///Users/alice/app/lib/main.dart', line: 10, column: 10 },
+  children: [
+    {
+      description: "Text-[<'title'>]",
+      widgetRuntimeType: 'Text',
+      valueId: 'inspector-2',
+      createdByLocalProject: true,
+      textPreview: 'Hello',
+      creationLocation: { file: 'file:///Users/alice/app/lib/home.dart', line: 22, column: 14 },
+    },
+    {
+      description: 'Column',
+      widgetRuntimeType: 'Column',
+      valueId: 'inspector-3',
+      children: [{ description: 'Icon', widgetRuntimeType: 'Icon', valueId: 'inspector-4' }],
+    },
+  ],
+};
+
+describe('toWidgetNode', () => {
+  it('should extract type, key, text and project-relative locations', () => {
+    const node = toWidgetNode(summaryTree, { maxDepth: 10, projectRoot: '/Users/alice/app' });
+
+    expect(node).toMatchObject({ id: 'inspector-1', widget: 'MyApp', location: 'lib/main.dart:10:10', local: true });
+    expect(node.children?.[0]).toEqual({
+      id: 'inspector-2',
+      widget: 'Text',
+      key: "[<'title'>]",
+      text: 'Hello',
+      location: 'lib/home.dart:22:14',
+      local: true,
+    });
+  });
+
+  it('should keep absolute locations outside the project', () => {
+    const node = toWidgetNode(summaryTree, { maxDepth: 10, projectRoot: '/Users/bob/other' });
+
+    expect(node.location).toBe('/Users/alice/app/lib/main.dart:10:10');
+  });
+
+  it('should cut the tree at maxDepth', () => {
+    const node = toWidgetNode(summaryTree, { maxDepth: 1 });
+
+    expect(node.children?.[1]).toEqual({ id: 'inspector-3', widget: 'Column', omittedChildren: 1 });
+  });
+
+  it('should read text and properties from detailed nodes', () => {
+    const node = toWidgetNode(
+      {
+        description: 'Text',
+        widgetRuntimeType: 'Text',
+        properties: [
+          { name: 'data', description: '"Sign in"' },
+          { name: 'textAlign', description: 'center' },
+        ],
+      },
+      { maxDepth: 1 }
+    );
+
+    expect(node).toMatchObject({ text: 'Sign in', properties: { data: '"Sign in"', textAlign: 'center' } });
+  });
+});
+
+describe('fetchWidgetTree', () => {
+  it('should release old ids and fetch the summary tree from the root', async () => {
+    const { client, calls } = fakeClient((method) =>
+      method === 'ext.flutter.inspector.getRootWidgetSummaryTree'
+        ? { result: { type: '_extensionType', result: summaryTree } }
+        : { result: { type: '_extensionType', result: true } }
+    );
+
+    const tree = await fetchWidgetTree(client, { maxDepth: 1 });
+
+    expect(calls.map((call) => call.method)).toEqual([
+      'getVM',
+      'ext.flutter.inspector.disposeGroup',
+      'getVM',
+      'ext.flutter.inspector.getRootWidgetSummaryTree',
+    ]);
+    expect(calls[3].params).toEqual({ objectGroup: 'mcp-widget-tree', isolateId: 'isolates/1' });
+    expect(tree).toMatchObject({ nodeCount: 3, truncated: true });
+  });
+
+  it('should fetch the detailed subtree of a widget id', async () => {
+    const { client, calls } = fakeClient(() => ({
+      result: { type: '_extensionType', result: summaryTree.children[1] },
+    }));
+
+    const tree = await fetchWidgetTree(client, { id: 'inspector-3', maxDepth: 5 });
+
+    expect(calls[1]).toEqual({
+      method: 'ext.flutter.inspector.getDetailsSubtree',
+      params: { arg: 'inspector-3', objectGroup: 'mcp-widget-tree', subtreeDepth: '5', isolateId: 'isolates/1' },
+    });
+    expect(tree).toMatchObject({ root: { widget: 'Column' }, nodeCount: 2, truncated: false });
+  });
+
+  it('should explain unknown ids and a missing inspector', async () => {
+    const { client: emptyClient } = fakeClient(() => ({ result: { type: '_extensionType', result: null } }));
+    await expect(fetchWidgetTree(emptyClient, { id: 'inspector-99', maxDepth: 5 })).rejects.toThrow(
+      /No widget with id inspector-99/
+    );
+
+    const { client: releaseClient } = fakeClient(() => ({ error: { code: -32601, message: 'Method not found' } }));
+    await expect(fetchWidgetTree(releaseClient, { maxDepth: 5 })).rejects.toThrow(
+      /widget inspector is not available\. The app must run in debug mode/
+    );
+  });
+});
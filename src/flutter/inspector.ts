@@ -0,0 +1,207 @@
+import { relative, isAbsolute } from 'path';
+import { VmServiceClient } from './vm-service.js';
+
+/**
+ * Widget tree inspection through Flutter's ext.flutter.inspector service extensions.
+ */
+
+/** Object group holding the inspector references handed out as widget ids */
+const OBJECT_GROUP = 'mcp-widget-tree';
+
+/**
+ * One widget in the tree returned by flutter_widget_tree.
+ */
+export interface WidgetNode {
+  /** Inspector id; pass it back to fetch this widget's subtree */
+  id?: string;
+  /** Widget type, e.g. "ElevatedButton" */
+  widget: string;
+  key?: string;
+  /** Text shown by Text-like widgets */
+  text?: string;
+  /** Where the widget was created, e.g. "lib/main.dart:42:12" */
+  location?: string;
+  /** Created by the app's own code rather than a framework or package */
+  local?: boolean;
+  /** Widget properties (subtree requests only) */
+  properties?: Record<string, string>;
+  children?: WidgetNode[];
+  /** Number of children left out because the depth limit was reached */
+  omittedChildren?: number;
+}
+
+export interface WidgetTreeOptions {
+  /** Widget id from an earlier result; fetches that widget's detailed subtree */
+  id?: string;
+  /** Levels below the starting widget to include */
+  maxDepth: number;
+  /** Project root, to show creation locations relative to it */
+  projectRoot?: string;
+}
+
+export interface WidgetTree {
+  root: WidgetNode;
+  nodeCount: number;
+  /** Some children were left out because of maxDepth */
+  truncated: boolean;
+}
+
+/**
+ * The JSON form of a Flutter DiagnosticsNode, as far as it is used here.
+ */
+interface DiagnosticsNodeJson {
+  name?: string;
+  description?: string;
+  widgetRuntimeType?: string;
+  valueId?: string;
+  createdByLocalProject?: boolean;
+  creationLocation?: { file?: string; line?: number; column?: number };
+  textPreview?: string;
+  children?: DiagnosticsNodeJson[];
+  properties?: DiagnosticsNodeJson[];
+}
+
+function formatLocation(
+  location: DiagnosticsNodeJson['creationLocation'],
+  projectRoot: string | undefined
+): string | undefined {
+  if (!location?.file) {
+    return undefined;
+  }
+  let file = location.file.replace(/^file:\/\//, '');
+  if (projectRoot && isAbsolute(file)) {
+    const relativePath = relative(projectRoot, file);
+    if (!relativePath.startsWith('..') && !isAbsolute(relativePath)) {
+      file = relativePath;
+    }
+  }
+  const parts = [file, location.line, location.column].filter((part) => part !== undefined);
+  return parts.join(':');
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/s, '$1');
+}
+
+/**
+ * Convert a DiagnosticsNode into a WidgetNode, cutting the tree at maxDepth.
+ */
+export function toWidgetNode(
+  node: DiagnosticsNodeJson,
+  options: Pick<WidgetTreeOptions, 'maxDepth' | 'projectRoot'>,
+  depth = 0
+): WidgetNode {
+  const description = node.description ?? '';
+  const widget = node.widgetRuntimeType ?? description;
+  const result: WidgetNode = { widget };
+
+  if (node.valueId) {
+    result.id = node.valueId;
+  }
+  // Keyed widgets describe themselves as "Type-[key]"
+  if (node.widgetRuntimeType && description.startsWith(`${node.widgetRuntimeType}-`)) {
+    result.key = description.slice(node.widgetRuntimeType.length + 1);
+  }
+
+  const dataProperty = node.properties?.find((property) => property.name === 'data');
+  const text = node.textPreview ?? (dataProperty?.description ? unquote(dataProperty.description) : undefined);
+  if (text !== undefined) {
+    result.text = text;
+  }
+
+  const location = formatLocation(node.creationLocation, options.projectRoot);
+  if (location) {
+    result.location = location;
+  }
+  if (node.createdByLocalProject) {
+    result.local = true;
+  }
+
+  if (node.properties && node.properties.length > 0) {
+    const properties: Record<string, string> = {};
+    for (const property of node.properties) {
+      if (property.name && property.description !== undefined) {
+        properties[property.name] = property.description;
+      }
+    }
+    if (Object.keys(properties).length > 0) {
+      result.properties = properties;
+    }
+  }
+
+  const children = node.children ?? [];
+  if (children.length > 0) {
+    if (depth >= options.maxDepth) {
+      result.omittedChildren = children.length;
+    } else {
+      result.children = children.map((child) => toWidgetNode(child, options, depth + 1));
+    }
+  }
+  return result;
+}
+
+function summarize(node: WidgetNode): { nodeCount: number; truncated: boolean } {
+  let nodeCount = 1;
+  let truncated = node.omittedChildren !== undefined;
+  for (const child of node.children ?? []) {
+    const summary = summarize(child);
+    nodeCount += summary.nodeCount;
+    truncated ||= summary.truncated;
+  }
+  return { nodeCount, truncated };
+}
+
+async function callInspector(
+  client: VmServiceClient,
+  method: string,
+  params: Record<string, string>
+): Promise<unknown> {
+  try {
+    return await client.callExtension(`ext.flutter.inspector.${method}`, params);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/code -32601|Unknown method|Method not found/i.test(message)) {
+      throw new Error(
+        'The Flutter widget inspector is not available. The app must run in debug mode ' +
+        `and have finished starting. (${message})`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch the widget tree of the running app.
+ *
+ * Without an id, returns the summary tree (widgets created by the app's own code) from
+ * the root; ids from a previous full-tree request stay valid until the next one.
+ * With an id, returns the detailed subtree of that widget including its properties.
+ *
+ * @throws Error if the inspector is unavailable or the id is no longer valid
+ */
+export async function fetchWidgetTree(client: VmServiceClient, options: WidgetTreeOptions): Promise<WidgetTree> {
+  let response: unknown;
+  if (options.id) {
+    response = await callInspector(client, 'getDetailsSubtree', {
+      arg: options.id,
+      objectGroup: OBJECT_GROUP,
+      subtreeDepth: String(options.maxDepth),
+    });
+  } else {
+    // Release the references handed out by the previous request
+    await callInspector(client, 'disposeGroup', { objectGroup: OBJECT_GROUP });
+    response = await callInspector(client, 'getRootWidgetSummaryTree', { objectGroup: OBJECT_GROUP });
+  }
+
+  const node = (response as { result?: DiagnosticsNodeJson | null } | undefined)?.result;
+  if (!node) {
+    throw new Error(
+      options.id
+        ? `No widget with id ${options.id}. Ids are only valid until the next full widget tree request.`
+        : 'The app has no widget tree yet. Wait for the first frame to render.'
+    );
+  }
+
+  const root = toWidgetNode(node, options);
+  return { root, ...summarize(root) };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectPhase, isLaterPhase } from './phases.js';
+
+describe('detectPhase', () => {
+  it('should recognize build and launch milestones', () => {
+    expect(detectPhase('Resolving dependencies...')).toBe('resolving-dependencies');
+    expect(detectPhase('Running pod install...                  1,502ms')).toBe('pod-install');
+    expect(detectPhase('Running Xcode build...')).toBe('xcode-build');
+    expect(detectPhase('Xcode build done.                       42.1s')).toBe('installing');
+    expect(detectPhase('Syncing files to device iPhone 16 Pro...')).toBe('launching');
+    expect(detectPhase('Flutter run key commands.')).toBe('attached');
+    expect(detectPhase('A Dart VM Service on iPhone 16 Pro is available at: http://127.0.0.1:5555/abc=/')).toBe(
+      'attached'
+    );
+  });
+
+  it('should recognize the end of the app', () => {
+    expect(detectPhase('Application finished.')).toBe('app-exited');
+    expect(detectPhase('Lost connection to device.')).toBe('disconnected');
+  });
+
+  it('should ignore other output', () => {
+    expect(detectPhase('flutter: Hello from the app')).toBeUndefined();
+  });
+});
+
+describe('isLaterPhase', () => {
+  it('should only allow forward transitions', () => {
+    expect(isLaterPhase('xcode-build', 'pod-install')).toBe(true);
+    expect(isLaterPhase('pod-install', 'attached')).toBe(false);
+    expect(isLaterPhase('attached', 'attached')).toBe(false);
+  });
+});
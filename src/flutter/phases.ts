@@ -0,0 +1,51 @@
+import { FlutterProcessPhase } from './types.js';
+
+/**
+ * Startup phases in the order flutter run goes through them. Detection only moves
+ * forward through this list, so repeated output (e.g. a second "Syncing files")
+ * cannot move a running app back to an earlier phase.
+ */
+export const PHASE_ORDER: readonly FlutterProcessPhase[] = [
+  'starting',
+  'resolving-dependencies',
+  'pod-install',
+  'xcode-build',
+  'installing',
+  'launching',
+  'attached',
+  'app-exited',
+  'disconnected',
+];
+
+const PHASE_PATTERNS: Array<[RegExp, FlutterProcessPhase]> = [
+  [/Resolving dependencies|Running "flutter pub get"|Got dependencies/, 'resolving-dependencies'],
+  [/Running pod install/, 'pod-install'],
+  [/Running Xcode build/, 'xcode-build'],
+  // The simulator install itself is silent; it starts once the build is done
+  [/Xcode build done|Installing and launching|Installing .* to /, 'installing'],
+  [/Syncing files to device|Waiting for .* to report its (?:Dart )?VM Service/, 'launching'],
+  [/Flutter run key commands|A Dart VM Service .*is available at|Application started/, 'attached'],
+  [/Application finished|Application stopped/, 'app-exited'],
+  [/Lost connection to device/, 'disconnected'],
+];
+
+/**
+ * Find the phase a line of flutter output announces.
+ *
+ * @returns The announced phase, or undefined if the line is not a phase marker
+ */
+export function detectPhase(line: string): FlutterProcessPhase | undefined {
+  for (const [pattern, phase] of PHASE_PATTERNS) {
+    if (pattern.test(line)) {
+      return phase;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether moving from one phase to another is forward progress.
+ */
+export function isLaterPhase(next: FlutterProcessPhase, current: FlutterProcessPhase): boolean {
+  return PHASE_ORDER.indexOf(next) > PHASE_ORDER.indexOf(current);
+}
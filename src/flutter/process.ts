@@ -1,15 +1,71 @@
 import { spawnStreaming, SpawnedProcess } from '../utils/exec.js';
+import { isPathWithin } from '../session/path-policy.js';
 import { logger } from '../utils/logger.js';
 import { LogBuffer } from './log-buffer.js';
-import { FlutterProcess, FlutterRunOptions } from './types.js';
+import { DaemonEvent, FlutterDaemonClient } from './daemon.js';
+import { isCompileError, parseReloadOutcome, ReloadOutcome } from './reload.js';
+import { detectPhase, isLaterPhase } from './phases.js';
+import { DEBUG_COMMANDS, stripAppOutputPrefix } from './debug-commands.js';
+import { connectVmService, VmServiceClient } from './vm-service.js';
+import { extractErrorBlock, isBuildError } from './errors.js';
+import { parseDiagnostics } from './diagnostics.js';
+import { SourceChange, SourceWatcher } from './watcher.js';
+import { parseDevToolsUri, parseVmServiceUri, toVmServiceHttpUri, toVmServiceWsUri } from './vm-service-uri.js';
+import {
+  AutoReloadRecord,
+  FlutterDebugCommand,
+  FlutterDebugCommandOptions,
+  FlutterDebugCommandResult,
+  FlutterProcess,
+  FlutterProcessPhase,
+  FlutterReadyResult,
+  FlutterRunAttempt,
+  FlutterRunOptions,
+  FlutterWatchOptions,
+  HotReloadOptions,
+  HotReloadResult,
+} from './types.js';
 import { existsSync } from 'fs';
 import { resolve } from 'path';
 
+/** Automatic reloads kept for flutter_status */
+const MAX_AUTO_RELOADS = 20;
+
+function stringParam(params: Record<string, unknown>, key: string): string | undefined {
+  const value = params[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
 export class FlutterProcessManager {
   private process?: SpawnedProcess;
+  private daemon?: FlutterDaemonClient;
   private flutterProcess?: FlutterProcess;
   private logBuffer: LogBuffer;
   private logSubscribers: Set<(line: string) => void> = new Set();
+  /** Sees every log line while a hot reload, restart or debug command is waiting for its outcome */
+  private commandObserver?: (line: string) => void;
+  /** Connection to the app's VM service, opened on first use */
+  private vmService?: Promise<VmServiceClient>;
+  /** Name of the interactive command in progress, e.g. "hot reload" */
+  private commandInProgress?: string;
+  /** Called after every phase change and when the process exits */
+  private stateListeners: Set<() => void> = new Set();
+  /** Project root, to report diagnostics relative to it */
+  private worktreePath?: string;
+  /** Options and arguments of the last start(), reused by relaunches */
+  private runOptions?: FlutterRunOptions;
+  private runArgs: string[] = [];
+  /** Launches since the last start(), oldest first */
+  private runHistory: FlutterRunAttempt[] = [];
+  /** Log index where the output of the current launch begins */
+  private attemptLogIndex = 0;
+  /** Set by stop() and kill() so the exit is not treated as a crash */
+  private stopRequested = false;
+  private restartTimer?: NodeJS.Timeout;
+  /** Reloads the app when source files change, see FlutterRunOptions.watch */
+  private watcher?: SourceWatcher;
+  /** Source changes that arrived while another reload or command was running */
+  private deferredChange?: SourceChange;
 
   constructor(maxLogLines = 1000) {
     this.logBuffer = new LogBuffer(maxLogLines);
@@ -24,6 +80,7 @@ export class FlutterProcessManager {
     logger.info('Starting Flutter process', {
       worktreePath: options.worktreePath,
       deviceId: options.deviceId,
+      attach: options.attach !== undefined,
     });
 
     // Security: Validate target file
@@ -33,7 +90,7 @@ export class FlutterProcessManager {
 
       // Prevent path traversal attacks (e.g., "../../../etc/passwd")
       // Ensures the target file is within the project directory boundary
-      if (!targetPath.startsWith(resolve(options.worktreePath))) {
+      if (!isPathWithin(resolve(options.worktreePath), targetPath)) {
         throw new Error(
           `Security: Target file must be within project directory. ` +
           `Target: ${options.target}`
@@ -110,7 +167,33 @@ export class FlutterProcessManager {
       }
     }
 
-    const args = ['run', '-d', options.deviceId];
+    // Security: Validate attach targets, which are passed on as flutter attach arguments
+    if (options.attach?.appId && !/^[A-Za-z0-9._-]+$/.test(options.attach.appId)) {
+      throw new Error(
+        `Invalid app id: ${options.attach.appId}. ` +
+        `App ids must contain only letters, numbers, dots, hyphens, and underscores.`
+      );
+    }
+    if (options.attach?.vmServiceUri) {
+      let protocol: string | undefined;
+      try {
+        protocol = new URL(options.attach.vmServiceUri).protocol;
+      } catch {
+        protocol = undefined;
+      }
+      if (!protocol || !['http:', 'https:', 'ws:', 'wss:'].includes(protocol)) {
+        throw new Error(
+          `Invalid VM service URL: ${options.attach.vmServiceUri}. ` +
+          `Expected an http:// or ws:// URL as printed by the running app.`
+        );
+      }
+    }
+
+    const args = [options.attach ? 'attach' : 'run', '-d', options.deviceId];
+
+    if (options.machine) {
+      args.push('--machine');
+    }
 
     if (options.target) {
       args.push('-t', options.target);
@@ -120,20 +203,84 @@ export class FlutterProcessManager {
       args.push('--flavor', options.flavor);
     }
 
+    if (options.attach?.appId) {
+      args.push('--app-id', options.attach.appId);
+    }
+
+    if (options.attach?.vmServiceUri) {
+      args.push('--debug-url', options.attach.vmServiceUri);
+    }
+
     if (options.additionalArgs) {
       args.push(...options.additionalArgs);
     }
 
+    const startedAt = new Date();
+    this.worktreePath = options.worktreePath;
+    this.runOptions = options;
+    this.runArgs = args;
+    this.runHistory = [];
+    this.stopRequested = false;
     this.flutterProcess = {
       pid: 0,
       status: 'starting',
-      startedAt: new Date(),
+      phase: 'starting',
+      phaseHistory: [{ phase: 'starting', at: startedAt }],
+      startedAt,
+      machine: options.machine || undefined,
+      attach: options.attach ? true : undefined,
     };
 
-    this.process = spawnStreaming('flutter', args, {
+    // Watch before spawning, so a watcher error fails the call without leaving flutter running
+    if (options.watch) {
+      try {
+        this.startWatching(options.worktreePath, options.watch);
+      } catch (error) {
+        this.flutterProcess = undefined;
+        throw new Error(
+          `Failed to watch for source changes: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    this.launch(startedAt);
+    return this.flutterProcess;
+  }
+
+  /**
+   * Spawn flutter run with the arguments given to start(), for the first launch and
+   * for relaunches made by the restart policy.
+   */
+  private launch(startedAt: Date): void {
+    const options = this.runOptions;
+    const flutterProcess = this.flutterProcess;
+    if (!options || !flutterProcess) {
+      return;
+    }
+
+    // In machine mode stdout carries JSON-RPC messages; the daemon client turns them
+    // into requests, status changes and readable log lines
+    this.daemon = options.machine
+      ? new FlutterDaemonClient({
+        write: (data) => {
+          this.process?.stdin.write(data);
+        },
+        onEvent: (event) => {
+          this.handleDaemonEvent(event);
+        },
+      })
+      : undefined;
+
+    this.attemptLogIndex = this.logBuffer.getNextIndex();
+    this.process = spawnStreaming('flutter', this.runArgs, {
       cwd: options.worktreePath,
       onStdout: (data) => {
-        this.handleOutput(data);
+        if (this.daemon) {
+          this.daemon.feed(data).forEach((line) => {
+            this.appendLogLine(line);
+          });
+        } else {
+          this.handleOutput(data);
+        }
       },
       onStderr: (data) => {
         this.handleOutput(data);
@@ -143,48 +290,459 @@ export class FlutterProcessManager {
       },
     });
 
+    // Status stays "starting" until the app is attached, see enterPhase()
     if (this.process.pid) {
-      this.flutterProcess.pid = this.process.pid;
-      this.flutterProcess.status = 'running';
-      logger.info('Flutter process started', { pid: this.process.pid });
+      flutterProcess.pid = this.process.pid;
+      logger.info('Flutter process started', { pid: this.process.pid, machine: options.machine ?? false });
     }
-
-    return this.flutterProcess;
+    this.runHistory.push({ attempt: this.runHistory.length + 1, pid: flutterProcess.pid, startedAt });
   }
 
   private handleOutput(data: string): void {
     const lines = data.split('\n');
 
     for (const line of lines) {
-      if (line.trim()) {
-        this.logBuffer.append(line);
-
-        this.logSubscribers.forEach((subscriber) => {
-          try {
-            subscriber(line);
-          } catch (error) {
-            logger.error('Error in log subscriber', { error: String(error) });
-          }
-        });
+      this.appendLogLine(line);
+    }
+  }
+
+  private appendLogLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    this.logBuffer.append(line);
+
+    this.logSubscribers.forEach((subscriber) => {
+      try {
+        subscriber(line);
+      } catch (error) {
+        logger.error('Error in log subscriber', { error: String(error) });
+      }
+    });
+
+    const vmServiceUri = parseVmServiceUri(line);
+    if (vmServiceUri) {
+      this.recordVmServiceUri(vmServiceUri);
+    }
+    const devToolsUri = parseDevToolsUri(line);
+    if (devToolsUri && this.flutterProcess) {
+      this.flutterProcess.devToolsUri = devToolsUri;
+    }
+
+    const phase = detectPhase(line);
+    if (phase) {
+      this.enterPhase(phase, line);
+    }
+
+    this.commandObserver?.(line);
+  }
+
+  /**
+   * Store the VM service URI of the running app. A new URI means the app was relaunched,
+   * so a DevTools URL pointing at the old one is dropped.
+   */
+  private recordVmServiceUri(uri: string): void {
+    const flutterProcess = this.flutterProcess;
+    if (!flutterProcess) {
+      return;
+    }
+
+    const httpUri = toVmServiceHttpUri(uri);
+    if (flutterProcess.vmServiceUri !== httpUri) {
+      flutterProcess.devToolsUri = undefined;
+      this.closeVmService('the app announced a new VM service');
+    }
+    flutterProcess.vmServiceUri = httpUri;
+    flutterProcess.vmServiceWsUri = toVmServiceWsUri(uri);
+    logger.info('Dart VM service available', { pid: flutterProcess.pid, uri: httpUri });
+  }
+
+  /**
+   * Forget the VM service and DevTools URIs once the app they belong to is gone.
+   */
+  private clearVmServiceUri(): void {
+    if (!this.flutterProcess) {
+      return;
+    }
+    this.closeVmService('the app is gone');
+    this.flutterProcess.vmServiceUri = undefined;
+    this.flutterProcess.vmServiceWsUri = undefined;
+    this.flutterProcess.devToolsUri = undefined;
+  }
+
+  /**
+   * Get the connection to the app's VM service, opening it on first use.
+   *
+   * @throws Error if the app is not attached or the connection fails
+   */
+  async getVmService(): Promise<VmServiceClient> {
+    const wsUri = this.flutterProcess?.vmServiceWsUri;
+    if (!this.isRunning() || !wsUri) {
+      throw new Error('Dart VM service is not available. Wait until the app is attached (see flutter_vm_service_info).');
+    }
+
+    const client = await (this.vmService ?? this.connectVmService(wsUri));
+    if (client.isClosed()) {
+      // The VM service went away, e.g. the app was relaunched; connect again
+      return this.connectVmService(wsUri);
+    }
+    return client;
+  }
 
-        this.detectStatusChanges(line);
+  /**
+   * Open a new VM service connection and cache it. A failed attempt is dropped from
+   * the cache so the next call tries again.
+   */
+  private connectVmService(wsUri: string): Promise<VmServiceClient> {
+    const connecting = connectVmService(wsUri).catch((error: unknown) => {
+      if (this.vmService === connecting) {
+        this.vmService = undefined;
       }
+      throw error;
+    });
+    this.vmService = connecting;
+    return connecting;
+  }
+
+  private closeVmService(reason: string): void {
+    const vmService = this.vmService;
+    this.vmService = undefined;
+    vmService
+      ?.then((client) => {
+        client.close(reason);
+      })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Record a phase transition. Only forward transitions are applied; the process
+   * counts as running once the app is attached.
+   */
+  private enterPhase(phase: FlutterProcessPhase, line?: string): void {
+    const flutterProcess = this.flutterProcess;
+    if (!flutterProcess || !isLaterPhase(phase, flutterProcess.phase)) {
+      return;
+    }
+
+    flutterProcess.phase = phase;
+    flutterProcess.phaseHistory.push({ phase, at: new Date(), line });
+    if (phase === 'attached' && flutterProcess.status === 'starting') {
+      flutterProcess.status = 'running';
     }
+    if (phase === 'app-exited' || phase === 'disconnected') {
+      this.clearVmServiceUri();
+    }
+
+    logger.info('Flutter process phase changed', { pid: flutterProcess.pid, phase });
+    this.notifyStateListeners();
   }
 
-  private detectStatusChanges(line: string): void {
+  private notifyStateListeners(): void {
+    this.stateListeners.forEach((listener) => {
+      listener();
+    });
+  }
+
+  /**
+   * Apply a `flutter run --machine` event to the process status and log buffer.
+   */
+  private handleDaemonEvent({ event, params }: DaemonEvent): void {
     if (!this.flutterProcess) return;
 
-    if (line.includes('Hot reload') || line.includes('Reloaded')) {
-      this.flutterProcess.status = 'hot-reloading';
-      setTimeout(() => {
-        if (this.flutterProcess) {
-          this.flutterProcess.status = 'running';
+    switch (event) {
+      case 'app.start': {
+        const appId = stringParam(params, 'appId');
+        this.flutterProcess.appId = appId;
+        this.appendLogLine(`Launching app ${appId ?? ''} on ${stringParam(params, 'deviceId') ?? 'device'}`);
+        break;
+      }
+      case 'app.started':
+        this.enterPhase('attached', 'app.started');
+        this.appendLogLine('Application started');
+        break;
+      case 'app.debugPort': {
+        const wsUri = stringParam(params, 'wsUri');
+        if (wsUri) {
+          this.appendLogLine(`A Dart VM Service is available at: ${wsUri}`);
         }
-      }, 1000);
+        break;
+      }
+      case 'app.progress': {
+        // Finished events carry summaries such as "Reloaded 1 of 755 libraries in 417ms."
+        const message = stringParam(params, 'message');
+        if (message) {
+          this.appendLogLine(message);
+        }
+        break;
+      }
+      case 'app.log': {
+        const log = stringParam(params, 'log');
+        if (log) {
+          log.split('\n').forEach((line) => {
+            this.appendLogLine(line);
+          });
+        }
+        break;
+      }
+      case 'daemon.logMessage': {
+        const message = stringParam(params, 'message');
+        if (message) {
+          const prefix = stringParam(params, 'level') === 'error' ? 'Error: ' : '';
+          message.split('\n').forEach((line) => {
+            this.appendLogLine(`${prefix}${line}`);
+          });
+        }
+        break;
+      }
+      case 'app.stop': {
+        const error = stringParam(params, 'error');
+        this.enterPhase('app-exited', 'app.stop');
+        this.appendLogLine(error ? `Application stopped with error: ${error}` : 'Application finished.');
+        break;
+      }
+      default:
+        logger.debug('Unhandled flutter daemon event', { event });
     }
   }
 
+  /**
+   * Trigger a hot reload or restart and wait for flutter to report the outcome.
+   * Keystroke mode recognizes the outcome in the log; machine mode uses the app.restart response.
+   */
+  private async performReload(fullRestart: boolean, timeoutMs: number): Promise<HotReloadResult> {
+    const operation = fullRestart ? 'restart' : 'reload';
+    const label = fullRestart ? 'Hot restart' : 'Hot reload';
+
+    if (!this.process || !this.flutterProcess) {
+      throw new Error('No Flutter process running');
+    }
+    if (this.commandInProgress) {
+      throw new Error(`A ${this.commandInProgress} is already in progress`);
+    }
+    const appId = this.flutterProcess.appId;
+    if (this.daemon && !appId) {
+      throw new Error('Flutter app has not started yet. Wait for the app to launch before reloading.');
+    }
+
+    const flutterProcess = this.flutterProcess;
+    const previousStatus = flutterProcess.status;
+    const startedAt = Date.now();
+    const captured: string[] = [];
+    let timeoutId: NodeJS.Timeout | undefined;
+
+    const fromLog = new Promise<ReloadOutcome>((resolve) => {
+      this.commandObserver = (line) => {
+        captured.push(line);
+        const outcome = parseReloadOutcome(line, fullRestart);
+        if (outcome) {
+          resolve(outcome);
+        }
+      };
+    });
+    const timedOut = new Promise<undefined>((resolve) => {
+      timeoutId = setTimeout(() => {
+        resolve(undefined);
+      }, timeoutMs);
+    });
+    let onExit: (() => void) | undefined;
+    const exited = new Promise<ReloadOutcome>((resolve) => {
+      onExit = () => {
+        if (!this.isRunning()) {
+          resolve({ kind: 'failed', message: `Flutter exited with code ${String(flutterProcess.exitCode ?? 'unknown')}` });
+        }
+      };
+      this.stateListeners.add(onExit);
+    });
+
+    flutterProcess.status = 'hot-reloading';
+    this.commandInProgress = `hot ${operation}`;
+    logger.info(`Triggering hot ${operation}`, { pid: flutterProcess.pid });
+
+    let outcome: ReloadOutcome | undefined;
+    try {
+      if (this.daemon && appId) {
+        const request = this.daemon
+          .request('app.restart', { appId, fullRestart, pause: false, reason: 'manual' }, timeoutMs)
+          .then((result): ReloadOutcome => {
+            const { code, message } = (result ?? {}) as { code?: number; message?: string };
+            if (code === undefined || code === 0) {
+              // The summary line ("Reloaded 1 of 755 libraries") arrives before the response
+              const summary = captured
+                .map((line) => parseReloadOutcome(line, fullRestart))
+                .find((parsed) => parsed?.kind === 'success');
+              return summary ?? { kind: 'success' };
+            }
+            const text = message || `${label} failed with code ${String(code)}`;
+            return parseReloadOutcome(text, fullRestart) ?? { kind: 'failed', message: text };
+          })
+          .catch((error: unknown): ReloadOutcome => ({
+            kind: 'failed',
+            message: error instanceof Error ? error.message : String(error),
+          }));
+        outcome = await Promise.race([request, exited, timedOut]);
+      } else {
+        this.process.stdin.write(fullRestart ? 'R\n' : 'r\n');
+        outcome = await Promise.race([fromLog, exited, timedOut]);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      if (onExit) {
+        this.stateListeners.delete(onExit);
+      }
+      this.commandObserver = undefined;
+      this.commandInProgress = undefined;
+      // If flutter exited meanwhile, handleExit has already recorded the final status
+      if (this.isRunning()) {
+        flutterProcess.status = previousStatus;
+      }
+      this.replayDeferredChange();
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const compileErrors = captured.filter((line) => isCompileError(line)).map((line) => line.trim());
+    const result: HotReloadResult = {
+      operation,
+      success: outcome?.kind === 'success',
+      message: '',
+      durationMs,
+      compileErrors,
+      diagnostics: parseDiagnostics(captured, this.worktreePath),
+    };
+
+    if (!outcome) {
+      result.timedOut = true;
+      result.message = `${label} did not complete within ${String(Math.round(timeoutMs / 1000))} seconds`;
+    } else if (outcome.kind === 'success') {
+      result.librariesReloaded = outcome.librariesReloaded;
+      result.totalLibraries = outcome.totalLibraries;
+      result.message = `${label} completed in ${String(durationMs)}ms`;
+    } else {
+      result.message = `${label} ${outcome.kind === 'rejected' ? 'rejected' : 'failed'}: ${outcome.message}`;
+      if (outcome.kind === 'rejected') {
+        result.reloadRejection = outcome.message;
+      }
+    }
+    if (!this.isRunning()) {
+      result.exitCode = flutterProcess.exitCode;
+    }
+
+    logger.info(`Hot ${operation} finished`, {
+      success: result.success,
+      durationMs,
+      compileErrors: compileErrors.length,
+    });
+    return result;
+  }
+
+  /**
+   * Send a debug key (widget tree dump, debug paint toggle, ...) and collect the output
+   * it prints. Dumps wait for their first line, then until the output goes quiet;
+   * toggles only wait for the quiet period since they may print nothing.
+   *
+   * @throws Error if no app is running, another command is in progress, or the process
+   *   runs in machine mode (which has no keyboard input)
+   */
+  async sendDebugCommand(
+    command: FlutterDebugCommand,
+    options: FlutterDebugCommandOptions = {}
+  ): Promise<FlutterDebugCommandResult> {
+    const { timeoutMs = 10000, quietMs = 500, maxLines = 2000 } = options;
+    const spec = DEBUG_COMMANDS[command];
+
+    if (!this.process || !this.flutterProcess) {
+      throw new Error('No Flutter process running');
+    }
+    if (this.commandInProgress) {
+      throw new Error(`A ${this.commandInProgress} is already in progress`);
+    }
+    if (this.daemon) {
+      throw new Error('Debug key commands are not available in machine mode. Start flutter_run without machine to use them.');
+    }
+    if (this.flutterProcess.status !== 'running') {
+      throw new Error('Flutter app has not started yet. Wait for the app to launch before sending debug commands.');
+    }
+
+    const stdin = this.process.stdin;
+    const startedAt = Date.now();
+    const captured: string[] = [];
+    this.commandInProgress = 'debug command';
+    logger.info('Sending Flutter debug command', { pid: this.flutterProcess.pid, command, key: spec.key });
+
+    let timedOut: boolean;
+    try {
+      timedOut = await new Promise<boolean>((resolve) => {
+        let quietTimer: NodeJS.Timeout | undefined;
+        const finish = (didTimeOut: boolean): void => {
+          clearTimeout(quietTimer);
+          clearTimeout(deadline);
+          this.stateListeners.delete(onExit);
+          resolve(didTimeOut);
+        };
+        const waitForQuiet = (): void => {
+          clearTimeout(quietTimer);
+          quietTimer = setTimeout(() => {
+            finish(false);
+          }, quietMs);
+        };
+        const onExit = (): void => {
+          if (!this.isRunning()) {
+            finish(false);
+          }
+        };
+        const deadline = setTimeout(() => {
+          finish(true);
+        }, timeoutMs);
+
+        this.stateListeners.add(onExit);
+        this.commandObserver = (line) => {
+          captured.push(stripAppOutputPrefix(line));
+          waitForQuiet();
+        };
+        if (!spec.dump) {
+          waitForQuiet();
+        }
+        stdin.write(`${spec.key}\n`);
+      });
+    } finally {
+      this.commandObserver = undefined;
+      this.commandInProgress = undefined;
+      this.replayDeferredChange();
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const truncated = captured.length > maxLines;
+    const result: FlutterDebugCommandResult = {
+      command,
+      key: spec.key,
+      success: !spec.dump || captured.length > 0,
+      message: '',
+      output: captured.slice(0, maxLines).join('\n'),
+      lineCount: captured.length,
+      truncated,
+      durationMs,
+    };
+
+    if (timedOut) {
+      result.timedOut = true;
+    }
+    if (!this.isRunning()) {
+      result.success = false;
+      result.message = `Flutter exited while running ${command}`;
+    } else if (!result.success) {
+      result.message = `${spec.description}: no output within ${String(Math.round(timeoutMs / 1000))} seconds`;
+    } else if (timedOut) {
+      result.message = `${spec.description}: output was still arriving after ${String(Math.round(timeoutMs / 1000))} seconds`;
+    } else if (captured.length > 0) {
+      result.message = `${spec.description}: ${String(captured.length)} lines of output`;
+    } else {
+      result.message = `${spec.description}: sent "${spec.key}"`;
+    }
+
+    logger.info('Flutter debug command finished', { command, success: result.success, lines: captured.length });
+    return result;
+  }
+
   private handleExit(code: number | null, signal: string | null): void {
     logger.info('Flutter process exited', { code, signal });
 
@@ -193,49 +751,347 @@ export class FlutterProcessManager {
       this.flutterProcess.stoppedAt = new Date();
       this.flutterProcess.exitCode = code ?? undefined;
     }
+    this.clearVmServiceUri();
 
+    this.daemon?.close(`flutter exited with code ${String(code)}`);
+    this.daemon = undefined;
     this.process = undefined;
+
+    const attempt = this.runHistory.at(-1);
+    if (attempt) {
+      attempt.stoppedAt = new Date();
+      attempt.exitCode = code ?? undefined;
+      attempt.outcome = this.scheduleRestart(code);
+    }
+    if (!this.restartTimer) {
+      this.stopWatching();
+    }
+    this.notifyStateListeners();
   }
 
-  stop(): boolean {
-    if (!this.process) {
-      logger.warn('No Flutter process to stop');
-      return false;
+  /**
+   * Decide whether the restart policy relaunches flutter run after an exit, and
+   * schedule the relaunch if so.
+   *
+   * @returns The outcome to record for the attempt that just ended
+   */
+  private scheduleRestart(code: number | null): NonNullable<FlutterRunAttempt['outcome']> {
+    const policy = this.runOptions?.restartPolicy;
+    if (this.stopRequested) {
+      return 'stopped';
+    }
+    if (!policy || (code === 0 && policy.onlyOnFailure)) {
+      return 'exited';
     }
 
-    logger.info('Stopping Flutter process', { pid: this.process.pid });
+    // Relaunching can't fix code that does not compile
+    const output = this.logBuffer.getRecentLines(this.logBuffer.getNextIndex() - this.attemptLogIndex);
+    if (output.some((line) => isBuildError(line))) {
+      this.appendLogLine('[restart policy] Not restarting flutter run: the build failed with compile errors');
+      return 'compile-error';
+    }
 
-    this.process.stdin.write('q\n');
-    this.process.stdin.end();
+    const restarts = this.runHistory.length - 1;
+    if (restarts >= policy.maxAttempts) {
+      this.appendLogLine(
+        `[restart policy] Not restarting flutter run: all ${String(policy.maxAttempts)} restart attempts used`
+      );
+      return 'attempts-exhausted';
+    }
 
-    return true;
+    const delayMs = Math.min(policy.backoffMs * 2 ** restarts, policy.maxBackoffMs);
+    if (this.flutterProcess) {
+      this.flutterProcess.nextRestartAt = new Date(Date.now() + delayMs);
+    }
+    this.appendLogLine(
+      `[restart policy] flutter run exited with code ${String(code)}; restarting in ${String(delayMs)}ms ` +
+      `(attempt ${String(restarts + 1)} of ${String(policy.maxAttempts)})`
+    );
+    logger.info('Scheduling Flutter process restart', { code, delayMs, attempt: restarts + 1 });
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = undefined;
+      this.relaunch();
+    }, delayMs);
+    return 'restarted';
   }
 
-  hotReload(): boolean {
-    if (!this.process) {
-      logger.warn('No Flutter process for hot reload');
-      return false;
+  private relaunch(): void {
+    const flutterProcess = this.flutterProcess;
+    if (!flutterProcess || this.process) {
+      return;
     }
 
-    logger.info('Triggering hot reload', { pid: this.process.pid });
-    this.process.stdin.write('r\n');
+    const startedAt = new Date();
+    flutterProcess.status = 'starting';
+    flutterProcess.phase = 'starting';
+    flutterProcess.phaseHistory.push({ phase: 'starting', at: startedAt });
+    flutterProcess.restarts = (flutterProcess.restarts ?? 0) + 1;
+    flutterProcess.nextRestartAt = undefined;
+    flutterProcess.stoppedAt = undefined;
+    flutterProcess.exitCode = undefined;
+    flutterProcess.appId = undefined;
+
+    this.launch(startedAt);
+    this.notifyStateListeners();
+  }
 
+  /**
+   * Cancel a relaunch scheduled by the restart policy, ending the run.
+   *
+   * @returns Whether a relaunch was pending
+   */
+  cancelRestart(): boolean {
+    if (!this.restartTimer) {
+      return false;
+    }
+    clearTimeout(this.restartTimer);
+    this.restartTimer = undefined;
+    if (this.flutterProcess) {
+      this.flutterProcess.nextRestartAt = undefined;
+    }
+    const attempt = this.runHistory.at(-1);
+    if (attempt) {
+      attempt.outcome = 'stopped';
+    }
+    // Nothing runs anymore, so there is nothing to reload
+    this.stopWatching();
+    this.notifyStateListeners();
     return true;
   }
 
-  hotRestart(): boolean {
+  private startWatching(root: string, options: FlutterWatchOptions): void {
+    this.stopWatching();
+    this.watcher = new SourceWatcher({
+      root,
+      ...options,
+      onChange: (change) => this.autoReload(change),
+    });
+    this.watcher.start();
+    if (this.flutterProcess) {
+      this.flutterProcess.watching = true;
+    }
+  }
+
+  private stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.deferredChange = undefined;
+    if (this.flutterProcess?.watching) {
+      this.flutterProcess.watching = false;
+    }
+  }
+
+  /**
+   * Run the automatic reload deferred by autoReload(). It starts on the next turn of
+   * the event loop, so a hot reload falling back to a restart finishes first.
+   */
+  private replayDeferredChange(): void {
+    const change = this.deferredChange;
+    if (!change || !this.watcher) {
+      return;
+    }
+    this.deferredChange = undefined;
+    setImmediate(() => {
+      void this.autoReload(change);
+    });
+  }
+
+  /**
+   * Hot reload (or restart) after a batch of source changes and record the result where
+   * flutter_logs and flutter_status show it.
+   */
+  private async autoReload(change: SourceChange): Promise<void> {
+    const flutterProcess = this.flutterProcess;
+    const operation = change.restart ? 'restart' : 'reload';
+    const files = change.files.join(', ');
+    if (flutterProcess && this.isRunning() && (flutterProcess.status === 'hot-reloading' || this.commandInProgress)) {
+      // A reload started elsewhere may have compiled before these files were saved
+      this.deferredChange = {
+        files: [...new Set([...(this.deferredChange?.files ?? []), ...change.files])].sort(),
+        restart: (this.deferredChange?.restart ?? false) || change.restart,
+      };
+      logger.info('Deferring automatic hot reload until the current command finishes', { files });
+      return;
+    }
+    if (!flutterProcess || !this.isRunning() || flutterProcess.status !== 'running') {
+      // Still building (the build picks up the change) or already gone
+      logger.info('Skipping automatic hot reload', { files, status: flutterProcess?.status });
+      return;
+    }
+
+    this.appendLogLine(`[watch] Hot ${operation} after changes to ${files}`);
+    let record: AutoReloadRecord;
+    try {
+      const result = change.restart
+        ? await this.hotRestart()
+        : await this.hotReload({ fallbackToRestart: true });
+      record = {
+        at: new Date(),
+        files: change.files,
+        operation: result.fellBackToRestart ? 'restart' : operation,
+        success: result.success,
+        message: result.message,
+        durationMs: result.durationMs,
+      };
+    } catch (error) {
+      record = {
+        at: new Date(),
+        files: change.files,
+        operation,
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+        durationMs: 0,
+      };
+    }
+
+    this.appendLogLine(`[watch] ${record.message}`);
+    flutterProcess.autoReloads = [...(flutterProcess.autoReloads ?? []), record].slice(-MAX_AUTO_RELOADS);
+  }
+
+  /**
+   * Wait until the app is attached, the app or process ends without a relaunch by the
+   * restart policy, or the timeout passes.
+   *
+   * @param timeoutMs - Maximum time to wait
+   * @param tailLines - Number of log lines to include in the result
+   * @throws Error if flutter run was never started
+   */
+  async waitForReady(timeoutMs: number, tailLines = 30): Promise<FlutterReadyResult> {
+    const flutterProcess = this.flutterProcess;
+    if (!flutterProcess) {
+      throw new Error('No Flutter process running');
+    }
+
+    // A relaunch scheduled by the restart policy keeps the wait going
+    const isSettled = (): boolean =>
+      (!this.isRunning() && !this.restartTimer) ||
+      flutterProcess.phase === 'attached' ||
+      flutterProcess.phase === 'app-exited' ||
+      flutterProcess.phase === 'disconnected';
+
+    const timedOut = isSettled() ? false : await new Promise<boolean>((resolve) => {
+      const finish = (didTimeOut: boolean): void => {
+        clearTimeout(timer);
+        this.stateListeners.delete(listener);
+        resolve(didTimeOut);
+      };
+      const listener = (): void => {
+        if (isSettled()) {
+          finish(false);
+        }
+      };
+      const timer = setTimeout(() => {
+        finish(true);
+      }, timeoutMs);
+      this.stateListeners.add(listener);
+    });
+
+    if (!this.isRunning()) {
+      // The exit event can arrive before the last output; let it drain
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    const ready = this.isRunning() && flutterProcess.phase === 'attached';
+    const lines = this.logBuffer.getRecentLines(this.logBuffer.getTotalLines());
+    const result: FlutterReadyResult = {
+      ready,
+      status: flutterProcess.status,
+      phase: flutterProcess.phase,
+      elapsedMs: Date.now() - flutterProcess.startedAt.getTime(),
+      vmServiceUri: flutterProcess.vmServiceUri,
+      exitCode: flutterProcess.exitCode,
+      buildErrors: lines.filter((line) => isBuildError(line)).map((line) => line.trim()),
+      diagnostics: parseDiagnostics(lines, this.worktreePath),
+      logTail: lines.slice(-tailLines),
+    };
+    if (timedOut) {
+      result.timedOut = true;
+    }
+    if (!ready && !timedOut) {
+      result.errorBlock = extractErrorBlock(lines);
+    }
+    return result;
+  }
+
+  stop(): boolean {
+    this.stopRequested = true;
+    this.stopWatching();
+    if (this.cancelRestart()) {
+      logger.info('Cancelled pending Flutter process restart');
+      return true;
+    }
     if (!this.process) {
-      logger.warn('No Flutter process for hot restart');
+      logger.warn('No Flutter process to stop');
       return false;
     }
 
-    logger.info('Triggering hot restart', { pid: this.process.pid });
-    this.process.stdin.write('R\n');
+    logger.info('Stopping Flutter process', { pid: this.process.pid });
+
+    if (this.daemon) {
+      const appId = this.flutterProcess?.appId;
+      if (!appId) {
+        // Nothing launched yet that app.stop could address
+        return this.kill();
+      }
+      this.daemon
+        .request('app.stop', { appId })
+        .catch((error: unknown) => {
+          logger.warn('app.stop failed, killing Flutter process', { error: String(error) });
+          this.kill();
+        })
+        .finally(() => {
+          this.process?.stdin.end();
+        });
+      return true;
+    }
+
+    this.process.stdin.write('q\n');
+    this.process.stdin.end();
 
     return true;
   }
 
+  /**
+   * Hot reload and wait for the result.
+   *
+   * @param options.timeoutMs - Give up waiting after this long (default: 30 seconds)
+   * @param options.fallbackToRestart - Hot restart if the VM rejects the reload
+   * @throws Error if no Flutter process is running or another reload is in progress
+   */
+  async hotReload(options: HotReloadOptions = {}): Promise<HotReloadResult> {
+    const result = await this.performReload(false, options.timeoutMs ?? 30000);
+
+    if (options.fallbackToRestart && result.reloadRejection !== undefined) {
+      logger.info('Hot reload rejected, falling back to hot restart', { reason: result.reloadRejection });
+      const restart = await this.performReload(true, options.timeoutMs ?? 60000);
+      return {
+        ...restart,
+        compileErrors: [...result.compileErrors, ...restart.compileErrors],
+        diagnostics: [...result.diagnostics, ...restart.diagnostics],
+        durationMs: result.durationMs + restart.durationMs,
+        fellBackToRestart: true,
+        reloadRejection: result.reloadRejection,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Hot restart and wait for the result.
+   *
+   * @param options.timeoutMs - Give up waiting after this long (default: 60 seconds)
+   * @throws Error if no Flutter process is running or another reload is in progress
+   */
+  async hotRestart(options: Pick<HotReloadOptions, 'timeoutMs'> = {}): Promise<HotReloadResult> {
+    return this.performReload(true, options.timeoutMs ?? 60000);
+  }
+
   kill(signal: NodeJS.Signals = 'SIGTERM'): boolean {
+    this.stopRequested = true;
+    this.cancelRestart();
+    this.stopWatching();
     if (!this.process) {
       return false;
     }
@@ -244,10 +1100,36 @@ export class FlutterProcessManager {
     return this.process.kill(signal);
   }
 
+  /**
+   * Whether a flutter run process is currently alive (building or running the app).
+   */
+  isRunning(): boolean {
+    return this.process !== undefined;
+  }
+
+  /**
+   * Whether flutter is doing work right now: building and launching the app, waiting
+   * to be relaunched by the restart policy, or running a reload or debug command.
+   * An attached app that nobody interacts with is not busy.
+   */
+  isBusy(): boolean {
+    if (this.commandInProgress !== undefined || this.restartTimer !== undefined) {
+      return true;
+    }
+    return this.isRunning() && this.flutterProcess?.status !== 'running';
+  }
+
   getStatus(): FlutterProcess | undefined {
     return this.flutterProcess;
   }
 
+  /**
+   * Every launch since flutter_run, including relaunches by the restart policy.
+   */
+  getRunHistory(): FlutterRunAttempt[] {
+    return this.runHistory;
+  }
+
   getLogs(fromIndex?: number, limit?: number): {
     logs: Array<{ line: string; timestamp: Date; index: number }>;
     nextIndex: number;
@@ -277,6 +1159,9 @@ export class FlutterProcessManager {
     logger.debug('Cleaning up Flutter process manager');
 
     this.logSubscribers.clear();
+    this.stopRequested = true;
+    this.cancelRestart();
+    this.stopWatching();
 
     // Capture process reference to avoid race condition
     const currentProcess = this.process;
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { isCompileError, parseReloadOutcome } from './reload.js';
+
+describe('parseReloadOutcome', () => {
+  it('should parse reload summaries', () => {
+    expect(
+      parseReloadOutcome('Reloaded 3 of 755 libraries in 417ms (compile: 40 ms, reload: 180 ms).', false)
+    ).toEqual({ kind: 'success', librariesReloaded: 3, totalLibraries: 755 });
+    expect(parseReloadOutcome('Reloaded 1 library in 90ms.', false)).toEqual({
+      kind: 'success',
+      librariesReloaded: 1,
+      totalLibraries: undefined,
+    });
+  });
+
+  it('should only accept restart summaries during a restart', () => {
+    expect(parseReloadOutcome('Restarted application in 1,160ms.', true)).toEqual({ kind: 'success' });
+    expect(parseReloadOutcome('Reloaded 3 of 755 libraries in 417ms.', true)).toBeUndefined();
+  });
+
+  it('should distinguish rejected reloads from failures', () => {
+    expect(parseReloadOutcome('Hot reload was rejected:', false)).toEqual({
+      kind: 'rejected',
+      message: 'Hot reload was rejected:',
+    });
+    expect(parseReloadOutcome('Try again after fixing the above error(s).', false)).toEqual({
+      kind: 'failed',
+      message: 'Try again after fixing the above error(s).',
+    });
+  });
+
+  it('should ignore unrelated output', () => {
+    expect(parseReloadOutcome('Performing hot reload...', false)).toBeUndefined();
+  });
+});
+
+describe('isCompileError', () => {
+  it('should match located Dart errors only', () => {
+    expect(isCompileError("lib/main.dart:12:3: Error: Expected ';' after this.")).toBe(true);
+    expect(isCompileError('Error: something went wrong')).toBe(false);
+  });
+});
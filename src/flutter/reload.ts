@@ -0,0 +1,57 @@
+/**
+ * Recognize the outcome of a hot reload or hot restart in flutter run output.
+ * Lines look the same in keystroke and --machine mode once the daemon client has
+ * turned protocol events into log text.
+ */
+
+export type ReloadOutcome =
+  | { kind: 'success'; librariesReloaded?: number; totalLibraries?: number }
+  | { kind: 'failed'; message: string }
+  /** The VM could not apply the changes; a hot restart is needed */
+  | { kind: 'rejected'; message: string };
+
+// "Reloaded 1 of 755 libraries in 417ms (compile: 40 ms, reload: 180 ms, reassemble: 150 ms)."
+const RELOADED_PATTERN = /Reloaded (\d+)(?: of (\d+))? librar(?:y|ies)/;
+// "Restarted application in 1,160ms."
+const RESTARTED_PATTERN = /Restarted application in/;
+const REJECTED_PATTERN = /Hot reload was rejected|Try performing a hot restart instead/i;
+const FAILED_PATTERN = /Try again after fixing the above error|Hot (?:reload|restart) failed|Hot restart was rejected/i;
+// "lib/main.dart:12:3: Error: Expected ';' after this."
+const COMPILE_ERROR_PATTERN = /^\S+\.dart:\d+:\d+: Error: /;
+
+/**
+ * Check a log line for the end of a hot reload or restart.
+ *
+ * @param line - One line of flutter output
+ * @param fullRestart - Whether a hot restart (rather than a reload) is in progress
+ * @returns The outcome, or undefined if the line does not end the operation
+ */
+export function parseReloadOutcome(line: string, fullRestart: boolean): ReloadOutcome | undefined {
+  if (!fullRestart && REJECTED_PATTERN.test(line)) {
+    return { kind: 'rejected', message: line.trim() };
+  }
+  if (FAILED_PATTERN.test(line)) {
+    return { kind: 'failed', message: line.trim() };
+  }
+
+  if (fullRestart) {
+    return RESTARTED_PATTERN.test(line) ? { kind: 'success' } : undefined;
+  }
+
+  const match = RELOADED_PATTERN.exec(line);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    kind: 'success',
+    librariesReloaded: parseInt(match[1], 10),
+    totalLibraries: match[2] ? parseInt(match[2], 10) : undefined,
+  };
+}
+
+/**
+ * Whether a log line is a Dart compile error with a file location.
+ */
+export function isCompileError(line: string): boolean {
+  return COMPILE_ERROR_PATTERN.test(line.trim());
+}
@@ -333,6 +333,13 @@ export class FlutterTestManager {
     }
   }
 
+  /**
+   * Whether a flutter test process is currently running.
+   */
+  isRunning(): boolean {
+    return this.process !== undefined;
+  }
+
   getAllReferences(): number[] {
     return Array.from(this.testStates.keys());
   }
@@ -5,12 +5,160 @@ export type FlutterProcessStatus =
   | 'stopped'
   | 'failed';
 
+/**
+ * Where flutter run is in building, launching and running the app, derived from its output.
+ */
+export type FlutterProcessPhase =
+  | 'starting'
+  | 'resolving-dependencies'
+  | 'pod-install'
+  | 'xcode-build'
+  | 'installing'
+  | 'launching'
+  | 'attached'
+  | 'app-exited'
+  | 'disconnected';
+
+export interface FlutterPhaseTransition {
+  phase: FlutterProcessPhase;
+  at: Date;
+  /** Output line that announced the phase */
+  line?: string;
+}
+
 export interface FlutterProcess {
   pid: number;
   status: FlutterProcessStatus;
+  phase: FlutterProcessPhase;
+  /** Every phase the process has entered, oldest first */
+  phaseHistory: FlutterPhaseTransition[];
   startedAt: Date;
   stoppedAt?: Date;
   exitCode?: number;
+  /** Whether the process is controlled through the `flutter run --machine` protocol */
+  machine?: boolean;
+  /** Started with flutter attach to an already running app */
+  attach?: boolean;
+  /** App ID reported by the app.start event (machine mode only) */
+  appId?: string;
+  /** HTTP URI of the Dart VM service, set while the app is attached */
+  vmServiceUri?: string;
+  /** WebSocket endpoint of the Dart VM service, for VM service protocol clients */
+  vmServiceWsUri?: string;
+  /** Flutter DevTools URL connected to the app's VM service */
+  devToolsUri?: string;
+  /** Relaunches made by the restart policy so far */
+  restarts?: number;
+  /** When the restart policy will relaunch the exited process */
+  nextRestartAt?: Date;
+  /** Source files are watched and changes hot reloaded */
+  watching?: boolean;
+  /** Most recent automatic reloads, oldest first */
+  autoReloads?: AutoReloadRecord[];
+}
+
+export interface HotReloadOptions {
+  /** Give up waiting after this many milliseconds (default: 30000 for reload, 60000 for restart) */
+  timeoutMs?: number;
+  /** Perform a hot restart if the reload is rejected because changes cannot be applied */
+  fallbackToRestart?: boolean;
+}
+
+export interface HotReloadResult {
+  operation: 'reload' | 'restart';
+  success: boolean;
+  message: string;
+  durationMs: number;
+  librariesReloaded?: number;
+  totalLibraries?: number;
+  /** Compile errors printed while the operation ran, e.g. "lib/main.dart:12:3: Error: ..." */
+  compileErrors: string[];
+  /** Compile errors and warnings printed while the operation ran */
+  diagnostics: BuildDiagnostic[];
+  /** No outcome was seen before the timeout */
+  timedOut?: boolean;
+  /** Exit code of flutter when it exited before the operation completed */
+  exitCode?: number;
+  /** The reload was rejected and a hot restart was performed instead */
+  fellBackToRestart?: boolean;
+  /** Why the reload was rejected, when falling back to a restart */
+  reloadRejection?: string;
+}
+
+/**
+ * Debug keys of flutter run that can be sent with flutter_debug_command.
+ */
+export type FlutterDebugCommand =
+  | 'widget-tree'
+  | 'render-tree'
+  | 'layer-tree'
+  | 'semantics-traversal-order'
+  | 'semantics-hit-test-order'
+  | 'debug-paint'
+  | 'performance-overlay'
+  | 'platform'
+  | 'widget-inspector';
+
+export interface FlutterDebugCommandOptions {
+  /** Maximum time to wait for the command's output */
+  timeoutMs?: number;
+  /** The output is complete once no new line arrived for this long */
+  quietMs?: number;
+  /** Maximum number of output lines to return */
+  maxLines?: number;
+}
+
+export interface FlutterDebugCommandResult {
+  command: FlutterDebugCommand;
+  /** Key sent to flutter run */
+  key: string;
+  success: boolean;
+  message: string;
+  /** Output printed in response, without the "flutter: " prefix */
+  output: string;
+  lineCount: number;
+  /** Output was longer than maxLines and has been cut */
+  truncated: boolean;
+  durationMs: number;
+  /** Output was still missing or still arriving when the timeout passed */
+  timedOut?: boolean;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * An error or warning found in build output.
+ */
+export interface BuildDiagnostic {
+  severity: DiagnosticSeverity;
+  /** Tool that reported it */
+  source: 'dart' | 'xcode' | 'cocoapods' | 'gradle';
+  /** Path relative to the worktree when inside it, otherwise as reported */
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface FlutterReadyResult {
+  /** Whether the app is attached and running */
+  ready: boolean;
+  status: FlutterProcessStatus;
+  phase: FlutterProcessPhase;
+  /** Milliseconds since flutter run was started */
+  elapsedMs: number;
+  /** The app was still starting when the wait timed out */
+  timedOut?: boolean;
+  vmServiceUri?: string;
+  exitCode?: number;
+  /** Dart compile errors and Xcode errors from the startup output */
+  buildErrors: string[];
+  /** Errors and warnings from the startup output */
+  diagnostics: BuildDiagnostic[];
+  /** The output explaining a failure, from the first error line on */
+  errorBlock?: string;
+  /** Last lines of the startup output */
+  logTail: string[];
 }
 
 export interface LogEntry {
@@ -25,6 +173,68 @@ export interface FlutterRunOptions {
   flavor?: string;
   target?: string;
   additionalArgs?: string[];
+  /** Run with --machine and control the app through its JSON-RPC protocol */
+  machine?: boolean;
+  /** Relaunch flutter run when it exits unexpectedly */
+  restartPolicy?: FlutterRestartPolicy;
+  /** Hot reload automatically when source files change */
+  watch?: FlutterWatchOptions;
+  /** Run flutter attach to connect to an app that is already running instead of launching one */
+  attach?: FlutterAttachOptions;
+}
+
+export interface FlutterAttachOptions {
+  /** Bundle id of the app to attach to, when several Flutter apps run on the device */
+  appId?: string;
+  /** VM service URL of a specific app instance (passed as --debug-url) */
+  vmServiceUri?: string;
+}
+
+export interface FlutterWatchOptions {
+  /** Globs relative to the worktree, e.g. "lib/**\/*.dart" */
+  include: string[];
+  /** Globs whose changes trigger a hot restart instead of a reload */
+  restartOn: string[];
+  /** Wait this long after the last change before reloading */
+  debounceMs: number;
+}
+
+/**
+ * A hot reload or restart triggered by the file watcher.
+ */
+export interface AutoReloadRecord {
+  at: Date;
+  /** Changed files that triggered it, relative to the worktree */
+  files: string[];
+  operation: 'reload' | 'restart';
+  success: boolean;
+  message: string;
+  durationMs: number;
+}
+
+export interface FlutterRestartPolicy {
+  /** Relaunches allowed after the first launch */
+  maxAttempts: number;
+  /** Delay before the first relaunch; doubles with every further attempt */
+  backoffMs: number;
+  /** Upper bound for the delay between relaunches */
+  maxBackoffMs: number;
+  /** Only relaunch after a non-zero exit code (or a signal), not after a clean exit */
+  onlyOnFailure: boolean;
+}
+
+/**
+ * One launch of flutter run, including relaunches made by the restart policy.
+ */
+export interface FlutterRunAttempt {
+  /** 1 for the first launch */
+  attempt: number;
+  pid: number;
+  startedAt: Date;
+  stoppedAt?: Date;
+  exitCode?: number;
+  /** What happened after the attempt ended */
+  outcome?: 'restarted' | 'stopped' | 'exited' | 'compile-error' | 'attempts-exhausted';
 }
 
 export interface FlutterLogsQuery {
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseDevToolsUri, parseVmServiceUri, toVmServiceHttpUri, toVmServiceWsUri } from './vm-service-uri.js';
+
+describe('parseVmServiceUri', () => {
+  it('should parse VM service announcements', () => {
+    expect(
+      parseVmServiceUri('A Dart VM Service on iPhone 16 Pro is available at: http://127.0.0.1:55123/AbCd=/')
+    ).toBe('http://127.0.0.1:55123/AbCd=/');
+    expect(parseVmServiceUri('A Dart VM Service is available at: ws://127.0.0.1:55123/AbCd=/ws')).toBe(
+      'ws://127.0.0.1:55123/AbCd=/ws'
+    );
+  });
+
+  it('should not mistake the DevTools line for the VM service', () => {
+    expect(
+      parseVmServiceUri(
+        'The Flutter DevTools debugger and profiler on iPhone 16 Pro is available at: http://127.0.0.1:9101?uri=http://127.0.0.1:55123/AbCd=/'
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe('parseDevToolsUri', () => {
+  it('should parse DevTools announcements', () => {
+    expect(
+      parseDevToolsUri(
+        'The Flutter DevTools debugger and profiler on iPhone 16 Pro is available at: http://127.0.0.1:9101?uri=http://127.0.0.1:55123/AbCd=/'
+      )
+    ).toBe('http://127.0.0.1:9101?uri=http://127.0.0.1:55123/AbCd=/');
+    expect(parseDevToolsUri('Flutter run key commands.')).toBeUndefined();
+  });
+});
+
+describe('VM service URI conversion', () => {
+  it('should convert HTTP URIs to WebSocket endpoints', () => {
+    expect(toVmServiceWsUri('http://127.0.0.1:55123/AbCd=/')).toBe('ws://127.0.0.1:55123/AbCd=/ws');
+    expect(toVmServiceWsUri('http://127.0.0.1:55123/AbCd=')).toBe('ws://127.0.0.1:55123/AbCd=/ws');
+    expect(toVmServiceWsUri('ws://127.0.0.1:55123/AbCd=/ws')).toBe('ws://127.0.0.1:55123/AbCd=/ws');
+  });
+
+  it('should convert WebSocket endpoints to HTTP URIs', () => {
+    expect(toVmServiceHttpUri('ws://127.0.0.1:55123/AbCd=/ws')).toBe('http://127.0.0.1:55123/AbCd=/');
+    expect(toVmServiceHttpUri('http://127.0.0.1:55123/AbCd=/')).toBe('http://127.0.0.1:55123/AbCd=/');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Recognize the Dart VM service and DevTools URLs that flutter run announces once the
+ * app is attached, and convert between the HTTP and WebSocket forms of the VM service URI.
+ */
+
+// "A Dart VM Service on iPhone 16 Pro is available at: http://127.0.0.1:55123/AbCd=/"
+const VM_SERVICE_PATTERN = /(?:Dart VM Service|Observatory debugger and profiler).* is available at: (\S+)/;
+// "The Flutter DevTools debugger and profiler on iPhone 16 Pro is available at: http://127.0.0.1:9101?uri=..."
+const DEVTOOLS_PATTERN = /Flutter DevTools debugger and profiler.* is available at: (\S+)/;
+
+/**
+ * Find the VM service URI a line of flutter output announces.
+ *
+ * @returns The URI as printed (HTTP or WebSocket), or undefined
+ */
+export function parseVmServiceUri(line: string): string | undefined {
+  return VM_SERVICE_PATTERN.exec(line)?.[1];
+}
+
+/**
+ * Find the DevTools URL a line of flutter output announces.
+ *
+ * @returns The DevTools URL, or undefined
+ */
+export function parseDevToolsUri(line: string): string | undefined {
+  return DEVTOOLS_PATTERN.exec(line)?.[1];
+}
+
+/**
+ * Convert a VM service URI to the WebSocket endpoint clients connect to, e.g.
+ * http://127.0.0.1:55123/AbCd=/ becomes ws://127.0.0.1:55123/AbCd=/ws.
+ */
+export function toVmServiceWsUri(uri: string): string {
+  if (/^wss?:\/\//.test(uri)) {
+    return uri;
+  }
+  const base = uri.endsWith('/') ? uri : `${uri}/`;
+  return `${base.replace(/^http/, 'ws')}ws`;
+}
+
+/**
+ * Convert a VM service WebSocket endpoint back to its HTTP URI, e.g.
+ * ws://127.0.0.1:55123/AbCd=/ws becomes http://127.0.0.1:55123/AbCd=/.
+ */
+export function toVmServiceHttpUri(uri: string): string {
+  if (!/^wss?:\/\//.test(uri)) {
+    return uri;
+  }
+  return uri.replace(/^ws/, 'http').replace(/\/ws$/, '/');
+}
@@ -0,0 +1,132 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { connectVmService, VmServiceClient } from './vm-service.js';
+
+describe('VmServiceClient', () => {
+  let sent: Array<{ id: string; method: string; params: Record<string, unknown> }>;
+  let closed: boolean;
+  let client: VmServiceClient;
+
+  beforeEach(() => {
+    sent = [];
+    closed = false;
+    client = new VmServiceClient({
+      send: (data) => sent.push(JSON.parse(data) as (typeof sent)[number]),
+      close: () => {
+        closed = true;
+      },
+    });
+  });
+
+  it('should resolve requests with the matching response', async () => {
+    const response = client.request('getVersion');
+
+    expect(sent[0]).toMatchObject({ jsonrpc: '2.0', id: '1', method: 'getVersion', params: {} });
+    client.receive('{"jsonrpc":"2.0","method":"streamNotify","params":{}}');
+    client.receive('{"jsonrpc":"2.0","id":"1","result":{"type":"Version","major":4}}');
+
+    await expect(response).resolves.toEqual({ type: 'Version', major: 4 });
+  });
+
+  it('should reject requests with the error code and details', async () => {
+    const response = client.request('evaluate', { targetId: 'libraries/1', expression: 'x +' });
+    client.receive(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: '1',
+        error: { code: 113, message: 'Expression compilation error', data: { details: "Expected an identifier" } },
+      })
+    );
+
+    await expect(response).rejects.toThrow(
+      'evaluate failed: Expression compilation error (code 113): Expected an identifier'
+    );
+  });
+
+  it('should call extensions on the main isolate', async () => {
+    const response = client.callExtension('ext.flutter.debugPaint', { enabled: 'true' });
+
+    expect(sent[0].method).toBe('getVM');
+    client.receive(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: '1',
+        result: {
+          isolates: [
+            { id: 'isolates/1', name: 'vm-service', isSystemIsolate: true },
+            { id: 'isolates/2', name: 'main' },
+          ],
+        },
+      })
+    );
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(sent[1]).toMatchObject({
+      method: 'ext.flutter.debugPaint',
+      params: { enabled: 'true', isolateId: 'isolates/2' },
+    });
+    client.receive('{"jsonrpc":"2.0","id":"2","result":{"enabled":"true"}}');
+    await expect(response).resolves.toEqual({ enabled: 'true' });
+  });
+
+  it('should fail without an app isolate', async () => {
+    const response = client.getMainIsolateId();
+    client.receive('{"jsonrpc":"2.0","id":"1","result":{"isolates":[]}}');
+
+    await expect(response).rejects.toThrow(/no app isolate/);
+  });
+
+  it('should reject pending requests on close and refuse new ones', async () => {
+    const response = client.request('getVM');
+    client.close('the app is gone');
+
+    expect(closed).toBe(true);
+    expect(client.isClosed()).toBe(true);
+    await expect(response).rejects.toThrow(/closed before getVM completed: the app is gone/);
+    await expect(client.request('getVM')).rejects.toThrow(/connection closed/);
+  });
+
+  it('should time out requests without a response', async () => {
+    jest.useFakeTimers();
+    try {
+      const response = client.request('getVM', {}, 1000);
+      jest.advanceTimersByTime(1000);
+
+      await expect(response).rejects.toThrow('Dart VM service request getVM timed out after 1000ms');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('connectVmService', () => {
+  it('should exchange JSON-RPC messages over a WebSocket', async () => {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    server.on('connection', (socket) => {
+      socket.on('message', (data: Buffer) => {
+        const { id } = JSON.parse(data.toString()) as { id: string };
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id, result: { type: 'Version', major: 4 } }));
+      });
+    });
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const client = await connectVmService(`ws://127.0.0.1:${String(port)}/AbCd=/ws`);
+
+      await expect(client.request('getVersion')).resolves.toEqual({ type: 'Version', major: 4 });
+      client.close('done');
+    } finally {
+      server.clients.forEach((socket) => socket.terminate());
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('should fail when nothing is listening', async () => {
+    await expect(connectVmService('ws://127.0.0.1:1/AbCd=/ws', 2000)).rejects.toThrow(
+      /Could not connect to the Dart VM service at ws:\/\/127.0.0.1:1\/AbCd=\/ws/
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import WebSocket from 'ws';
+import { logger } from '../utils/logger.js';
+
+export interface VmServiceClientOptions {
+  /** Sends a raw JSON-RPC message over the connection */
+  send: (data: string) => void;
+  /** Closes the underlying connection */
+  close: () => void;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface VmServiceMessage {
+  id?: unknown;
+  method?: unknown;
+  result?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Isolate reference as returned by getVM.
+ */
+export interface IsolateRef {
+  id: string;
+  name: string;
+  isSystemIsolate?: boolean;
+}
+
+function describeError(error: unknown): string {
+  if (typeof error !== 'object' || error === null) {
+    return String(error);
+  }
+  const { code, message, data } = error as { code?: unknown; message?: unknown; data?: unknown };
+  const details =
+    typeof data === 'object' && data !== null && 'details' in data
+      ? String((data as { details: unknown }).details)
+      : undefined;
+  const text = typeof message === 'string' ? message : JSON.stringify(error);
+  const withCode = typeof code === 'number' ? `${text} (code ${String(code)})` : text;
+  return details ? `${withCode}: ${details}` : withCode;
+}
+
+/**
+ * JSON-RPC 2.0 client for the Dart VM service protocol.
+ *
+ * Hand it every message received on the connection; it routes responses to pending
+ * requests and ignores stream notifications.
+ */
+export class VmServiceClient {
+  private nextId = 1;
+  private pending: Map<string, PendingRequest> = new Map();
+  private closedReason?: string;
+
+  constructor(private readonly options: VmServiceClientOptions) {}
+
+  /**
+   * Process one message received from the VM service.
+   */
+  receive(data: string): void {
+    let message: VmServiceMessage;
+    try {
+      message = JSON.parse(data) as VmServiceMessage;
+    } catch {
+      logger.debug('Ignoring malformed VM service message');
+      return;
+    }
+
+    if (typeof message.id !== 'string') {
+      // Stream notifications (streamNotify) are not used
+      return;
+    }
+    const request = this.pending.get(message.id);
+    if (!request) {
+      logger.debug('Ignoring VM service response for unknown request', { id: message.id });
+      return;
+    }
+    this.pending.delete(message.id);
+    clearTimeout(request.timer);
+
+    if (message.error !== undefined) {
+      request.reject(new Error(`${request.method} failed: ${describeError(message.error)}`));
+    } else {
+      request.resolve(message.result);
+    }
+  }
+
+  /**
+   * Send a request and wait for its response.
+   *
+   * @param method - VM service method or service extension, e.g. "getVM" or "ext.flutter.debugPaint"
+   * @param params - Method parameters
+   * @param timeoutMs - Reject if no response arrives within this time
+   * @throws Error if the VM service returns an error, the request times out, or the connection closes
+   */
+  request(method: string, params: Record<string, unknown> = {}, timeoutMs = 10000): Promise<unknown> {
+    if (this.closedReason) {
+      return Promise.reject(new Error(`Dart VM service connection closed: ${this.closedReason}`));
+    }
+
+    const id = String(this.nextId++);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Dart VM service request ${method} timed out after ${String(timeoutMs)}ms`));
+      }, timeoutMs);
+      this.pending.set(id, { method, resolve, reject, timer });
+
+      logger.debug('Sending VM service request', { id, method });
+      this.options.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+    });
+  }
+
+  /**
+   * Find the isolate running the app's main(). Flutter names it "main"; otherwise the
+   * first non-system isolate is used. Not cached, since a hot restart replaces it.
+   *
+   * @throws Error if the VM has no app isolate
+   */
+  async getMainIsolateId(timeoutMs?: number): Promise<string> {
+    const vm = (await this.request('getVM', {}, timeoutMs)) as { isolates?: IsolateRef[] } | undefined;
+    const isolates = (vm?.isolates ?? []).filter((isolate) => !isolate.isSystemIsolate);
+    const main = isolates.find((isolate) => isolate.name === 'main') ?? isolates.at(0);
+    if (!main) {
+      throw new Error('The Dart VM has no app isolate. Wait for the app to finish starting.');
+    }
+    return main.id;
+  }
+
+  /**
+   * Call a service extension registered by the app (e.g. "ext.flutter.inspector.show")
+   * on the main isolate. Extension parameters are passed as strings.
+   */
+  async callExtension(method: string, params: Record<string, string> = {}, timeoutMs?: number): Promise<unknown> {
+    const isolateId = await this.getMainIsolateId(timeoutMs);
+    return this.request(method, { ...params, isolateId }, timeoutMs);
+  }
+
+  isClosed(): boolean {
+    return this.closedReason !== undefined;
+  }
+
+  /**
+   * Close the connection and reject all pending requests.
+   */
+  close(reason: string): void {
+    if (this.closedReason) {
+      return;
+    }
+    this.closedReason = reason;
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new Error(`Dart VM service connection closed before ${request.method} completed: ${reason}`));
+      this.pending.delete(id);
+    }
+    this.options.close();
+  }
+}
+
+/**
+ * Open a WebSocket connection to a Dart VM service.
+ *
+ * @param wsUri - WebSocket endpoint, e.g. ws://127.0.0.1:55123/AbCd=/ws
+ * @throws Error if the connection can't be established within the timeout
+ */
+export function connectVmService(wsUri: string, timeoutMs = 10000): Promise<VmServiceClient> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(wsUri, { handshakeTimeout: timeoutMs });
+    const client = new VmServiceClient({
+      send: (data) => {
+        socket.send(data);
+      },
+      close: () => {
+        socket.close();
+      },
+    });
+
+    socket.on('open', () => {
+      logger.info('Connected to Dart VM service', { wsUri });
+      resolve(client);
+    });
+    socket.on('message', (data: WebSocket.RawData) => {
+      // With the default binaryType, every message arrives as a single Buffer
+      client.receive((data as Buffer).toString('utf8'));
+    });
+    socket.on('error', (error) => {
+      reject(new Error(`Could not connect to the Dart VM service at ${wsUri}: ${error.message}`));
+      client.close(error.message);
+    });
+    socket.on('close', () => {
+      client.close('connection closed');
+    });
+  });
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SourceChange, SourceWatcher, watchRoots } from './watcher.js';
+
+describe('watchRoots', () => {
+  it('should watch the literal directory before the first wildcard', () => {
+    expect(watchRoots(['lib/**/*.dart', 'lib/main.dart', 'pubspec.yaml', 'assets/*.json'])).toEqual([
+      { dir: 'lib', recursive: true },
+      { dir: '', recursive: false },
+      { dir: 'assets', recursive: false },
+    ]);
+  });
+
+  it('should reject patterns outside the project', () => {
+    expect(() => watchRoots(['../other/lib/*.dart'])).toThrow(/stay inside it/);
+    expect(() => watchRoots(['/etc/*'])).toThrow(/stay inside it/);
+  });
+});
+
+describe('SourceWatcher', () => {
+  let root: string;
+  let watcher: SourceWatcher | undefined;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'watcher-test-'));
+    mkdirSync(join(root, 'lib', 'src'), { recursive: true });
+    writeFileSync(join(root, 'pubspec.yaml'), 'name: app\n');
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  /** Start a watcher and resolve with the first batch it reports */
+  function watchOnce(include = ['lib/**/*.dart']): Promise<SourceChange> {
+    return new Promise((resolve) => {
+      watcher = new SourceWatcher({
+        root,
+        include,
+        restartOn: ['lib/main.dart', 'pubspec.yaml'],
+        debounceMs: 50,
+        onChange: (change) => {
+          resolve(change);
+          return Promise.resolve();
+        },
+      });
+      watcher.start();
+    });
+  }
+
+  it('should batch changed Dart files and ignore other files', async () => {
+    const change = watchOnce();
+    writeFileSync(join(root, 'lib', 'src', 'home.dart'), 'class Home {}\n');
+    writeFileSync(join(root, 'lib', 'app.dart'), 'class App {}\n');
+    writeFileSync(join(root, 'lib', 'notes.txt'), 'ignored\n');
+
+    expect(await change).toEqual({ files: ['lib/app.dart', 'lib/src/home.dart'], restart: false });
+  });
+
+  it('should ask for a restart when a restartOn file changes', async () => {
+    const change = watchOnce();
+    writeFileSync(join(root, 'pubspec.yaml'), 'name: app\nversion: 1.0.1\n');
+
+    expect(await change).toEqual({ files: ['pubspec.yaml'], restart: true });
+  });
+
+  it('should anchor patterns with a slash at the project root', async () => {
+    mkdirSync(join(root, 'example', 'lib'), { recursive: true });
+    const change = watchOnce(['**/*.dart']);
+    writeFileSync(join(root, 'example', 'lib', 'main.dart'), 'void main() {}\n');
+
+    expect(await change).toEqual({ files: ['example/lib/main.dart'], restart: false });
+  });
+});
@@ -0,0 +1,169 @@
+import { existsSync, FSWatcher, watch } from 'fs';
+import { isAbsolute, join, relative, resolve } from 'path';
+import { matchesGlob } from '../utils/glob.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Watches Dart sources in a worktree and reports batches of changed files, so edits
+ * can be hot reloaded without the agent asking for it.
+ */
+
+export interface SourceChange {
+  /** Changed files relative to the watched root, sorted */
+  files: string[];
+  /** At least one file matches a restartOn pattern, so a hot reload is not enough */
+  restart: boolean;
+}
+
+export interface SourceWatcherOptions {
+  /** Worktree the patterns are relative to */
+  root: string;
+  /** Files to watch, e.g. "lib/**\/*.dart" */
+  include: string[];
+  /** Files whose changes need a hot restart, e.g. "lib/main.dart" or "pubspec.yaml" */
+  restartOn: string[];
+  /** Wait this long after the last change before reporting the batch */
+  debounceMs: number;
+  /** Called with each batch; the next batch waits until the returned promise settles */
+  onChange: (change: SourceChange) => Promise<void>;
+}
+
+export interface WatchRoot {
+  /** Directory relative to the worktree ("" for the worktree itself) */
+  dir: string;
+  recursive: boolean;
+}
+
+/**
+ * Directories to watch for a set of patterns: the literal part of each pattern before
+ * its first wildcard, watched recursively when the pattern continues below it.
+ *
+ * @throws Error if a pattern is absolute or leaves the worktree
+ */
+export function watchRoots(patterns: string[]): WatchRoot[] {
+  const roots = new Map<string, boolean>();
+  for (const pattern of patterns) {
+    const segments = pattern.split('/').filter((segment) => segment.length > 0 && segment !== '.');
+    if (isAbsolute(pattern) || segments.includes('..')) {
+      throw new Error(`Watch pattern must be relative to the project and stay inside it: ${pattern}`);
+    }
+
+    const firstWildcard = segments.findIndex((segment) => /[*?]/.test(segment));
+    let dir: string;
+    let recursive: boolean;
+    if (firstWildcard === -1) {
+      // A literal file: watch its directory
+      dir = segments.slice(0, -1).join('/');
+      recursive = false;
+    } else {
+      dir = segments.slice(0, firstWildcard).join('/');
+      recursive = segments.length - firstWildcard > 1 || segments[firstWildcard].includes('**');
+    }
+    roots.set(dir, (roots.get(dir) ?? false) || recursive);
+  }
+  return [...roots].map(([dir, recursive]) => ({ dir, recursive }));
+}
+
+function matchesAny(file: string, patterns: string[]): boolean {
+  // matchesGlob expects an absolute path. Patterns with a "/" are anchored at the
+  // worktree, so "lib/main.dart" does not also match "example/lib/main.dart".
+  return patterns.some((pattern) => {
+    const relativePattern = pattern.replace(/^(\.\/)+/, '');
+    return matchesGlob(`/${file}`, relativePattern.includes('/') ? `/${relativePattern}` : relativePattern);
+  });
+}
+
+export class SourceWatcher {
+  private watchers: FSWatcher[] = [];
+  private pending = new Set<string>();
+  private debounceTimer?: NodeJS.Timeout;
+  /** A batch is being handled; changes meanwhile form the next batch */
+  private busy = false;
+  private closed = false;
+
+  constructor(private readonly options: SourceWatcherOptions) {}
+
+  /**
+   * Start watching. Directories that don't exist are skipped. If watching fails,
+   * the watchers opened so far are closed again.
+   *
+   * @throws Error if a pattern leaves the worktree or a directory cannot be watched
+   */
+  start(): void {
+    try {
+      this.openWatchers();
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  private openWatchers(): void {
+    const { root, include, restartOn } = this.options;
+    for (const { dir, recursive } of watchRoots([...include, ...restartOn])) {
+      const path = join(root, dir);
+      if (!existsSync(path)) {
+        logger.warn('Not watching missing directory', { path });
+        continue;
+      }
+
+      const watcher = watch(path, { recursive }, (_event, filename) => {
+        if (filename) {
+          this.record(relative(root, resolve(path, filename)));
+        }
+      });
+      watcher.on('error', (error) => {
+        logger.warn('File watcher failed', { path, error: error.message });
+      });
+      this.watchers.push(watcher);
+      logger.info('Watching for source changes', { path, recursive });
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.debounceTimer);
+    this.watchers.forEach((watcher) => {
+      watcher.close();
+    });
+    this.watchers = [];
+  }
+
+  private record(file: string): void {
+    const { include, restartOn } = this.options;
+    if (this.closed || !(matchesAny(file, include) || matchesAny(file, restartOn))) {
+      return;
+    }
+    this.pending.add(file);
+    this.schedule();
+  }
+
+  private schedule(): void {
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      void this.flush();
+    }, this.options.debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.busy || this.closed || this.pending.size === 0) {
+      return;
+    }
+    const files = [...this.pending].sort();
+    this.pending.clear();
+    this.busy = true;
+    try {
+      const restart = files.some((file) => matchesAny(file, this.options.restartOn));
+      await this.options.onChange({ files, restart });
+    } catch (error) {
+      logger.error('Error handling source change', { error: String(error) });
+    } finally {
+      this.busy = false;
+    }
+    // Changes made while the batch was handled
+    if (this.pending.size > 0) {
+      this.schedule();
+    }
+  }
+}
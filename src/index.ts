@@ -2,23 +2,51 @@
 import express from 'express';
 import { createMCPServer } from './server.js';
 import { setupTransport } from './transport.js';
+import { setupVmServiceProxy } from './vm-service-proxy.js';
 import { sessionManager } from './session/manager.js';
 import { logger } from './utils/logger.js';
 import { setServerConfig } from './config.js';
+import { parsePoolSpec, PoolRefillMode, PoolSize } from './simulator/pool.js';
+import { ClientDisconnectPolicy } from './session/types.js';
 import { tmpdir } from 'os';
 import { join } from 'path';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
 
 interface CliArgs {
   port: number;
   host: string;
   help: boolean;
   version: boolean;
-  allowOnly: string;
+  allowOnly: string[];
+  deny: string[];
   basePath?: string;
   maxSessions: number;
   sessionTimeout?: number;
   preBuildScript?: string;
   postBuildScript?: string;
+  stateFile?: string;
+  reaper: boolean;
+  reaperGrace: number;
+  reaperInterval: number;
+  pool?: PoolSize[];
+  poolMaxIdle?: number;
+  poolRefill: PoolRefillMode;
+  disconnectPolicy: ClientDisconnectPolicy;
+  clientTimeout: number;
+}
+
+function parsePoolArg(spec: string, source: string): PoolSize[] {
+  try {
+    return parsePoolSpec(spec);
+  } catch (error) {
+    console.error(`Error: ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter((item) => item.length > 0);
 }
 
 function parseArgs(): CliArgs {
@@ -27,7 +55,10 @@ function parseArgs(): CliArgs {
   let host = process.env.HOST || '127.0.0.1';
   let help = false;
   let version = false;
-  let allowOnly = process.env.ALLOW_ONLY || '/Users/';
+  let allowOnly = splitList(process.env.ALLOW_ONLY || '/Users/');
+  let deny = splitList(process.env.DENY || '');
+  const allowOnlyArgs: string[] = [];
+  const denyArgs: string[] = [];
   let basePath: string | undefined = process.env.BASE_PATH;
   let maxSessions = parseInt(process.env.MAX_SESSIONS || '10', 10);
   let sessionTimeout: number | undefined = process.env.SESSION_TIMEOUT
@@ -35,6 +66,19 @@ function parseArgs(): CliArgs {
     : undefined;
   let preBuildScript: string | undefined = process.env.PRE_BUILD_SCRIPT;
   let postBuildScript: string | undefined = process.env.POST_BUILD_SCRIPT;
+  let stateFile: string | undefined = process.env.STATE_FILE;
+  let reaper = true;
+  let reaperGrace = parseInt(process.env.REAPER_GRACE || '10', 10);
+  let reaperInterval = parseInt(process.env.REAPER_INTERVAL || '15', 10);
+  let pool: PoolSize[] | undefined = process.env.POOL
+    ? parsePoolArg(process.env.POOL, 'POOL')
+    : undefined;
+  let poolMaxIdle: number | undefined = process.env.POOL_MAX_IDLE
+    ? parseInt(process.env.POOL_MAX_IDLE, 10)
+    : undefined;
+  let poolRefill: PoolRefillMode = process.env.POOL_REFILL === 'none' ? 'none' : 'eager';
+  let disconnectPolicy: ClientDisconnectPolicy = process.env.DISCONNECT_POLICY === 'end' ? 'end' : 'release';
+  let clientTimeout = parseInt(process.env.CLIENT_TIMEOUT || '60', 10);
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -63,7 +107,14 @@ function parseArgs(): CliArgs {
         console.error('Error: --allow-only requires a path value');
         process.exit(1);
       }
-      allowOnly = pathValue;
+      allowOnlyArgs.push(...splitList(pathValue));
+    } else if (arg === '--deny') {
+      const patternValue = args[++i];
+      if (!patternValue) {
+        console.error('Error: --deny requires a glob pattern');
+        process.exit(1);
+      }
+      denyArgs.push(...splitList(patternValue));
     } else if (arg === '--base-path') {
       const pathValue = args[++i];
       if (!pathValue) {
@@ -107,6 +158,82 @@ function parseArgs(): CliArgs {
         process.exit(1);
       }
       postBuildScript = scriptValue;
+    } else if (arg === '--state-file') {
+      const fileValue = args[++i];
+      if (!fileValue) {
+        console.error('Error: --state-file requires a path value');
+        process.exit(1);
+      }
+      stateFile = fileValue;
+    } else if (arg === '--no-state-file') {
+      stateFile = undefined;
+    } else if (arg === '--reaper-grace') {
+      const graceValue = args[++i];
+      if (!graceValue || isNaN(parseInt(graceValue, 10))) {
+        console.error('Error: --reaper-grace requires a numeric value (minutes)');
+        process.exit(1);
+      }
+      reaperGrace = parseInt(graceValue, 10);
+      if (reaperGrace < 0) {
+        console.error('Error: --reaper-grace must not be negative');
+        process.exit(1);
+      }
+    } else if (arg === '--reaper-interval') {
+      const intervalValue = args[++i];
+      if (!intervalValue || isNaN(parseInt(intervalValue, 10))) {
+        console.error('Error: --reaper-interval requires a numeric value (minutes)');
+        process.exit(1);
+      }
+      reaperInterval = parseInt(intervalValue, 10);
+      if (reaperInterval < 0) {
+        console.error('Error: --reaper-interval must not be negative');
+        process.exit(1);
+      }
+    } else if (arg === '--no-reaper') {
+      reaper = false;
+    } else if (arg === '--pool') {
+      const poolValue = args[++i];
+      if (!poolValue) {
+        console.error('Error: --pool requires a value (e.g., "iPhone 16 Pro=2")');
+        process.exit(1);
+      }
+      pool = parsePoolArg(poolValue, '--pool');
+    } else if (arg === '--pool-max-idle') {
+      const maxIdleValue = args[++i];
+      if (!maxIdleValue || isNaN(parseInt(maxIdleValue, 10))) {
+        console.error('Error: --pool-max-idle requires a numeric value');
+        process.exit(1);
+      }
+      poolMaxIdle = parseInt(maxIdleValue, 10);
+      if (poolMaxIdle < 0) {
+        console.error('Error: --pool-max-idle must not be negative');
+        process.exit(1);
+      }
+    } else if (arg === '--pool-refill') {
+      const refillValue = args[++i];
+      if (refillValue !== 'eager' && refillValue !== 'none') {
+        console.error('Error: --pool-refill must be "eager" or "none"');
+        process.exit(1);
+      }
+      poolRefill = refillValue;
+    } else if (arg === '--disconnect-policy') {
+      const policyValue = args[++i];
+      if (policyValue !== 'end' && policyValue !== 'release') {
+        console.error('Error: --disconnect-policy must be "end" or "release"');
+        process.exit(1);
+      }
+      disconnectPolicy = policyValue;
+    } else if (arg === '--client-timeout') {
+      const timeoutValue = args[++i];
+      if (!timeoutValue || isNaN(parseInt(timeoutValue, 10))) {
+        console.error('Error: --client-timeout requires a numeric value (minutes)');
+        process.exit(1);
+      }
+      clientTimeout = parseInt(timeoutValue, 10);
+      if (clientTimeout < 0) {
+        console.error('Error: --client-timeout must not be negative');
+        process.exit(1);
+      }
     } else {
       console.error(`Error: Unknown argument: ${arg}`);
       console.error('Use --help to see available options');
@@ -114,7 +241,40 @@ function parseArgs(): CliArgs {
     }
   }
 
-  return { port, host, help, version, allowOnly, basePath, maxSessions, sessionTimeout, preBuildScript, postBuildScript };
+  // Repeated flags accumulate and replace the environment values
+  if (allowOnlyArgs.length > 0) {
+    allowOnly = allowOnlyArgs;
+  }
+  if (denyArgs.length > 0) {
+    deny = denyArgs;
+  }
+  if (allowOnly.length === 0) {
+    console.error('Error: --allow-only requires at least one path');
+    process.exit(1);
+  }
+
+  return {
+    port,
+    host,
+    help,
+    version,
+    allowOnly,
+    deny,
+    basePath,
+    maxSessions,
+    sessionTimeout,
+    preBuildScript,
+    postBuildScript,
+    stateFile: stateFile || undefined,
+    reaper,
+    reaperGrace,
+    reaperInterval,
+    pool,
+    poolMaxIdle,
+    poolRefill,
+    disconnectPolicy,
+    clientTimeout,
+  };
 }
 
 function showHelp(): void {
@@ -127,24 +287,50 @@ USAGE:
 OPTIONS:
   -p, --port <port>              Port to listen on (default: 3000)
       --host <host>              Host address to bind to (default: 127.0.0.1)
-      --allow-only <path>        Only allow Flutter projects under this path (default: /Users/)
+      --allow-only <path>        Only allow Flutter projects under this path; repeat or comma-separate
+                                 for several roots (default: /Users/)
+      --deny <pattern>           Deny paths matching this glob even under an allowed root; repeat or
+                                 comma-separate for several patterns (e.g. ".ssh", "/Users/*/Library")
       --base-path <path>         Base path for relative worktree paths (optional)
       --max-sessions <number>    Maximum number of concurrent sessions (default: 10)
       --session-timeout <mins>   Terminate inactive sessions after N minutes (optional)
       --pre-build-script <cmd>   Command to run before flutter build/run (e.g., "git pull")
       --post-build-script <cmd>  Command to run after flutter build/run completes
+      --state-file <path>        Persist sessions to this file and restore them on restart
+                                 (default: off, sessions end on shutdown)
+      --no-state-file            Disable session persistence, overriding STATE_FILE
+      --reaper-grace <mins>      Only reap orphaned MCP simulators older than N minutes (default: 10)
+      --reaper-interval <mins>   Reap orphaned simulators every N minutes, 0 for startup only (default: 15)
+      --no-reaper                Never reap orphaned simulators automatically (use when several
+                                 servers share a host, as each reaps the others' simulators)
+      --pool <spec>              Keep pre-booted simulators ready, e.g. "iPhone 16 Pro=2,iPad Air@iOS 17.5=1"
+      --pool-max-idle <number>   Maximum idle pool simulators per device type (default: pool size)
+      --pool-refill <mode>       "eager" replaces checked-out simulators right away, "none" only
+                                 reuses simulators returned by ended sessions (default: eager)
+      --disconnect-policy <p>    When an MCP client disconnects or times out, "end" its sessions or
+                                 "release" them for any client to pick up (default: release)
+      --client-timeout <mins>    Disconnect MCP clients idle for N minutes, 0 to disable (default: 60)
   -h, --help                     Show this help message
   -v, --version                  Show version information
 
 ENVIRONMENT VARIABLES:
   PORT                      Port to listen on (overridden by --port)
   HOST                      Host address to bind to (overridden by --host)
-  ALLOW_ONLY                Path prefix for allowed projects (overridden by --allow-only)
+  ALLOW_ONLY                Comma-separated allowed project roots (overridden by --allow-only)
+  DENY                      Comma-separated denied path globs (overridden by --deny)
   BASE_PATH                 Base path for relative worktree paths (overridden by --base-path)
   MAX_SESSIONS              Maximum concurrent sessions (overridden by --max-sessions)
   SESSION_TIMEOUT           Terminate inactive sessions after N minutes (overridden by --session-timeout)
   PRE_BUILD_SCRIPT          Command to run before builds (overridden by --pre-build-script)
   POST_BUILD_SCRIPT         Command to run after builds (overridden by --post-build-script)
+  STATE_FILE                Session state file, enables persistence (overridden by --state-file)
+  REAPER_GRACE              Orphaned simulator grace age in minutes (overridden by --reaper-grace)
+  REAPER_INTERVAL           Orphaned simulator reap interval in minutes (overridden by --reaper-interval)
+  POOL                      Warm simulator pool spec (overridden by --pool)
+  POOL_MAX_IDLE             Maximum idle pool simulators per device type (overridden by --pool-max-idle)
+  POOL_REFILL               Pool refill mode, eager or none (overridden by --pool-refill)
+  DISCONNECT_POLICY         Client disconnect policy, end or release (overridden by --disconnect-policy)
+  CLIENT_TIMEOUT            MCP client idle timeout in minutes (overridden by --client-timeout)
   LOG_LEVEL                 Logging level (debug, info, warn, error)
 
 EXAMPLES:
@@ -152,15 +338,20 @@ EXAMPLES:
   docker-flutter-ios-simulator-mcp --port 8080
   docker-flutter-ios-simulator-mcp --port 3000 --host localhost
   docker-flutter-ios-simulator-mcp --allow-only /Users/alice/projects
+  docker-flutter-ios-simulator-mcp --allow-only /Users/alice/work --allow-only /Volumes/src --deny .ssh
   docker-flutter-ios-simulator-mcp --base-path /Users/alice/projects
   docker-flutter-ios-simulator-mcp --max-sessions 20
   docker-flutter-ios-simulator-mcp --session-timeout 30
+  docker-flutter-ios-simulator-mcp --pool "iPhone 16 Pro=2" --pool-max-idle 3
+  docker-flutter-ios-simulator-mcp --disconnect-policy end --client-timeout 30
   docker-flutter-ios-simulator-mcp --pre-build-script "git pull" --post-build-script "echo Done"
   PORT=8080 docker-flutter-ios-simulator-mcp
 
 SECURITY:
   By default, only Flutter projects under /Users/ are allowed to prevent
   malicious MCP clients from accessing system directories like /etc/, /usr/, etc.
+  Paths are checked after resolving symlinks, and the same rules apply to file
+  arguments such as flutter_run's target and flutter_test's testTarget.
 
 For more information, visit: https://github.com/zafnz/docker-flutter-ios-simulator-mcp
 `);
@@ -171,7 +362,28 @@ function showVersion(): void {
 }
 
 async function main(): Promise<void> {
-  const { port, host, help, version, allowOnly, basePath, maxSessions, sessionTimeout, preBuildScript, postBuildScript } = parseArgs();
+  const {
+    port,
+    host,
+    help,
+    version,
+    allowOnly,
+    deny,
+    basePath,
+    maxSessions,
+    sessionTimeout,
+    preBuildScript,
+    postBuildScript,
+    stateFile,
+    reaper,
+    reaperGrace,
+    reaperInterval,
+    pool,
+    poolMaxIdle,
+    poolRefill,
+    disconnectPolicy,
+    clientTimeout,
+  } = parseArgs();
 
   if (help) {
     showHelp();
@@ -183,13 +395,35 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  // Configure session manager with allowed path prefix and session limit
+  // Configure session manager with allowed project roots and session limit
   sessionManager.configure(allowOnly, maxSessions, preBuildScript, postBuildScript, basePath, sessionTimeout);
+  sessionManager.configureDenyPatterns(deny);
+  sessionManager.configurePersistence(stateFile);
+  sessionManager.configureDisconnectPolicy(disconnectPolicy);
+
+  // Re-adopt sessions (and their simulators) left behind by a previous server instance
+  await sessionManager.restoreSessions();
+
+  // Pre-boot simulators after restore so pool simulators are never mistaken for orphans
+  if (pool) {
+    sessionManager.configurePool({ sizes: pool, maxIdle: poolMaxIdle, refill: poolRefill });
+  }
+
+  // Clean up simulators orphaned by crashed server instances, now and periodically
+  if (reaper) {
+    sessionManager.configureReaper(reaperGrace, reaperInterval);
+    sessionManager.reapOrphanedSimulators().catch((error: unknown) => {
+      logger.error('Error reaping orphaned simulators at startup', { error: String(error) });
+    });
+  }
 
   const PORT = port;
   const HOST = host;
   const app = express();
 
+  // VM service proxy forwards raw request bodies, so it goes before the body parsers
+  const vmServiceProxy = setupVmServiceProxy(app);
+
   // Middleware
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
@@ -207,10 +441,16 @@ async function main(): Promise<void> {
   // Set server configuration for screenshot URLs
   setServerConfig(HOST, PORT);
 
-  const mcpServer = createMCPServer();
-  const transport = setupTransport(app);
-
-  await mcpServer.connect(transport);
+  // Each MCP client gets its own transport and server; sessions are bound to the client
+  const transports = setupTransport(app, {
+    createServer: createMCPServer,
+    clientTimeoutMinutes: clientTimeout,
+    onClientClosed: (clientId) => {
+      sessionManager.handleClientDisconnected(clientId).catch((error: unknown) => {
+        logger.error('Error handling MCP client disconnect', { clientId, error: String(error) });
+      });
+    },
+  });
 
   // Screenshot endpoint - serve screenshot files
   app.get('/screenshot/:filename', (req, res) => {
@@ -248,6 +488,12 @@ async function main(): Promise<void> {
     });
   });
 
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (!vmServiceProxy.handleUpgrade(req, socket, head)) {
+      socket.destroy();
+    }
+  });
+
   server.on('error', (error: NodeJS.ErrnoException) => {
     if (error.code === 'EADDRINUSE') {
       logger.error(`Port ${String(PORT)} is already in use`);
@@ -268,8 +514,9 @@ async function main(): Promise<void> {
     }, 10000);
 
     try {
+      await transports.close();
+      vmServiceProxy.close();
       await sessionManager.cleanup();
-      await transport.close();
 
       server.close(() => {
         clearTimeout(forceExitTimeout);
@@ -1,22 +1,78 @@
 import { v4 as uuidv4 } from 'uuid';
+import { randomBytes } from 'crypto';
 import { existsSync, statSync } from 'fs';
-import { resolve, join, normalize, relative } from 'path';
+import { resolve, join, normalize, relative, sep } from 'path';
 import { sessionState } from './state.js';
-import { CreateSessionParams, Session, SessionInfo } from './types.js';
+import { fromSnapshot, loadSessionSnapshots, saveSessionSnapshots, toSnapshot } from './persistence.js';
+import {
+  ClientDisconnectPolicy,
+  CreateSessionParams,
+  QueuedSessionInfo,
+  Session,
+  SessionFilter,
+  SessionInfo,
+  SessionRunOptions,
+} from './types.js';
 import { logger } from '../utils/logger.js';
-import { createSimulator, bootSimulator, shutdownSimulator, deleteSimulator } from '../simulator/simctl.js';
+import {
+  createSimulator,
+  bootSimulator,
+  shutdownSimulator,
+  deleteSimulator,
+  getSimulatorStatus,
+  findDevice,
+  resolveRuntime,
+} from '../simulator/simctl.js';
+import { PathPolicy } from './path-policy.js';
+import { reapOrphanedSimulators, ReapReport } from '../simulator/reaper.js';
+import { SimulatorPool, SimulatorPoolConfig, PoolStatus } from '../simulator/pool.js';
+
+interface QueuedSessionRequest {
+  ownerId?: string;
+  label?: string;
+  worktreePath: string;
+  priority: number;
+  queuedAt: Date;
+  expiresAt: Date;
+  timer: NodeJS.Timeout;
+  grant: () => void;
+  cancel: (error: Error) => void;
+}
+
+interface ValidatedSessionParams {
+  /** Realpath of the project directory */
+  projectPath: string;
+  runtime?: string;
+}
 
 export class SessionManager {
-  private allowedPathPrefix: string;
+  private pathPolicy: PathPolicy;
   private basePath?: string;
   private maxSessions: number;
   private sessionTimeoutMinutes: number;
+  private sessionTimeoutEnabled = false;
   private timeoutCheckIntervalId?: NodeJS.Timeout;
   private preBuildScript?: string;
   private postBuildScript?: string;
+  private stateFile?: string;
+  private reaperGraceMinutes = 10;
+  private reaperIntervalId?: NodeJS.Timeout;
+  private pool?: SimulatorPool;
+  /** Simulators created for a session that is still waiting for them to boot */
+  private startingSimulators: Set<string> = new Set();
+  private disconnectPolicy: ClientDisconnectPolicy = 'release';
+  private waitQueue: QueuedSessionRequest[] = [];
+  /** Slots handed to queued requests that are still setting up their session */
+  private reservedSlots = 0;
+  private sessionEndSubscribers: Set<(sessionId: string) => void> = new Set();
+  private ownerChangeSubscribers: Set<(sessionId: string) => void> = new Set();
 
-  constructor(allowedPathPrefix = '/Users/', maxSessions = 10, sessionTimeoutMinutes = 30) {
-    this.allowedPathPrefix = allowedPathPrefix;
+  constructor(
+    allowedRoots: string | string[] = '/Users/',
+    maxSessions = 10,
+    sessionTimeoutMinutes = 30
+  ) {
+    this.pathPolicy = new PathPolicy(typeof allowedRoots === 'string' ? [allowedRoots] : allowedRoots);
     this.maxSessions = maxSessions;
     this.sessionTimeoutMinutes = sessionTimeoutMinutes;
   }
@@ -24,7 +80,7 @@ export class SessionManager {
   /**
    * Configure the session manager with security settings.
    *
-   * @param allowedPathPrefix - Absolute path prefix for allowed Flutter projects (e.g., "/Users/")
+   * @param allowedRoots - Absolute root directory (or directories) for allowed Flutter projects (e.g., "/Users/")
    * @param maxSessions - Optional maximum number of concurrent sessions
    * @param preBuildScript - Optional command to run before flutter build/run
    * @param postBuildScript - Optional command to run after flutter build/run
@@ -35,16 +91,20 @@ export class SessionManager {
    * sessionManager.configure('/Users/alice/projects', 20, 'git pull', 'echo Done', '/Users/alice/projects', 30);
    */
   configure(
-    allowedPathPrefix: string,
+    allowedRoots: string | string[],
     maxSessions?: number,
     preBuildScript?: string,
     postBuildScript?: string,
     basePath?: string,
     sessionTimeoutMinutes?: number
   ): void {
-    this.allowedPathPrefix = allowedPathPrefix;
+    this.pathPolicy = new PathPolicy(
+      typeof allowedRoots === 'string' ? [allowedRoots] : allowedRoots,
+      this.pathPolicy.getDenyPatterns()
+    );
     if (maxSessions !== undefined) {
       this.maxSessions = maxSessions;
+      this.drainWaitQueue();
     }
     this.preBuildScript = preBuildScript;
     this.postBuildScript = postBuildScript;
@@ -53,11 +113,12 @@ export class SessionManager {
     }
     if (sessionTimeoutMinutes !== undefined) {
       this.sessionTimeoutMinutes = sessionTimeoutMinutes;
+      this.sessionTimeoutEnabled = true;
       // Only start timeout monitoring if explicitly configured
       this.startTimeoutMonitoring();
     }
     logger.info('SessionManager configured', {
-      allowedPathPrefix,
+      allowedRoots: this.pathPolicy.getAllowedRoots(),
       basePath: basePath || 'none',
       maxSessions: this.maxSessions,
       sessionTimeout: `${String(this.sessionTimeoutMinutes)} minutes`,
@@ -66,6 +127,313 @@ export class SessionManager {
     });
   }
 
+  /**
+   * Configure glob patterns for paths that are denied even inside an allowed root.
+   *
+   * @param denyPatterns - Glob patterns (e.g. ".ssh", "*.keystore", "secrets/prod")
+   */
+  configureDenyPatterns(denyPatterns: string[]): void {
+    this.pathPolicy = new PathPolicy(this.pathPolicy.getAllowedRoots(), denyPatterns);
+    logger.info('Path deny patterns configured', { denyPatterns });
+  }
+
+  /**
+   * Enable session persistence to a state file.
+   * Sessions are snapshotted whenever they are created, ended or change simulator, run
+   * options, timeout or owner, and can be re-adopted with restoreSessions().
+   *
+   * @param stateFile - Path to the JSON state file, or undefined to disable persistence
+   */
+  configurePersistence(stateFile: string | undefined): void {
+    this.stateFile = stateFile ? resolve(stateFile) : undefined;
+    logger.info('Session persistence configured', { stateFile: this.stateFile || 'disabled' });
+  }
+
+  /**
+   * Restore sessions from the state file and re-attach to their simulators.
+   *
+   * Sessions whose simulator still exists are restored as-is (booting the simulator
+   * if it was shut down). Sessions whose simulator is gone are restored in a degraded
+   * state: the simulator UDID is cleared and a new simulator will be created on the
+   * next start_simulator or flutter_run.
+   *
+   * @returns Number of sessions restored and how many of them are degraded
+   */
+  async restoreSessions(): Promise<{ restored: number; degraded: number }> {
+    if (!this.stateFile) {
+      return { restored: 0, degraded: 0 };
+    }
+
+    let snapshots;
+    try {
+      snapshots = loadSessionSnapshots(this.stateFile);
+    } catch (error) {
+      logger.error('Failed to load session state, starting with no sessions', {
+        stateFile: this.stateFile,
+        error: String(error),
+      });
+      return { restored: 0, degraded: 0 };
+    }
+
+    let restored = 0;
+    let degraded = 0;
+
+    for (const snapshot of snapshots) {
+      if (sessionState.has(snapshot.id)) {
+        continue;
+      }
+
+      const session = fromSnapshot(snapshot);
+      // Server downtime should not count towards the inactivity timeout
+      session.lastActivityAt = new Date();
+
+      if (session.simulatorUdid) {
+        try {
+          const status = await getSimulatorStatus(session.simulatorUdid);
+          if (status !== 'Booted') {
+            await bootSimulator(session.simulatorUdid);
+          }
+          logger.debug('Re-attached to simulator', {
+            sessionId: session.id,
+            simulatorUdid: session.simulatorUdid,
+          });
+        } catch (error) {
+          session.degradedReason =
+            `Simulator ${session.simulatorUdid} could not be re-attached after restart: ` +
+            `${error instanceof Error ? error.message : String(error)}. ` +
+            'A new simulator will be created on the next start_simulator or flutter_run.';
+          session.simulatorUdid = undefined;
+          session.attachedSimulator = undefined;
+          logger.warn('Restored session is degraded', {
+            sessionId: session.id,
+            reason: session.degradedReason,
+          });
+        }
+      }
+
+      // Includes sessions that were already degraded before this restart
+      if (session.degradedReason) {
+        degraded++;
+      }
+      sessionState.set(session.id, session);
+      restored++;
+    }
+
+    this.persistSessions();
+
+    // Per-session timeouts need monitoring even without a server-wide --session-timeout
+    const hasSessionTimeout = sessionState.keys()
+      .some((id) => (sessionState.get(id)?.timeoutMinutes ?? 0) > 0);
+    if (hasSessionTimeout && !this.timeoutCheckIntervalId) {
+      this.startTimeoutMonitoring();
+    }
+
+    logger.info('Sessions restored', { restored, degraded, stateFile: this.stateFile });
+
+    return { restored, degraded };
+  }
+
+  /**
+   * Configure what happens to a client's sessions when its MCP session ends.
+   *
+   * @param policy - "end" to end the sessions, "release" to keep them running unowned
+   */
+  configureDisconnectPolicy(policy: ClientDisconnectPolicy): void {
+    this.disconnectPolicy = policy;
+    logger.info('Client disconnect policy configured', { policy });
+  }
+
+  /**
+   * Apply the disconnect policy to the sessions owned by an MCP client and cancel
+   * its queued session requests. Called when the client's MCP session is deleted or times out.
+   *
+   * @param clientId - MCP session ID of the client that went away
+   */
+  async handleClientDisconnected(clientId: string): Promise<void> {
+    // Nobody is left to receive a session for the client's queued requests
+    const abandoned = this.waitQueue.filter((request) => request.ownerId === clientId);
+    if (abandoned.length > 0) {
+      this.waitQueue = this.waitQueue.filter((request) => request.ownerId !== clientId);
+      for (const request of abandoned) {
+        clearTimeout(request.timer);
+        request.cancel(new Error('MCP client disconnected; queued session request cancelled'));
+      }
+    }
+
+    const owned = this.getAllSessionIds().filter((id) => sessionState.get(id)?.ownerId === clientId);
+    if (owned.length === 0) {
+      return;
+    }
+
+    logger.info('Applying client disconnect policy', {
+      clientId,
+      policy: this.disconnectPolicy,
+      sessions: owned.length,
+    });
+
+    for (const sessionId of owned) {
+      if (this.disconnectPolicy === 'end') {
+        try {
+          await this.endSession(sessionId);
+        } catch (error) {
+          logger.error('Failed to end session of disconnected client', {
+            sessionId,
+            error: String(error),
+          });
+        }
+      } else {
+        const session = sessionState.get(sessionId);
+        if (session) {
+          session.ownerId = undefined;
+          this.revokeVmServiceProxyToken(session);
+        }
+      }
+    }
+
+    this.persistSessions();
+  }
+
+  /**
+   * Whether an MCP client may use a session. Sessions without an owner (restored
+   * after a restart or released by a disconnected client) are available to every client.
+   *
+   * @param sessionId - Session ID to check
+   * @param clientId - MCP session ID of the calling client, if known
+   */
+  canAccessSession(sessionId: string, clientId?: string): boolean {
+    const ownerId = sessionState.get(sessionId)?.ownerId;
+    return !ownerId || !clientId || ownerId === clientId;
+  }
+
+  /**
+   * Ensure an MCP client may use a session.
+   *
+   * @throws {Error} If the session belongs to a different client
+   */
+  assertSessionAccess(sessionId: string, clientId?: string): void {
+    if (!this.canAccessSession(sessionId, clientId)) {
+      throw new Error(
+        `Access denied: Session ${sessionId} belongs to a different MCP client. ` +
+        'Use session_list to see your sessions, or session_start to create one.'
+      );
+    }
+  }
+
+  /**
+   * Configure the orphaned simulator reaper.
+   *
+   * @param graceMinutes - Minimum age before an unowned MCP simulator is reaped
+   * @param intervalMinutes - How often to reap in the background (0 disables periodic reaping)
+   */
+  configureReaper(graceMinutes: number, intervalMinutes: number): void {
+    this.reaperGraceMinutes = graceMinutes;
+
+    if (this.reaperIntervalId) {
+      clearInterval(this.reaperIntervalId);
+      this.reaperIntervalId = undefined;
+    }
+
+    logger.info('Orphaned simulator reaper configured', {
+      graceMinutes,
+      interval: intervalMinutes > 0 ? `${String(intervalMinutes)} minutes` : 'disabled',
+    });
+
+    if (intervalMinutes > 0) {
+      this.reaperIntervalId = setInterval(() => {
+        this.reapOrphanedSimulators().catch((error: unknown) => {
+          logger.error('Error reaping orphaned simulators', { error: String(error) });
+        });
+      }, intervalMinutes * 60000);
+    }
+  }
+
+  /**
+   * Configure a pool of pre-booted simulators that sessions check out instantly.
+   * Warming happens in the background; sessions fall back to creating a simulator
+   * while the pool is empty.
+   *
+   * @param config - Pool sizes per device type, max idle simulators and refill mode
+   */
+  configurePool(config: SimulatorPoolConfig): void {
+    this.pool = new SimulatorPool(config);
+
+    logger.info('Simulator pool configured', {
+      sizes: config.sizes,
+      maxIdle: config.maxIdle ?? 'pool size',
+      refill: config.refill,
+    });
+
+    this.pool.warm().catch((error: unknown) => {
+      logger.error('Failed to warm simulator pool', { error: String(error) });
+    });
+  }
+
+  /**
+   * Get the current state of the simulator pool.
+   *
+   * @returns Pool status per device type, or undefined if no pool is configured
+   */
+  getPoolStatus(): PoolStatus[] | undefined {
+    return this.pool?.getStatus();
+  }
+
+  /**
+   * Shut down and delete simulators created by this server that no live session owns,
+   * e.g. left behind by a crashed server process.
+   *
+   * @param dryRun - Only report what would be reaped
+   * @param graceMinutes - Override the configured grace age for this run
+   * @returns Report of orphaned simulators and what was reaped
+   */
+  async reapOrphanedSimulators(dryRun = false, graceMinutes?: number): Promise<ReapReport> {
+    return reapOrphanedSimulators(this.getOwnedSimulatorUdids(), {
+      graceMinutes: graceMinutes ?? this.reaperGraceMinutes,
+      dryRun,
+    });
+  }
+
+  /**
+   * UDIDs of all simulators currently in use by sessions, still booting for one,
+   * or held by the pool.
+   *
+   * Only this server's simulators are known; MCP simulators belonging to another
+   * server instance on the same host look orphaned once past the grace age.
+   */
+  private getOwnedSimulatorUdids(): Set<string> {
+    const owned = new Set<string>(this.startingSimulators);
+    for (const id of sessionState.keys()) {
+      const udid = sessionState.get(id)?.simulatorUdid;
+      if (udid) {
+        owned.add(udid);
+      }
+    }
+    this.pool?.getOwnedUdids().forEach((udid) => owned.add(udid));
+    return owned;
+  }
+
+  /**
+   * Write the current sessions to the state file, if persistence is enabled.
+   * Failures are logged rather than thrown so they never break a tool call.
+   */
+  private persistSessions(): void {
+    if (!this.stateFile) {
+      return;
+    }
+
+    try {
+      const snapshots = sessionState.keys()
+        .map((id) => sessionState.get(id))
+        .filter((session): session is Session => session !== undefined)
+        .map(toSnapshot);
+      saveSessionSnapshots(this.stateFile, snapshots);
+    } catch (error) {
+      logger.warn('Failed to persist session state', {
+        stateFile: this.stateFile,
+        error: String(error),
+      });
+    }
+  }
+
   /**
    * Resolves a worktree path to an absolute path, applying basePath if configured.
    * Protects against path traversal attacks.
@@ -108,20 +476,28 @@ export class SessionManager {
   /**
    * Create a new development session with an iOS Simulator.
    *
-   * Creates a fresh iOS Simulator, boots it, and associates it with the Flutter project directory.
+   * Associates the Flutter project directory with a new session. The simulator is created lazily,
+   * unless attachTo names an existing simulator, which is then booted if needed and used as-is.
    * Validates that the project path is within allowed directories and contains a valid Flutter project.
    *
    * @param params - Session creation parameters
    * @param params.worktreePath - Path to Flutter project directory (relative to basePath if configured, or absolute)
    * @param params.deviceType - iOS device type to simulate (default: "iPhone 16 Pro")
+   * @param params.runtime - iOS runtime for the simulator (default: simctl's default runtime)
+   * @param params.attachTo - UDID or name of an existing simulator to attach to instead of creating one
+   * @param params.timeoutMinutes - Inactivity timeout for this session (0 never expires)
+   * @param params.waitSeconds - Wait up to this long for a free slot instead of failing at the limit
+   * @param params.priority - Queue priority while waiting (higher first, FIFO within a priority)
    *
    * @returns Session information including unique ID and simulator UDID
    *
-   * @throws {Error} If session limit is reached
+   * @throws {Error} If session limit is reached (after waiting `waitSeconds`, if given)
    * @throws {Error} If path traversal is detected
    * @throws {Error} If path is outside allowed prefix
    * @throws {Error} If project directory doesn't exist or isn't valid
-   * @throws {Error} If simulator creation or boot fails
+   * @throws {Error} If the runtime is unknown or unavailable
+   * @throws {Error} If the simulator to attach to does not exist or is used by another session
+   * @throws {Error} If booting the attached simulator fails
    *
    * @example
    * // With basePath set to /Users/alice/projects:
@@ -129,41 +505,56 @@ export class SessionManager {
    *   worktreePath: '/my-flutter-app',  // Resolves to /Users/alice/projects/my-flutter-app
    *   deviceType: 'iPhone 16 Pro'
    * });
-   * // Returns: { id: 'uuid...', worktreePath: '...', simulatorUdid: '...', deviceType: '...' }
+   * // Returns: { id: 'uuid...', worktreePath: '...', deviceType: '...', createdAt: '...' }
    */
-  createSession(params: CreateSessionParams): SessionInfo {
-    const { worktreePath, deviceType = 'iPhone 16 Pro' } = params;
+  async createSession(params: CreateSessionParams): Promise<SessionInfo> {
+    logger.info('Creating session', {
+      worktreePath: params.worktreePath,
+      deviceType: params.deviceType ?? 'iPhone 16 Pro',
+      runtime: params.runtime,
+      attachTo: params.attachTo,
+      basePath: this.basePath,
+    });
 
-    logger.info('Creating session', { worktreePath, deviceType, basePath: this.basePath });
+    // Reject invalid requests before they take a place in the wait queue
+    const validated = await this.validateSessionParams(params);
 
-    // Check session limit
-    if (sessionState.size() >= this.maxSessions) {
-      throw new Error(
-        `Maximum number of sessions (${String(this.maxSessions)}) reached. ` +
-        `End an existing session before creating a new one. ` +
-        `Active sessions: ${String(sessionState.size())}`
-      );
+    // Check session limit, queueing for a slot if the caller is willing to wait
+    const reserved = await this.acquireSessionSlot(params);
+    try {
+      return await this.initializeSession(params, validated, reserved);
+    } finally {
+      if (reserved) {
+        this.reservedSlots--;
+        this.drainWaitQueue();
+      }
     }
+  }
+
+  /**
+   * Check the project path and runtime of a session request.
+   *
+   * @returns The realpath of the project and the resolved runtime name
+   */
+  private async validateSessionParams(params: CreateSessionParams): Promise<ValidatedSessionParams> {
+    const { worktreePath, attachTo } = params;
 
     // Resolve path (with basePath if configured) and protect against path traversal
     const resolvedPath = this.resolveWorktreePath(worktreePath);
 
-    // Security: Validate path is within allowed prefix
-    if (!resolvedPath.startsWith(this.allowedPathPrefix)) {
-      throw new Error(
-        `Access denied: Project path must be under ${this.allowedPathPrefix}. ` +
-        `Provided path: ${worktreePath}, Resolved path: ${resolvedPath}`
-      );
-    }
+    // Security: Validate the realpath is within an allowed root and not denied.
+    // The realpath is what gets used from here on, so a symlink swapped later
+    // cannot move the session outside the allowed roots.
+    const projectPath = this.pathPolicy.check(resolvedPath, 'Project path', worktreePath);
 
-    if (!existsSync(resolvedPath)) {
+    if (!existsSync(projectPath)) {
       throw new Error(
         `Flutter project directory does not exist: ${resolvedPath}. ` +
         'Ensure the path is correct and accessible.'
       );
     }
 
-    const stats = statSync(resolvedPath);
+    const stats = statSync(projectPath);
     if (!stats.isDirectory()) {
       throw new Error(
         `Path is not a directory: ${resolvedPath}. ` +
@@ -172,7 +563,7 @@ export class SessionManager {
     }
 
     // Security: Validate it's a Flutter project by checking for pubspec.yaml
-    const pubspecPath = join(resolvedPath, 'pubspec.yaml');
+    const pubspecPath = join(projectPath, 'pubspec.yaml');
     if (!existsSync(pubspecPath)) {
       throw new Error(
         `Not a valid Flutter project (missing pubspec.yaml): ${resolvedPath}. ` +
@@ -180,29 +571,220 @@ export class SessionManager {
       );
     }
 
+    if (attachTo && params.runtime) {
+      throw new Error(
+        'Cannot combine attachTo with runtime: an attached simulator keeps its own runtime. ' +
+        'Omit runtime, or omit attachTo to create a new simulator.'
+      );
+    }
+
+    // Resolve early so an unknown runtime fails here rather than on the first flutter_run
+    const runtime = params.runtime ? (await resolveRuntime(params.runtime)).name : undefined;
+
+    return { projectPath, runtime };
+  }
+
+  private async initializeSession(
+    params: CreateSessionParams,
+    validated: ValidatedSessionParams,
+    reserved: boolean
+  ): Promise<SessionInfo> {
+    const { attachTo, ownerId, label, metadata, timeoutMinutes } = params;
+    const { projectPath, runtime } = validated;
+    let deviceType = params.deviceType ?? 'iPhone 16 Pro';
+
+    let attachedUdid: string | undefined;
+    if (attachTo) {
+      const device = await findDevice(attachTo);
+
+      const owner = this.getAllSessionIds().find(
+        (id) => sessionState.get(id)?.simulatorUdid === device.udid
+      );
+      if (owner) {
+        throw new Error(
+          `Simulator ${device.name} (${device.udid}) is already in use by session ${owner}. ` +
+          'End that session first or attach to a different simulator.'
+        );
+      }
+      if (this.getOwnedSimulatorUdids().has(device.udid)) {
+        throw new Error(
+          `Simulator ${device.name} (${device.udid}) is managed by this server (warm pool or a session still starting it). ` +
+          'Attach to a simulator you created yourself, or omit attachTo to get one from the server.'
+        );
+      }
+
+      if (device.state !== 'Booted') {
+        await bootSimulator(device.udid);
+      }
+
+      attachedUdid = device.udid;
+      if (params.deviceType === undefined) {
+        // e.g. com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro -> iPhone 16 Pro
+        deviceType = (device.deviceTypeIdentifier.split('.').pop() ?? device.name).replace(/-/g, ' ');
+      }
+    }
+
+    // Re-check the limit, the session list may have changed while booting.
+    // A reserved slot was set aside for this request and is still counted.
+    if (this.usedSlots() - (reserved ? 1 : 0) >= this.maxSessions) {
+      throw this.sessionLimitError();
+    }
+
     const sessionId = uuidv4();
 
     const now = new Date();
     const session: Session = {
       id: sessionId,
-      worktreePath: resolvedPath,  // Store the fully resolved path
+      ownerId,
+      label,
+      metadata,
+      worktreePath: projectPath,  // Store the realpath checked against the policy
+      simulatorUdid: attachedUdid,
+      attachedSimulator: attachedUdid ? true : undefined,
       deviceType,
+      runtime,
       createdAt: now,
       lastActivityAt: now,
+      timeoutMinutes,
     };
 
     sessionState.set(sessionId, session);
+    this.persistSessions();
 
-    logger.info('Session created', { sessionId, resolvedPath });
+    if (timeoutMinutes && !this.timeoutCheckIntervalId) {
+      this.startTimeoutMonitoring();
+    }
+
+    logger.info('Session created', { sessionId, projectPath, attachedSimulator: attachedUdid });
 
     return {
       id: session.id,
+      label: session.label,
+      metadata: session.metadata,
       worktreePath: session.worktreePath,
+      simulatorUdid: session.simulatorUdid,
+      attachedSimulator: session.attachedSimulator,
       deviceType: session.deviceType,
+      runtime: session.runtime,
       createdAt: session.createdAt.toISOString(),
+      lastActivityAt: session.lastActivityAt.toISOString(),
+      idleSeconds: 0,
+      ...this.getExpiry(session),
     };
   }
 
+  /**
+   * Sessions plus slots reserved for queued requests that are still being set up.
+   */
+  private usedSlots(): number {
+    return sessionState.size() + this.reservedSlots;
+  }
+
+  private sessionLimitError(detail?: string): Error {
+    return new Error(
+      `Maximum number of sessions (${String(this.maxSessions)}) reached. ` +
+      (detail ? `${detail} ` : '') +
+      `End an existing session before creating a new one. ` +
+      `Active sessions: ${String(sessionState.size())}`
+    );
+  }
+
+  /**
+   * Wait for a session slot if the limit is reached and the caller asked to wait.
+   *
+   * @returns true if the request waited and now holds a reserved slot that the caller
+   *   must give back (by decrementing reservedSlots) once its session is created or fails
+   * @throws Error if no slot is free and the request does not wait, or the wait times out
+   */
+  private async acquireSessionSlot(params: CreateSessionParams): Promise<boolean> {
+    if (this.usedSlots() < this.maxSessions) {
+      return false;
+    }
+
+    const waitSeconds = params.waitSeconds ?? 0;
+    if (waitSeconds <= 0) {
+      throw this.sessionLimitError();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const queuedAt = new Date();
+      const request: QueuedSessionRequest = {
+        ownerId: params.ownerId,
+        label: params.label,
+        worktreePath: params.worktreePath,
+        priority: params.priority ?? 0,
+        queuedAt,
+        expiresAt: new Date(queuedAt.getTime() + waitSeconds * 1000),
+        timer: setTimeout(() => {
+          this.waitQueue = this.waitQueue.filter((queued) => queued !== request);
+          logger.info('Queued session request timed out', { worktreePath: params.worktreePath, waitSeconds });
+          reject(this.sessionLimitError(
+            `No slot became free after waiting ${String(waitSeconds)} seconds in the session queue.`
+          ));
+        }, waitSeconds * 1000),
+        grant: resolve,
+        cancel: reject,
+      };
+
+      // Higher priority first; FIFO among requests with the same priority
+      const index = this.waitQueue.findIndex((queued) => queued.priority < request.priority);
+      if (index === -1) {
+        this.waitQueue.push(request);
+      } else {
+        this.waitQueue.splice(index, 0, request);
+      }
+
+      logger.info('Session request queued', {
+        worktreePath: params.worktreePath,
+        priority: request.priority,
+        position: this.waitQueue.indexOf(request) + 1,
+        waitSeconds,
+      });
+    });
+
+    return true;
+  }
+
+  /**
+   * Hand free slots to queued requests in queue order.
+   */
+  private drainWaitQueue(): void {
+    while (this.usedSlots() < this.maxSessions) {
+      const next = this.waitQueue.shift();
+      if (!next) {
+        return;
+      }
+      clearTimeout(next.timer);
+      this.reservedSlots++;
+      logger.info('Session slot granted to queued request', {
+        worktreePath: next.worktreePath,
+        waitedSeconds: Math.round((Date.now() - next.queuedAt.getTime()) / 1000),
+      });
+      next.grant();
+    }
+  }
+
+  /**
+   * List session_start requests waiting for a slot, in the order they will be served.
+   *
+   * @param clientId - Calling MCP client; other clients' requests are omitted
+   */
+  getSessionQueue(clientId?: string): QueuedSessionInfo[] {
+    const now = Date.now();
+    return this.waitQueue
+      .map((request, index) => ({ request, position: index + 1 }))
+      .filter(({ request }) => !clientId || !request.ownerId || request.ownerId === clientId)
+      .map(({ request, position }) => ({
+        position,
+        label: request.label,
+        worktreePath: request.worktreePath,
+        priority: request.priority,
+        queuedAt: request.queuedAt.toISOString(),
+        waitedSeconds: Math.floor((now - request.queuedAt.getTime()) / 1000),
+        expiresInSeconds: Math.max(0, Math.ceil((request.expiresAt.getTime() - now) / 1000)),
+      }));
+  }
+
   async startSimulator(sessionId: string): Promise<{ simulatorUdid: string; deviceType: string }> {
     logger.info('Starting simulator for session', { sessionId });
 
@@ -219,14 +801,29 @@ export class SessionManager {
       };
     }
 
-    const simulatorUdid = await createSimulator(session.deviceType);
-    logger.debug('Simulator created', { simulatorUdid });
+    let simulatorUdid = this.pool?.checkout(session.deviceType, session.runtime);
+    const pooled = simulatorUdid !== undefined;
+
+    if (simulatorUdid) {
+      logger.debug('Simulator taken from pool', { simulatorUdid });
+    } else {
+      simulatorUdid = await createSimulator(session.deviceType, session.runtime);
+      logger.debug('Simulator created', { simulatorUdid });
 
-    await bootSimulator(simulatorUdid);
-    logger.debug('Simulator booted', { simulatorUdid });
+      this.startingSimulators.add(simulatorUdid);
+      try {
+        await bootSimulator(simulatorUdid);
+      } finally {
+        this.startingSimulators.delete(simulatorUdid);
+      }
+      logger.debug('Simulator booted', { simulatorUdid });
+    }
 
     session.simulatorUdid = simulatorUdid;
+    session.pooledSimulator = pooled;
+    session.degradedReason = undefined;
     session.lastActivityAt = new Date();
+    this.persistSessions();
 
     logger.info('Simulator started', { sessionId, simulatorUdid });
 
@@ -256,7 +853,21 @@ export class SessionManager {
       }
     }
 
-    if (session.simulatorUdid) {
+    if (session.simulatorUdid && session.attachedSimulator) {
+      // The simulator existed before the session, leave it running for its owner
+      logger.debug('Leaving attached simulator running', { simulatorUdid: session.simulatorUdid });
+    } else if (session.simulatorUdid && session.pooledSimulator && this.pool) {
+      try {
+        // Erase and return the simulator to the pool instead of deleting it
+        await this.pool.release(session.simulatorUdid, session.deviceType, session.runtime);
+        logger.debug('Simulator returned to pool', { simulatorUdid: session.simulatorUdid });
+      } catch (error) {
+        logger.warn('Failed to return simulator to pool', {
+          simulatorUdid: session.simulatorUdid,
+          error: String(error),
+        });
+      }
+    } else if (session.simulatorUdid) {
       try {
         await shutdownSimulator(session.simulatorUdid);
         logger.debug('Simulator shutdown', { simulatorUdid: session.simulatorUdid });
@@ -279,16 +890,65 @@ export class SessionManager {
     }
 
     sessionState.delete(sessionId);
+    this.persistSessions();
     logger.info('Session ended', { sessionId });
+
+    this.sessionEndSubscribers.forEach((subscriber) => {
+      try {
+        subscriber(sessionId);
+      } catch (error) {
+        logger.error('Error in session end subscriber', { sessionId, error: String(error) });
+      }
+    });
+
+    this.drainWaitQueue();
   }
 
   /**
-   * List all active sessions.
+   * List active sessions.
    *
-   * @returns Array of session information for all active sessions
+   * @param clientId - Only list sessions this MCP client may use (default: all sessions)
+   * @param filter - Optional label, metadata, worktree path and Flutter status criteria
+   * @returns Array of session information for the matching sessions
+   * @throws {Error} If the worktree path filter escapes the base path
    */
-  listSessions(): SessionInfo[] {
-    return sessionState.list();
+  listSessions(clientId?: string, filter: SessionFilter = {}): SessionInfo[] {
+    const label = filter.label?.toLowerCase();
+    const worktreePath = filter.worktreePath
+      ? this.resolveWorktreePath(filter.worktreePath)
+      : undefined;
+
+    const sessions = sessionState.list().map((info) => {
+      const session = sessionState.get(info.id);
+      return session ? { ...info, ...this.getExpiry(session) } : info;
+    });
+
+    return sessions.filter((session) => {
+      if (!this.canAccessSession(session.id, clientId)) {
+        return false;
+      }
+      if (label && !session.label?.toLowerCase().includes(label)) {
+        return false;
+      }
+      if (filter.metadata) {
+        for (const [key, value] of Object.entries(filter.metadata)) {
+          if (session.metadata?.[key] !== value) {
+            return false;
+          }
+        }
+      }
+      if (
+        worktreePath &&
+        session.worktreePath !== worktreePath &&
+        !session.worktreePath.startsWith(worktreePath.endsWith(sep) ? worktreePath : worktreePath + sep)
+      ) {
+        return false;
+      }
+      if (filter.flutterStatus && (session.flutterProcess?.status ?? 'none') !== filter.flutterStatus) {
+        return false;
+      }
+      return true;
+    });
   }
 
   /**
@@ -301,6 +961,68 @@ export class SessionManager {
     return sessionState.get(sessionId);
   }
 
+  /**
+   * Get the secret that authorizes requests to a session's VM service proxy, creating
+   * it on first use. Only the session's owner can obtain it through the tools.
+   *
+   * @throws {Error} If the session does not exist
+   */
+  getVmServiceProxyToken(sessionId: string): string {
+    const session = sessionState.get(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    session.vmServiceProxyToken ??= randomBytes(24).toString('base64url');
+    return session.vmServiceProxyToken;
+  }
+
+  /**
+   * Invalidate a session's VM service proxy URLs after its owner changed, so whoever
+   * held them loses access. A new token is created when the next owner asks for one.
+   */
+  private revokeVmServiceProxyToken(session: Session): void {
+    if (!session.vmServiceProxyToken) {
+      return;
+    }
+    session.vmServiceProxyToken = undefined;
+    logger.info('VM service proxy token revoked', { sessionId: session.id });
+
+    this.ownerChangeSubscribers.forEach((subscriber) => {
+      try {
+        subscriber(session.id);
+      } catch (error) {
+        logger.error('Error in session owner change subscriber', { sessionId: session.id, error: String(error) });
+      }
+    });
+  }
+
+  /**
+   * Get notified after a session has ended, e.g. to close connections that belong to it.
+   *
+   * @returns Function that removes the subscription
+   */
+  subscribeToSessionEnd(callback: (sessionId: string) => void): () => void {
+    this.sessionEndSubscribers.add(callback);
+
+    return () => {
+      this.sessionEndSubscribers.delete(callback);
+    };
+  }
+
+  /**
+   * Get notified after a session's owner changed and its VM service proxy URLs were
+   * revoked, e.g. to close proxy connections opened with the old URLs.
+   *
+   * @returns Function that removes the subscription
+   */
+  subscribeToOwnerChange(callback: (sessionId: string) => void): () => void {
+    this.ownerChangeSubscribers.add(callback);
+
+    return () => {
+      this.ownerChangeSubscribers.delete(callback);
+    };
+  }
+
   /**
    * Get all session IDs.
    *
@@ -310,6 +1032,26 @@ export class SessionManager {
     return Array.from(sessionState.keys());
   }
 
+  /**
+   * Resolve a file argument (e.g. a run target) relative to a session's project and
+   * validate it against the same path policy as project paths.
+   *
+   * @param sessionId - Session the path belongs to
+   * @param filePath - Path relative to the project root, or absolute
+   * @param argumentName - Tool argument name used in error messages
+   * @returns The resolved absolute path
+   * @throws Error if the session does not exist or the path is denied
+   */
+  resolveSessionPath(sessionId: string, filePath: string, argumentName: string): string {
+    const session = sessionState.get(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const resolvedPath = resolve(session.worktreePath, filePath);
+    this.pathPolicy.check(resolvedPath, argumentName, filePath);
+    return resolvedPath;
+  }
+
   /**
    * Get the pre-build script command if configured.
    *
@@ -337,11 +1079,99 @@ export class SessionManager {
   updateSessionActivity(sessionId: string): void {
     const session = sessionState.get(sessionId);
     if (session) {
+      // Not persisted: restored sessions start a fresh activity clock anyway
       session.lastActivityAt = new Date();
       logger.debug('Session activity updated', { sessionId });
     }
   }
 
+  /**
+   * Keep a session alive: counts as activity and optionally changes its inactivity timeout.
+   *
+   * @param sessionId - Session ID to keep alive
+   * @param timeoutMinutes - Optional new timeout for this session (0 never expires)
+   * @returns The session's effective timeout and when it will expire
+   * @throws {Error} If the session does not exist
+   */
+  keepaliveSession(
+    sessionId: string,
+    timeoutMinutes?: number
+  ): { timeoutMinutes?: number; expiresAt?: string; expiresInSeconds?: number } {
+    const session = sessionState.get(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    if (timeoutMinutes !== undefined) {
+      session.timeoutMinutes = timeoutMinutes;
+      if (timeoutMinutes > 0 && !this.timeoutCheckIntervalId) {
+        this.startTimeoutMonitoring();
+      }
+      this.persistSessions();
+    }
+
+    this.updateSessionActivity(sessionId);
+
+    return this.getExpiry(session);
+  }
+
+  /**
+   * Effective inactivity timeout of a session: its own override, else the server setting.
+   *
+   * @returns Timeout in minutes, or undefined if the session never expires
+   */
+  private getTimeoutMinutes(session: Session): number | undefined {
+    if (session.timeoutMinutes !== undefined) {
+      return session.timeoutMinutes > 0 ? session.timeoutMinutes : undefined;
+    }
+    return this.sessionTimeoutEnabled ? this.sessionTimeoutMinutes : undefined;
+  }
+
+  /**
+   * Work in flight counts as session activity, so long builds, reloads and test runs
+   * are never mistaken for an idle session. A launched app left alone is idle.
+   */
+  private hasActiveProcess(session: Session): boolean {
+    return (session.flutterProcessManager?.isBusy() ?? false) ||
+      (session.testManager?.isRunning() ?? false);
+  }
+
+  private getExpiry(session: Session): {
+    timeoutMinutes?: number;
+    expiresAt?: string;
+    expiresInSeconds?: number;
+  } {
+    const timeoutMinutes = this.getTimeoutMinutes(session);
+    if (timeoutMinutes === undefined) {
+      return {};
+    }
+
+    const now = Date.now();
+    const lastActivity = this.hasActiveProcess(session) ? now : session.lastActivityAt.getTime();
+    const expiresAt = lastActivity + timeoutMinutes * 60000;
+
+    return {
+      timeoutMinutes,
+      expiresAt: new Date(expiresAt).toISOString(),
+      expiresInSeconds: Math.max(0, Math.floor((expiresAt - now) / 1000)),
+    };
+  }
+
+  /**
+   * Remember the options of the latest flutter_run for a session, so they
+   * survive a server restart and can be reused to relaunch the app.
+   *
+   * @param sessionId - Session ID to update
+   * @param options - Options passed to flutter_run
+   */
+  recordRunOptions(sessionId: string, options: SessionRunOptions): void {
+    const session = sessionState.get(sessionId);
+    if (session) {
+      session.lastRunOptions = options;
+      this.persistSessions();
+    }
+  }
+
   /**
    * Start monitoring sessions for inactivity timeout.
    * Checks every minute for sessions that have exceeded the timeout.
@@ -353,7 +1183,7 @@ export class SessionManager {
     }
 
     logger.info('Starting session timeout monitoring', {
-      timeoutMinutes: this.sessionTimeoutMinutes,
+      timeoutMinutes: this.sessionTimeoutEnabled ? this.sessionTimeoutMinutes : 'per-session only',
       checkInterval: '60 seconds',
     });
 
@@ -370,7 +1200,6 @@ export class SessionManager {
    */
   private async checkAndCleanupInactiveSessions(): Promise<void> {
     const now = new Date();
-    const timeoutMs = this.sessionTimeoutMinutes * 60 * 1000;
     const sessions = sessionState.list();
 
     for (const sessionInfo of sessions) {
@@ -379,14 +1208,24 @@ export class SessionManager {
         continue;
       }
 
+      const timeoutMinutes = this.getTimeoutMinutes(session);
+      if (timeoutMinutes === undefined) {
+        continue;
+      }
+
+      if (this.hasActiveProcess(session)) {
+        session.lastActivityAt = now;
+        continue;
+      }
+
       const inactiveMs = now.getTime() - session.lastActivityAt.getTime();
 
-      if (inactiveMs > timeoutMs) {
+      if (inactiveMs > timeoutMinutes * 60 * 1000) {
         const inactiveMinutes = Math.floor(inactiveMs / 60000);
         logger.info('Session timeout: ending inactive session', {
           sessionId: session.id,
           inactiveMinutes,
-          timeoutMinutes: this.sessionTimeoutMinutes,
+          timeoutMinutes,
         });
 
         try {
@@ -410,8 +1249,58 @@ export class SessionManager {
       this.timeoutCheckIntervalId = undefined;
     }
 
+    // Stop orphaned simulator reaping
+    if (this.reaperIntervalId) {
+      clearInterval(this.reaperIntervalId);
+      this.reaperIntervalId = undefined;
+    }
+
+    // Fail queued requests so ending sessions below does not hand them slots
+    const queued = this.waitQueue;
+    this.waitQueue = [];
+    for (const request of queued) {
+      clearTimeout(request.timer);
+      request.cancel(new Error('Server is shutting down; queued session request cancelled'));
+    }
+
     const sessions = sessionState.list();
 
+    // Delete idle pool simulators; checked-out ones are handled with their sessions
+    if (this.pool) {
+      try {
+        await this.pool.drain();
+      } catch (error) {
+        logger.error('Failed to drain simulator pool', { error: String(error) });
+      }
+    }
+
+    if (this.stateFile) {
+      // Keep simulators alive so the sessions can be re-adopted on the next start
+      this.persistSessions();
+
+      for (const sessionInfo of sessions) {
+        const session = sessionState.get(sessionInfo.id);
+        if (session?.flutterProcessManager) {
+          try {
+            await session.flutterProcessManager.cleanup();
+          } catch (error) {
+            logger.warn('Failed to cleanup Flutter process', {
+              sessionId: sessionInfo.id,
+              error: String(error),
+            });
+          }
+        }
+        session?.testManager?.cleanup();
+        sessionState.delete(sessionInfo.id);
+      }
+
+      logger.info('Sessions persisted for restore on next start', {
+        count: sessions.length,
+        stateFile: this.stateFile,
+      });
+      return;
+    }
+
     for (const session of sessions) {
       try {
         await this.endSession(session.id);
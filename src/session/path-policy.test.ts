@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, rmSync, symlinkSync, realpathSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PathPolicy, isPathWithin, realpathOrResolve } from './path-policy.js';
+
+describe('isPathWithin', () => {
+  it('should compare whole path segments', () => {
+    expect(isPathWithin('/Users/alice', '/Users/alice')).toBe(true);
+    expect(isPathWithin('/Users/alice', '/Users/alice/app')).toBe(true);
+    expect(isPathWithin('/Users/alice', '/Users/alicebob/app')).toBe(false);
+    expect(isPathWithin('/Users/', '/Users/alice')).toBe(true);
+  });
+});
+
+describe('PathPolicy', () => {
+  let testDir: string;
+  let rootA: string;
+  let rootB: string;
+  let outside: string;
+
+  beforeEach(() => {
+    testDir = realpathSync(tmpdir());
+    testDir = join(testDir, `mcp-policy-${String(Date.now())}`);
+    rootA = join(testDir, 'alice');
+    rootB = join(testDir, 'shared');
+    outside = join(testDir, 'alicebob');
+    mkdirSync(join(rootA, 'app'), { recursive: true });
+    mkdirSync(rootB, { recursive: true });
+    mkdirSync(outside, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should allow paths under any configured root', () => {
+    const policy = new PathPolicy([rootA, rootB]);
+
+    expect(policy.check(join(rootA, 'app'), 'Project path')).toBe(join(rootA, 'app'));
+    expect(policy.check(rootB, 'Project path')).toBe(rootB);
+  });
+
+  it('should reject sibling directories that share a prefix', () => {
+    const policy = new PathPolicy([rootA]);
+
+    expect(() => policy.check(outside, 'Project path')).toThrow(
+      /Access denied: Project path must be under .*alice \(rule: allow-only\)/
+    );
+  });
+
+  it('should list every root when several are configured', () => {
+    const policy = new PathPolicy([rootA, rootB]);
+
+    expect(() => policy.check(outside, 'Project path')).toThrow(
+      `must be under one of ${rootA}, ${rootB}`
+    );
+  });
+
+  it('should reject symlinks that point outside the allowed roots', () => {
+    const link = join(rootA, 'link-out');
+    symlinkSync(outside, link);
+    const policy = new PathPolicy([rootA]);
+
+    expect(() => policy.check(link, 'Project path')).toThrow(
+      `Resolved path: ${link} -> ${outside}`
+    );
+  });
+
+  it('should name the deny pattern that rejected a path', () => {
+    const policy = new PathPolicy([rootA], ['.ssh', 'app/secrets']);
+
+    expect(() => policy.check(join(rootA, 'app', 'secrets', 'key.pem'), 'target')).toThrow(
+      'Access denied: target matches deny pattern "app/secrets" (rule: deny)'
+    );
+    expect(() => policy.check(join(rootA, 'app', 'lib'), 'target')).not.toThrow();
+  });
+
+  it('should resolve non-existent paths through their existing ancestors', () => {
+    const link = join(rootA, 'link-out');
+    symlinkSync(outside, link);
+
+    expect(realpathOrResolve(join(link, 'missing', 'main.dart'))).toBe(
+      join(outside, 'missing', 'main.dart')
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { realpathSync } from 'fs';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path';
+import { matchesGlob } from '../utils/glob.js';
+
+/**
+ * Resolve symlinks in a path. For paths that do not exist yet, the nearest
+ * existing ancestor is resolved and the remaining segments are appended.
+ */
+export function realpathOrResolve(path: string): string {
+  const absolute = resolve(path);
+  try {
+    return realpathSync(absolute);
+  } catch {
+    const parent = dirname(absolute);
+    if (parent === absolute) {
+      return absolute;
+    }
+    return join(realpathOrResolve(parent), basename(absolute));
+  }
+}
+
+/**
+ * Segment-aware containment check: "/Users/alicebob" is not within "/Users/alice".
+ */
+export function isPathWithin(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+/**
+ * Decides which filesystem paths tools may touch.
+ *
+ * A path is allowed when its realpath is inside one of the allowed roots and neither
+ * the requested path nor its realpath matches a deny pattern. Errors name the rule
+ * that rejected the path.
+ */
+export class PathPolicy {
+  private readonly allowedRoots: string[];
+  private readonly denyPatterns: string[];
+
+  constructor(allowedRoots: string[], denyPatterns: string[] = []) {
+    if (allowedRoots.length === 0) {
+      throw new Error('At least one allowed project root is required');
+    }
+    this.allowedRoots = allowedRoots.map((root) => realpathOrResolve(root));
+    this.denyPatterns = denyPatterns;
+  }
+
+  getAllowedRoots(): string[] {
+    return [...this.allowedRoots];
+  }
+
+  getDenyPatterns(): string[] {
+    return [...this.denyPatterns];
+  }
+
+  /**
+   * Validate a path against the policy.
+   *
+   * @param path - Absolute path to check
+   * @param description - What the path is, used in error messages (e.g. "Project path")
+   * @param providedPath - The path as given by the caller, if it differs from `path`
+   * @returns The realpath of the validated path
+   * @throws Error naming the allow-only root list or deny pattern that rejected the path
+   */
+  check(path: string, description: string, providedPath: string = path): string {
+    const resolvedPath = resolve(path);
+    const realPath = realpathOrResolve(resolvedPath);
+    const details = realPath === resolvedPath
+      ? `Provided path: ${providedPath}, Resolved path: ${resolvedPath}`
+      : `Provided path: ${providedPath}, Resolved path: ${resolvedPath} -> ${realPath}`;
+
+    if (!this.allowedRoots.some((root) => isPathWithin(root, realPath))) {
+      const roots = this.allowedRoots.length === 1
+        ? this.allowedRoots[0]
+        : `one of ${this.allowedRoots.join(', ')}`;
+      throw new Error(
+        `Access denied: ${description} must be under ${roots} (rule: allow-only). ${details}`
+      );
+    }
+
+    const deniedBy = this.denyPatterns.find(
+      (pattern) => matchesGlob(resolvedPath, pattern) || matchesGlob(realPath, pattern)
+    );
+    if (deniedBy !== undefined) {
+      throw new Error(
+        `Access denied: ${description} matches deny pattern "${deniedBy}" (rule: deny). ${details}`
+      );
+    }
+
+    return realPath;
+  }
+}
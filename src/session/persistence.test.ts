@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fromSnapshot, loadSessionSnapshots, saveSessionSnapshots, toSnapshot } from './persistence.js';
+import type { Session, SessionSnapshot } from './types.js';
+
+describe('session persistence', () => {
+  let testDir: string;
+  let stateFile: string;
+
+  const snapshot: SessionSnapshot = {
+    id: 'session-1',
+    label: 'checkout flow',
+    worktreePath: '/Users/alice/app',
+    simulatorUdid: 'UDID-1',
+    deviceType: 'iPhone 16 Pro',
+    createdAt: '2026-01-01T10:00:00.000Z',
+    lastActivityAt: '2026-01-01T10:05:00.000Z',
+    timeoutMinutes: 15,
+  };
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'persistence-test-'));
+    stateFile = join(testDir, 'state', 'sessions.json');
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip sessions through their snapshots', () => {
+    const session: Session = {
+      ...fromSnapshot(snapshot),
+      degradedReason: 'Simulator UDID-1 no longer exists',
+    };
+
+    expect(fromSnapshot(toSnapshot(session))).toEqual(session);
+    expect(session.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should save and load snapshots, creating the directory', () => {
+    saveSessionSnapshots(stateFile, [snapshot]);
+
+    expect(loadSessionSnapshots(stateFile)).toEqual([snapshot]);
+  });
+
+  it('should return no snapshots when the state file does not exist', () => {
+    expect(loadSessionSnapshots(stateFile)).toEqual([]);
+  });
+
+  it('should reject a state file with another version', () => {
+    mkdirSync(join(testDir, 'state'));
+    writeFileSync(stateFile, JSON.stringify({ version: 2, savedAt: '', sessions: [snapshot] }));
+
+    expect(() => loadSessionSnapshots(stateFile)).toThrow(
+      /Unsupported session state file format .* \(version 2, expected 1\)/
+    );
+  });
+
+  it('should reject a state file without a session list', () => {
+    mkdirSync(join(testDir, 'state'));
+    writeFileSync(stateFile, JSON.stringify({ version: 1, savedAt: '' }));
+
+    expect(() => loadSessionSnapshots(stateFile)).toThrow(/Unsupported session state file format/);
+  });
+
+  it('should reject a corrupt or truncated state file', () => {
+    saveSessionSnapshots(stateFile, [snapshot]);
+    const contents = readFileSync(stateFile, 'utf-8');
+    writeFileSync(stateFile, contents.slice(0, contents.length / 2));
+
+    expect(() => loadSessionSnapshots(stateFile)).toThrow(/Failed to parse session state file/);
+  });
+
+  it('should write through a temporary file and rename it into place', () => {
+    saveSessionSnapshots(stateFile, [snapshot]);
+    expect(existsSync(`${stateFile}.tmp`)).toBe(false);
+
+    // A write that fails before the rename leaves the previous state file intact
+    mkdirSync(`${stateFile}.tmp`);
+    expect(() => {
+      saveSessionSnapshots(stateFile, []);
+    }).toThrow();
+    expect(loadSessionSnapshots(stateFile)).toEqual([snapshot]);
+  });
+});
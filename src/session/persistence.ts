@@ -0,0 +1,110 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { Session, SessionSnapshot } from './types.js';
+import { logger } from '../utils/logger.js';
+
+const STATE_FILE_VERSION = 1;
+
+interface StateFileContents {
+  version: number;
+  savedAt: string;
+  sessions: SessionSnapshot[];
+}
+
+/**
+ * Convert a live session into its serializable snapshot.
+ * Process managers are runtime-only and are not persisted.
+ */
+export function toSnapshot(session: Session): SessionSnapshot {
+  return {
+    id: session.id,
+    label: session.label,
+    metadata: session.metadata,
+    worktreePath: session.worktreePath,
+    simulatorUdid: session.simulatorUdid,
+    pooledSimulator: session.pooledSimulator,
+    attachedSimulator: session.attachedSimulator,
+    deviceType: session.deviceType,
+    runtime: session.runtime,
+    createdAt: session.createdAt.toISOString(),
+    lastActivityAt: session.lastActivityAt.toISOString(),
+    timeoutMinutes: session.timeoutMinutes,
+    lastRunOptions: session.lastRunOptions,
+    degradedReason: session.degradedReason,
+  };
+}
+
+/**
+ * Convert a snapshot back into a session (without any running processes).
+ */
+export function fromSnapshot(snapshot: SessionSnapshot): Session {
+  return {
+    id: snapshot.id,
+    label: snapshot.label,
+    metadata: snapshot.metadata,
+    worktreePath: snapshot.worktreePath,
+    simulatorUdid: snapshot.simulatorUdid,
+    pooledSimulator: snapshot.pooledSimulator,
+    attachedSimulator: snapshot.attachedSimulator,
+    deviceType: snapshot.deviceType,
+    runtime: snapshot.runtime,
+    createdAt: new Date(snapshot.createdAt),
+    lastActivityAt: new Date(snapshot.lastActivityAt),
+    timeoutMinutes: snapshot.timeoutMinutes,
+    lastRunOptions: snapshot.lastRunOptions,
+    degradedReason: snapshot.degradedReason,
+  };
+}
+
+/**
+ * Write session snapshots to the state file.
+ * Writes to a temporary file first and renames it, so a crash mid-write
+ * never leaves a truncated state file behind.
+ */
+export function saveSessionSnapshots(stateFile: string, snapshots: SessionSnapshot[]): void {
+  const contents: StateFileContents = {
+    version: STATE_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    sessions: snapshots,
+  };
+
+  mkdirSync(dirname(stateFile), { recursive: true });
+
+  const tempFile = `${stateFile}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(contents, null, 2));
+  renameSync(tempFile, stateFile);
+
+  logger.debug('Session state saved', { stateFile, count: snapshots.length });
+}
+
+/**
+ * Read session snapshots from the state file.
+ *
+ * @returns Snapshots from the file, or an empty array if the file does not exist
+ * @throws {Error} If the file exists but cannot be parsed
+ */
+export function loadSessionSnapshots(stateFile: string): SessionSnapshot[] {
+  if (!existsSync(stateFile)) {
+    logger.debug('No session state file found', { stateFile });
+    return [];
+  }
+
+  let contents: StateFileContents;
+  try {
+    contents = JSON.parse(readFileSync(stateFile, 'utf-8')) as StateFileContents;
+  } catch (error) {
+    throw new Error(
+      `Failed to parse session state file ${stateFile}: ` +
+      (error instanceof Error ? error.message : String(error))
+    );
+  }
+
+  if (contents.version !== STATE_FILE_VERSION || !Array.isArray(contents.sessions)) {
+    throw new Error(
+      `Unsupported session state file format in ${stateFile} ` +
+      `(version ${String(contents.version)}, expected ${String(STATE_FILE_VERSION)})`
+    );
+  }
+
+  return contents.sessions;
+}
@@ -74,6 +74,7 @@ describe('SessionState', () => {
         simulatorUdid: 'UDID-1',
         deviceType: 'iPhone 16 Pro',
         createdAt: new Date('2025-01-01'),
+        lastActivityAt: new Date('2025-01-01'),
       };
 
       const session2: Session = {
@@ -82,6 +83,7 @@ describe('SessionState', () => {
         simulatorUdid: 'UDID-2',
         deviceType: 'iPhone 15',
         createdAt: new Date('2025-01-02'),
+        lastActivityAt: new Date('2025-01-02'),
       };
 
       sessionState.set('test-1', session1);
@@ -93,6 +95,22 @@ describe('SessionState', () => {
       expect(list[1].id).toBe('test-2');
     });
 
+    it('should report idle time since the last activity', () => {
+      sessionState.set('test-1', {
+        id: 'test-1',
+        label: 'checkout flow',
+        worktreePath: '/path/1',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(Date.now() - 600000),
+        lastActivityAt: new Date(Date.now() - 90000),
+      });
+
+      const [info] = sessionState.list();
+      expect(info.label).toBe('checkout flow');
+      expect(info.idleSeconds).toBeGreaterThanOrEqual(90);
+      expect(info.idleSeconds).toBeLessThan(100);
+    });
+
     it('should return empty array when no sessions', () => {
       const list = sessionState.list();
       expect(list).toEqual([]);
@@ -20,20 +20,37 @@ class SessionState {
   }
 
   list(): SessionInfo[] {
+    const now = Date.now();
+
     return Array.from(this.sessions.values()).map((session) => {
       const flutterStatus = session.flutterProcessManager?.getStatus();
 
       return {
         id: session.id,
+        label: session.label,
+        metadata: session.metadata,
         worktreePath: session.worktreePath,
         simulatorUdid: session.simulatorUdid,
+        attachedSimulator: session.attachedSimulator,
         deviceType: session.deviceType,
+        runtime: session.runtime,
         createdAt: session.createdAt.toISOString(),
+        lastActivityAt: session.lastActivityAt.toISOString(),
+        idleSeconds: Math.max(0, Math.floor((now - session.lastActivityAt.getTime()) / 1000)),
+        lastRunOptions: session.lastRunOptions,
+        degradedReason: session.degradedReason,
         flutterProcess: flutterStatus
           ? {
               pid: flutterStatus.pid,
               status: flutterStatus.status,
+              phase: flutterStatus.phase,
               startedAt: flutterStatus.startedAt.toISOString(),
+              vmServiceUri: flutterStatus.vmServiceUri,
+              devToolsUri: flutterStatus.devToolsUri,
+              phaseHistory: flutterStatus.phaseHistory.map(({ phase, at }) => ({
+                phase,
+                at: at.toISOString(),
+              })),
             }
           : undefined,
       };
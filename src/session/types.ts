@@ -1,31 +1,161 @@
 import { FlutterProcessManager } from '../flutter/process.js';
 import { FlutterTestManager } from '../flutter/test-manager.js';
+import { FlutterProcessPhase, FlutterProcessStatus, FlutterRunOptions } from '../flutter/types.js';
+
+/**
+ * The subset of flutter_run options worth remembering across server restarts.
+ * The worktree path and device ID are always derived from the session itself.
+ */
+export type SessionRunOptions = Pick<
+  FlutterRunOptions,
+  'target' | 'flavor' | 'additionalArgs' | 'machine' | 'restartPolicy' | 'watch' | 'attach'
+>;
+
+/**
+ * What happens to a client's sessions when its MCP session is deleted or times out.
+ * end: end the sessions; release: keep them running, unowned, for any client to pick up.
+ */
+export type ClientDisconnectPolicy = 'end' | 'release';
 
 export interface Session {
   id: string;
+  /** MCP session ID of the client that created the session (runtime-only, not persisted) */
+  ownerId?: string;
+  /** Human-readable label, e.g. the agent or task using the session */
+  label?: string;
+  /** Arbitrary key/value pairs such as agent name, branch or ticket */
+  metadata?: Record<string, string>;
   worktreePath: string;
   simulatorUdid?: string;
+  pooledSimulator?: boolean;
+  /** Simulator existed before the session and is left running when the session ends */
+  attachedSimulator?: boolean;
   deviceType: string;
+  /** iOS runtime name (e.g. "iOS 18.0"), or undefined for the simctl default */
+  runtime?: string;
   createdAt: Date;
   lastActivityAt: Date;
+  /** Inactivity timeout override in minutes (0 never expires); falls back to the server setting */
+  timeoutMinutes?: number;
+  lastRunOptions?: SessionRunOptions;
+  degradedReason?: string;
+  /** Secret embedded in the session's VM service proxy URLs (runtime-only, not persisted) */
+  vmServiceProxyToken?: string;
   flutterProcessManager?: FlutterProcessManager;
+  /** Recent flutter_run invocations, oldest first; the last one is the current run (runtime-only) */
+  flutterRuns?: FlutterRunRecord[];
+  /** Number of flutter_run invocations so far, used to number the runs */
+  flutterRunCount?: number;
   testManager?: FlutterTestManager;
 }
 
+/**
+ * One flutter_run invocation. Its process manager keeps the run's logs, status and exit
+ * code after the next run replaces it.
+ */
+export interface FlutterRunRecord {
+  /** "run-1", "run-2", ... in the order of flutter_run calls */
+  runId: string;
+  options: SessionRunOptions;
+  processManager: FlutterProcessManager;
+}
+
 export interface CreateSessionParams {
   worktreePath: string;
+  label?: string;
+  metadata?: Record<string, string>;
   deviceType?: string;
+  /** iOS runtime name, version or identifier (e.g. "iOS 17.5") */
+  runtime?: string;
+  /** UDID or name of an existing simulator to use instead of creating one */
+  attachTo?: string;
+  /** MCP session ID of the client creating the session */
+  ownerId?: string;
+  /** Inactivity timeout override in minutes (0 never expires) */
+  timeoutMinutes?: number;
+  /** Wait up to this many seconds for a free slot when the session limit is reached */
+  waitSeconds?: number;
+  /** Queue priority while waiting; higher is served first, FIFO within a priority (default 0) */
+  priority?: number;
 }
 
 export interface SessionInfo {
   id: string;
+  label?: string;
+  metadata?: Record<string, string>;
   worktreePath: string;
   simulatorUdid?: string;
+  attachedSimulator?: boolean;
   deviceType: string;
+  runtime?: string;
   createdAt: string;
+  lastActivityAt: string;
+  /** Seconds since the last tool call on the session */
+  idleSeconds: number;
+  /** Effective inactivity timeout, undefined if the session never expires */
+  timeoutMinutes?: number;
+  /** When the session will be ended for inactivity, undefined if it never expires */
+  expiresAt?: string;
+  expiresInSeconds?: number;
+  lastRunOptions?: SessionRunOptions;
+  degradedReason?: string;
   flutterProcess?: {
     pid: number;
     status: string;
+    phase: FlutterProcessPhase;
     startedAt: string;
+    vmServiceUri?: string;
+    devToolsUri?: string;
+    phaseHistory: Array<{ phase: FlutterProcessPhase; at: string }>;
   };
 }
+
+/**
+ * A session_start request waiting in the queue for a free session slot.
+ */
+export interface QueuedSessionInfo {
+  /** 1-based queue position, 1 is served next */
+  position: number;
+  label?: string;
+  worktreePath: string;
+  priority: number;
+  queuedAt: string;
+  waitedSeconds: number;
+  /** Seconds until the request gives up waiting */
+  expiresInSeconds: number;
+}
+
+/**
+ * Criteria for session_list. All given criteria must match.
+ */
+export interface SessionFilter {
+  /** Case-insensitive substring of the session label */
+  label?: string;
+  /** Key/value pairs that must all be present in the session metadata */
+  metadata?: Record<string, string>;
+  /** Only sessions whose project is this directory or inside it */
+  worktreePath?: string;
+  /** Flutter process status, or "none" for sessions without a Flutter process */
+  flutterStatus?: FlutterProcessStatus | 'none';
+}
+
+/**
+ * Serializable form of a session, written to the state file so sessions
+ * survive a server restart.
+ */
+export interface SessionSnapshot {
+  id: string;
+  label?: string;
+  metadata?: Record<string, string>;
+  worktreePath: string;
+  simulatorUdid?: string;
+  pooledSimulator?: boolean;
+  attachedSimulator?: boolean;
+  deviceType: string;
+  runtime?: string;
+  createdAt: string;
+  lastActivityAt: string;
+  timeoutMinutes?: number;
+  lastRunOptions?: SessionRunOptions;
+  degradedReason?: string;
+}
@@ -0,0 +1,205 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import type { Runtime } from './types.js';
+
+const mockCreateSimulator = jest.fn<(deviceType: string, runtime?: string) => Promise<string>>();
+const mockBootSimulator = jest.fn<(udid: string) => Promise<void>>();
+const mockShutdownSimulator = jest.fn<(udid: string) => Promise<void>>();
+const mockEraseSimulator = jest.fn<(udid: string) => Promise<void>>();
+const mockDeleteSimulator = jest.fn<(udid: string) => Promise<void>>();
+const mockResolveRuntime = jest.fn<(runtime: string) => Promise<Runtime>>();
+
+jest.unstable_mockModule('./simctl.js', () => ({
+  createSimulator: mockCreateSimulator,
+  bootSimulator: mockBootSimulator,
+  shutdownSimulator: mockShutdownSimulator,
+  eraseSimulator: mockEraseSimulator,
+  deleteSimulator: mockDeleteSimulator,
+  resolveRuntime: mockResolveRuntime,
+}));
+
+const { parsePoolSpec, SimulatorPool } = await import('./pool.js');
+
+describe('parsePoolSpec', () => {
+  it('should parse device types with counts', () => {
+    expect(parsePoolSpec('iPhone 16 Pro=2, iPad Air=1')).toEqual([
+      { deviceType: 'iPhone 16 Pro', runtime: undefined, count: 2 },
+      { deviceType: 'iPad Air', runtime: undefined, count: 1 },
+    ]);
+  });
+
+  it('should parse an optional runtime', () => {
+    expect(parsePoolSpec('iPhone 16 Pro@iOS 17.5=2')).toEqual([
+      { deviceType: 'iPhone 16 Pro', runtime: 'iOS 17.5', count: 2 },
+    ]);
+  });
+
+  it('should default to one simulator when no count is given', () => {
+    expect(parsePoolSpec('iPhone 16 Pro')).toEqual([
+      { deviceType: 'iPhone 16 Pro', runtime: undefined, count: 1 },
+    ]);
+  });
+
+  it('should reject invalid counts', () => {
+    expect(() => parsePoolSpec('iPhone 16 Pro=0')).toThrow('Invalid pool entry');
+    expect(() => parsePoolSpec('iPhone 16 Pro=two')).toThrow('Invalid pool entry');
+    expect(() => parsePoolSpec('=2')).toThrow('Invalid pool entry');
+    expect(() => parsePoolSpec('iPhone 16 Pro@=2')).toThrow('Invalid pool entry');
+  });
+});
+
+describe('SimulatorPool', () => {
+  let created: number;
+
+  beforeEach(() => {
+    created = 0;
+    mockCreateSimulator.mockReset();
+    mockBootSimulator.mockReset();
+    mockShutdownSimulator.mockReset();
+    mockEraseSimulator.mockReset();
+    mockDeleteSimulator.mockReset();
+    mockResolveRuntime.mockReset();
+
+    mockCreateSimulator.mockImplementation(() => Promise.resolve(`POOL-${String(++created)}`));
+    mockBootSimulator.mockResolvedValue(undefined);
+    mockShutdownSimulator.mockResolvedValue(undefined);
+    mockEraseSimulator.mockResolvedValue(undefined);
+    mockDeleteSimulator.mockResolvedValue(undefined);
+    mockResolveRuntime.mockImplementation((runtime) =>
+      Promise.resolve({
+        name: `iOS ${runtime}`,
+        identifier: `com.apple.CoreSimulator.SimRuntime.iOS-${runtime.replace('.', '-')}`,
+        version: runtime,
+        isAvailable: true,
+      })
+    );
+  });
+
+  it('should warm simulators up to the pool size', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 2 }], refill: 'none' });
+
+    await pool.warm();
+
+    expect(mockCreateSimulator).toHaveBeenCalledTimes(2);
+    expect(mockBootSimulator).toHaveBeenCalledTimes(2);
+    expect(pool.getStatus()).toEqual([
+      { deviceType: 'iPhone 16 Pro', runtime: undefined, size: 2, idle: 2, checkedOut: 0, warming: 0 },
+    ]);
+  });
+
+  it('should check out idle simulators regardless of device type case', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 1 }], refill: 'none' });
+    await pool.warm();
+
+    expect(pool.handles('iphone 16 pro')).toBe(true);
+    expect(pool.checkout('iphone 16 pro')).toBe('POOL-1');
+    expect(pool.checkout('iPhone 16 Pro')).toBeUndefined();
+    expect(pool.checkout('iPad Air')).toBeUndefined();
+    expect(pool.getOwnedUdids()).toEqual(['POOL-1']);
+  });
+
+  it('should own simulators that are still booting', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 1 }], refill: 'none' });
+    let finishBoot: () => void = () => undefined;
+    mockBootSimulator.mockImplementationOnce(() => new Promise<void>((resolve) => { finishBoot = resolve; }));
+
+    const warming = pool.warm();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(pool.getOwnedUdids()).toEqual(['POOL-1']);
+
+    finishBoot();
+    await warming;
+    expect(pool.getOwnedUdids()).toEqual(['POOL-1']);
+  });
+
+  it('should keep separate simulators per runtime', async () => {
+    const pool = new SimulatorPool({
+      sizes: [{ deviceType: 'iPhone 16 Pro', runtime: '17.5', count: 1 }],
+      refill: 'none',
+    });
+    await pool.warm();
+
+    expect(mockCreateSimulator).toHaveBeenCalledWith('iPhone 16 Pro', 'iOS 17.5');
+    expect(pool.handles('iPhone 16 Pro')).toBe(false);
+    expect(pool.checkout('iPhone 16 Pro')).toBeUndefined();
+    expect(pool.checkout('iPhone 16 Pro', 'iOS 17.5')).toBe('POOL-1');
+  });
+
+  it('should refill eagerly after checkout', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 1 }], refill: 'eager' });
+    await pool.warm();
+
+    pool.checkout('iPhone 16 Pro');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockCreateSimulator).toHaveBeenCalledTimes(2);
+    expect(pool.getStatus()[0]).toMatchObject({ idle: 1, checkedOut: 1 });
+  });
+
+  it('should erase and reboot released simulators', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 1 }], refill: 'none' });
+    await pool.warm();
+    const udid = pool.checkout('iPhone 16 Pro') ?? '';
+
+    await pool.release(udid, 'iPhone 16 Pro');
+
+    expect(mockShutdownSimulator).toHaveBeenCalledWith(udid);
+    expect(mockEraseSimulator).toHaveBeenCalledWith(udid);
+    expect(mockBootSimulator).toHaveBeenLastCalledWith(udid);
+    expect(mockDeleteSimulator).not.toHaveBeenCalled();
+    expect(pool.getStatus()[0]).toMatchObject({ idle: 1, checkedOut: 0 });
+  });
+
+  it('should recycle released simulators while an eager refill is still warming', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 1 }], refill: 'eager' });
+    await pool.warm();
+    let finishRefill: (udid: string) => void = () => undefined;
+    mockCreateSimulator.mockImplementationOnce(() => new Promise((resolve) => { finishRefill = resolve; }));
+
+    const udid = pool.checkout('iPhone 16 Pro') ?? '';
+    await pool.release(udid, 'iPhone 16 Pro');
+
+    expect(mockEraseSimulator).toHaveBeenCalledWith(udid);
+    expect(mockDeleteSimulator).not.toHaveBeenCalled();
+    expect(pool.getStatus()[0]).toMatchObject({ idle: 1, warming: 1 });
+
+    // The refill finishing second is no longer needed
+    finishRefill('POOL-2');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockDeleteSimulator).toHaveBeenCalledWith('POOL-2');
+    expect(pool.getStatus()[0]).toMatchObject({ idle: 1, warming: 0, checkedOut: 0 });
+    expect(pool.checkout('iPhone 16 Pro')).toBe(udid);
+  });
+
+  it('should delete released simulators beyond the idle limit', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 1 }], refill: 'none' });
+    await pool.warm();
+
+    await pool.release('EXTRA', 'iPhone 16 Pro');
+
+    expect(mockEraseSimulator).not.toHaveBeenCalled();
+    expect(mockDeleteSimulator).toHaveBeenCalledWith('EXTRA');
+  });
+
+  it('should delete released simulators that fail to recycle', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 1 }], refill: 'none' });
+    mockEraseSimulator.mockRejectedValue(new Error('erase failed'));
+
+    await pool.release('BROKEN', 'iPhone 16 Pro');
+
+    expect(mockDeleteSimulator).toHaveBeenCalledWith('BROKEN');
+    expect(pool.getStatus()[0]).toMatchObject({ idle: 0 });
+  });
+
+  it('should delete idle simulators and stop refilling when drained', async () => {
+    const pool = new SimulatorPool({ sizes: [{ deviceType: 'iPhone 16 Pro', count: 2 }], refill: 'eager' });
+    await pool.warm();
+
+    await pool.drain();
+
+    expect(mockDeleteSimulator).toHaveBeenCalledTimes(2);
+    expect(pool.checkout('iPhone 16 Pro')).toBeUndefined();
+    expect(mockCreateSimulator).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,330 @@
+import { logger } from '../utils/logger.js';
+import {
+  createSimulator,
+  bootSimulator,
+  shutdownSimulator,
+  eraseSimulator,
+  deleteSimulator,
+  resolveRuntime,
+} from './simctl.js';
+
+export type PoolRefillMode = 'eager' | 'none';
+
+export interface PoolSize {
+  deviceType: string;
+  /** Runtime name, version or identifier (defaults to the simctl default runtime) */
+  runtime?: string;
+  count: number;
+}
+
+export interface SimulatorPoolConfig {
+  /** Number of warm simulators to keep ready per device type and runtime */
+  sizes: PoolSize[];
+  /** Maximum idle simulators kept per device type (defaults to the pool size) */
+  maxIdle?: number;
+  /** eager: replace checked-out simulators immediately; none: only reuse returned ones */
+  refill: PoolRefillMode;
+}
+
+export interface PoolStatus {
+  deviceType: string;
+  runtime?: string;
+  size: number;
+  idle: number;
+  checkedOut: number;
+  warming: number;
+}
+
+interface PoolEntry {
+  deviceType: string;
+  runtime?: string;
+  size: number;
+  idle: string[];
+  checkedOut: Set<string>;
+  warming: number;
+}
+
+/**
+ * Parse a pool specification such as "iPhone 16 Pro=2,iPad Air@iOS 17.5=1".
+ * A device type without a count gets one warm simulator; without "@runtime"
+ * the simctl default runtime is used.
+ *
+ * @throws {Error} If a count is not a positive integer
+ */
+export function parsePoolSpec(spec: string): PoolSize[] {
+  const sizes: PoolSize[] = [];
+
+  for (const part of spec.split(',')) {
+    const trimmed = part.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const separator = trimmed.lastIndexOf('=');
+    const device = separator === -1 ? trimmed : trimmed.substring(0, separator);
+    const [deviceType, runtime] = device.split('@').map((value) => value.trim());
+    const countValue = separator === -1 ? '1' : trimmed.substring(separator + 1).trim();
+    const count = Number(countValue);
+
+    if (!deviceType || runtime === '' || !Number.isInteger(count) || count < 1) {
+      throw new Error(
+        `Invalid pool entry "${trimmed}". Expected "<device type>[@<runtime>]=<count>" with a positive count, ` +
+        'e.g. "iPhone 16 Pro=2" or "iPhone 16 Pro@iOS 18.0=2"'
+      );
+    }
+
+    sizes.push({ deviceType, runtime, count });
+  }
+
+  return sizes;
+}
+
+/**
+ * Pool of pre-created, pre-booted simulators that sessions can check out instantly.
+ * Returned simulators are erased and kept for the next session instead of being deleted.
+ */
+export class SimulatorPool {
+  private entries: Map<string, PoolEntry> = new Map();
+  private recycling: Set<string> = new Set();
+  private booting: Set<string> = new Set();
+  private readonly maxIdle?: number;
+  private readonly refill: PoolRefillMode;
+  private draining = false;
+
+  constructor(config: SimulatorPoolConfig) {
+    this.maxIdle = config.maxIdle;
+    this.refill = config.refill;
+
+    for (const { deviceType, runtime, count } of config.sizes) {
+      this.entries.set(this.key(deviceType, runtime), {
+        deviceType,
+        runtime,
+        size: count,
+        idle: [],
+        checkedOut: new Set(),
+        warming: 0,
+      });
+    }
+  }
+
+  private key(deviceType: string, runtime?: string): string {
+    return `${deviceType.trim().toLowerCase()}@${runtime?.trim().toLowerCase() ?? ''}`;
+  }
+
+  private maxIdleFor(entry: PoolEntry): number {
+    return this.maxIdle ?? entry.size;
+  }
+
+  /**
+   * Whether the pool keeps simulators of this device type and runtime.
+   */
+  handles(deviceType: string, runtime?: string): boolean {
+    return this.entries.has(this.key(deviceType, runtime));
+  }
+
+  /**
+   * Create and boot simulators until every device type reaches its pool size.
+   */
+  async warm(): Promise<void> {
+    await this.resolveRuntimes();
+    await Promise.all(Array.from(this.entries.values()).map((entry) => this.fill(entry)));
+  }
+
+  /**
+   * Re-key entries by runtime name, so "18.0" in the pool spec matches sessions
+   * that asked for "iOS 18.0". Entries with an unknown runtime are dropped.
+   */
+  private async resolveRuntimes(): Promise<void> {
+    const resolved: Map<string, PoolEntry> = new Map();
+
+    for (const entry of this.entries.values()) {
+      if (entry.runtime) {
+        try {
+          entry.runtime = (await resolveRuntime(entry.runtime)).name;
+        } catch (error) {
+          logger.error('Skipping pool entry with invalid runtime', {
+            deviceType: entry.deviceType,
+            runtime: entry.runtime,
+            error: String(error),
+          });
+          continue;
+        }
+      }
+      resolved.set(this.key(entry.deviceType, entry.runtime), entry);
+    }
+
+    this.entries = resolved;
+  }
+
+  private async fill(entry: PoolEntry): Promise<void> {
+    const missing = entry.size - entry.idle.length - entry.warming;
+    if (missing <= 0 || this.draining) {
+      return;
+    }
+
+    logger.info('Warming simulator pool', {
+      deviceType: entry.deviceType,
+      runtime: entry.runtime,
+      count: missing,
+    });
+
+    const creations: Array<Promise<void>> = [];
+    for (let i = 0; i < missing; i++) {
+      creations.push(this.addSimulator(entry));
+    }
+    await Promise.all(creations);
+  }
+
+  private async addSimulator(entry: PoolEntry): Promise<void> {
+    entry.warming++;
+    let udid: string | undefined;
+    try {
+      udid = await createSimulator(entry.deviceType, entry.runtime);
+      this.booting.add(udid);
+      await bootSimulator(udid);
+
+      if (this.draining) {
+        await this.destroy(udid);
+        return;
+      }
+
+      // A returned simulator finished recycling first and already took this slot
+      if (entry.idle.length >= entry.size) {
+        logger.info('Pool already refilled, deleting new simulator', { deviceType: entry.deviceType, udid });
+        await this.destroy(udid);
+        return;
+      }
+
+      entry.idle.push(udid);
+      logger.debug('Pool simulator ready', { deviceType: entry.deviceType, udid });
+    } catch (error) {
+      logger.error('Failed to warm pool simulator', {
+        deviceType: entry.deviceType,
+        error: String(error),
+      });
+    } finally {
+      entry.warming--;
+      if (udid) {
+        this.booting.delete(udid);
+      }
+    }
+  }
+
+  /**
+   * Take a warm simulator for a session.
+   *
+   * @returns UDID of a booted simulator, or undefined if none is idle for this device type
+   */
+  checkout(deviceType: string, runtime?: string): string | undefined {
+    const entry = this.entries.get(this.key(deviceType, runtime));
+    if (!entry) {
+      return undefined;
+    }
+
+    const udid = entry.idle.shift();
+    if (udid) {
+      entry.checkedOut.add(udid);
+      logger.info('Simulator checked out of pool', {
+        deviceType,
+        runtime,
+        udid,
+        idleLeft: entry.idle.length,
+      });
+    }
+
+    if (this.refill === 'eager') {
+      this.fill(entry).catch((error: unknown) => {
+        logger.error('Failed to refill simulator pool', { deviceType, error: String(error) });
+      });
+    }
+
+    return udid;
+  }
+
+  /**
+   * Return a simulator to the pool. It is erased and rebooted so the next session
+   * gets a clean device, or deleted if the pool already has enough idle simulators.
+   * Simulators still being created by an eager refill do not count towards the idle
+   * limit; whichever of the two is ready last is deleted.
+   */
+  async release(udid: string, deviceType: string, runtime?: string): Promise<void> {
+    const entry = this.entries.get(this.key(deviceType, runtime));
+    entry?.checkedOut.delete(udid);
+
+    if (!entry || this.draining || entry.idle.length >= this.maxIdleFor(entry)) {
+      logger.info('Pool full, deleting returned simulator', { deviceType, udid });
+      await this.destroy(udid);
+      return;
+    }
+
+    this.recycling.add(udid);
+    try {
+      await shutdownSimulator(udid);
+      await eraseSimulator(udid);
+      await bootSimulator(udid);
+
+      if (entry.idle.length >= this.maxIdleFor(entry)) {
+        logger.info('Pool full, deleting returned simulator', { deviceType, udid });
+        await this.destroy(udid);
+        return;
+      }
+
+      entry.idle.push(udid);
+      logger.info('Simulator returned to pool', { deviceType, udid, idle: entry.idle.length });
+    } catch (error) {
+      logger.warn('Failed to recycle pool simulator, deleting it', { udid, error: String(error) });
+      await this.destroy(udid);
+    } finally {
+      this.recycling.delete(udid);
+    }
+  }
+
+  private async destroy(udid: string): Promise<void> {
+    await shutdownSimulator(udid);
+    try {
+      await deleteSimulator(udid);
+    } catch (error) {
+      logger.warn('Failed to delete pool simulator', { udid, error: String(error) });
+    }
+  }
+
+  /**
+   * UDIDs of every simulator the pool is responsible for (booting, idle, checked out or recycling).
+   */
+  getOwnedUdids(): string[] {
+    const owned = new Set<string>([...this.booting, ...this.recycling]);
+    for (const entry of this.entries.values()) {
+      entry.idle.forEach((udid) => owned.add(udid));
+      entry.checkedOut.forEach((udid) => owned.add(udid));
+    }
+    return Array.from(owned);
+  }
+
+  getStatus(): PoolStatus[] {
+    return Array.from(this.entries.values()).map((entry) => ({
+      deviceType: entry.deviceType,
+      runtime: entry.runtime,
+      size: entry.size,
+      idle: entry.idle.length,
+      checkedOut: entry.checkedOut.size,
+      warming: entry.warming,
+    }));
+  }
+
+  /**
+   * Delete all idle simulators and stop refilling. Checked-out simulators are left
+   * to their sessions.
+   */
+  async drain(): Promise<void> {
+    this.draining = true;
+
+    for (const entry of this.entries.values()) {
+      const idle = entry.idle.splice(0);
+      for (const udid of idle) {
+        await this.destroy(udid);
+      }
+    }
+
+    logger.info('Simulator pool drained');
+  }
+}
@@ -0,0 +1,110 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import type { ExecResult } from '../utils/exec.js';
+
+const mockExecFile = jest.fn<(command: string, args: string[]) => Promise<ExecResult>>();
+
+jest.unstable_mockModule('../utils/exec.js', () => ({
+  execFile: mockExecFile,
+}));
+
+const { parseMcpSimulatorCreatedAt, findOrphanedSimulators, reapOrphanedSimulators } =
+  await import('./reaper.js');
+
+function devicesOutput(devices: Array<{ udid: string; name: string; state?: string }>): ExecResult {
+  return {
+    stdout: JSON.stringify({
+      devices: {
+        'com.apple.CoreSimulator.SimRuntime.iOS-18-0': devices.map((d) => ({
+          udid: d.udid,
+          name: d.name,
+          state: d.state ?? 'Booted',
+          deviceTypeIdentifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro',
+        })),
+      },
+    }),
+    stderr: '',
+    exitCode: 0,
+  };
+}
+
+describe('reaper', () => {
+  const hourAgo = Date.now() - 60 * 60000;
+  const justNow = Date.now() - 30000;
+
+  beforeEach(() => {
+    mockExecFile.mockReset();
+  });
+
+  describe('parseMcpSimulatorCreatedAt', () => {
+    it('should parse the creation time from MCP simulator names', () => {
+      expect(parseMcpSimulatorCreatedAt('MCP-1700000000000')?.getTime()).toBe(1700000000000);
+    });
+
+    it('should ignore simulators not created by the server', () => {
+      expect(parseMcpSimulatorCreatedAt('iPhone 16 Pro')).toBeUndefined();
+      expect(parseMcpSimulatorCreatedAt('MCP-my-phone')).toBeUndefined();
+    });
+  });
+
+  describe('findOrphanedSimulators', () => {
+    it('should report unowned MCP simulators older than the grace period', async () => {
+      mockExecFile.mockResolvedValue(devicesOutput([
+        { udid: 'OWNED', name: `MCP-${String(hourAgo)}` },
+        { udid: 'ORPHAN', name: `MCP-${String(hourAgo)}`, state: 'Shutdown' },
+        { udid: 'RECENT', name: `MCP-${String(justNow)}` },
+        { udid: 'PERSONAL', name: 'iPhone 16 Pro' },
+      ]));
+
+      const { orphans, tooRecent } = await findOrphanedSimulators(new Set(['OWNED']), 10);
+
+      expect(orphans.map((o) => o.udid)).toEqual(['ORPHAN']);
+      expect(orphans[0].ageMinutes).toBeGreaterThanOrEqual(59);
+      expect(orphans[0].runtime).toBe('com.apple.CoreSimulator.SimRuntime.iOS-18-0');
+      expect(tooRecent.map((o) => o.udid)).toEqual(['RECENT']);
+    });
+  });
+
+  describe('reapOrphanedSimulators', () => {
+    it('should not delete anything on a dry run', async () => {
+      mockExecFile.mockResolvedValue(devicesOutput([
+        { udid: 'ORPHAN', name: `MCP-${String(hourAgo)}` },
+      ]));
+
+      const report = await reapOrphanedSimulators(new Set(), { graceMinutes: 10, dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.orphans).toHaveLength(1);
+      expect(report.reaped).toEqual([]);
+      expect(mockExecFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should shut down and delete orphaned simulators', async () => {
+      mockExecFile
+        .mockResolvedValueOnce(devicesOutput([
+          { udid: 'ORPHAN', name: `MCP-${String(hourAgo)}` },
+        ]))
+        .mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 });
+
+      const report = await reapOrphanedSimulators(new Set(), { graceMinutes: 10 });
+
+      expect(report.reaped).toEqual(['ORPHAN']);
+      expect(mockExecFile).toHaveBeenCalledWith('xcrun', ['simctl', 'shutdown', 'ORPHAN']);
+      expect(mockExecFile).toHaveBeenCalledWith('xcrun', ['simctl', 'delete', 'ORPHAN']);
+    });
+
+    it('should record simulators that fail to delete', async () => {
+      mockExecFile
+        .mockResolvedValueOnce(devicesOutput([
+          { udid: 'ORPHAN', name: `MCP-${String(hourAgo)}` },
+        ]))
+        .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 })
+        .mockResolvedValueOnce({ stdout: '', stderr: 'device busy', exitCode: 1 });
+
+      const report = await reapOrphanedSimulators(new Set(), { graceMinutes: 10 });
+
+      expect(report.reaped).toEqual([]);
+      expect(report.failed).toHaveLength(1);
+      expect(report.failed[0].error).toContain('device busy');
+    });
+  });
+});
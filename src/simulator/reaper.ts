@@ -0,0 +1,140 @@
+import { logger } from '../utils/logger.js';
+import { MCP_SIMULATOR_PREFIX, listDevices, shutdownSimulator, deleteSimulator } from './simctl.js';
+
+export interface OrphanedSimulator {
+  udid: string;
+  name: string;
+  state: string;
+  runtime: string;
+  createdAt: string;
+  ageMinutes: number;
+}
+
+export interface ReapOptions {
+  graceMinutes: number;
+  dryRun?: boolean;
+}
+
+export interface ReapReport {
+  dryRun: boolean;
+  graceMinutes: number;
+  orphans: OrphanedSimulator[];
+  tooRecent: OrphanedSimulator[];
+  reaped: string[];
+  failed: Array<{ udid: string; error: string }>;
+}
+
+const MCP_SIMULATOR_NAME = new RegExp(`^${MCP_SIMULATOR_PREFIX}(\\d+)$`);
+
+/**
+ * Extract the creation time from the name of a simulator created by this server.
+ *
+ * @returns Creation time, or undefined if the name was not generated by createSimulator()
+ */
+export function parseMcpSimulatorCreatedAt(name: string): Date | undefined {
+  const match = MCP_SIMULATOR_NAME.exec(name);
+  if (!match) {
+    return undefined;
+  }
+
+  const createdAt = new Date(parseInt(match[1], 10));
+  return isNaN(createdAt.getTime()) ? undefined : createdAt;
+}
+
+/**
+ * Find simulators created by this server that are not owned by any live session.
+ *
+ * Simulators younger than the grace period are reported separately and never reaped,
+ * since they may still be in the middle of being handed to a session.
+ *
+ * @param ownedUdids - UDIDs of simulators currently in use by the server
+ * @param graceMinutes - Minimum age before an unowned simulator counts as orphaned
+ */
+export async function findOrphanedSimulators(
+  ownedUdids: Set<string>,
+  graceMinutes: number
+): Promise<{ orphans: OrphanedSimulator[]; tooRecent: OrphanedSimulator[] }> {
+  const devices = await listDevices();
+  const now = Date.now();
+
+  const orphans: OrphanedSimulator[] = [];
+  const tooRecent: OrphanedSimulator[] = [];
+
+  for (const device of devices) {
+    if (ownedUdids.has(device.udid)) {
+      continue;
+    }
+
+    const createdAt = parseMcpSimulatorCreatedAt(device.name);
+    if (!createdAt) {
+      continue;
+    }
+
+    const ageMinutes = Math.floor((now - createdAt.getTime()) / 60000);
+    const candidate: OrphanedSimulator = {
+      udid: device.udid,
+      name: device.name,
+      state: device.state,
+      runtime: device.runtime,
+      createdAt: createdAt.toISOString(),
+      ageMinutes,
+    };
+
+    if (ageMinutes < graceMinutes) {
+      tooRecent.push(candidate);
+    } else {
+      orphans.push(candidate);
+    }
+  }
+
+  return { orphans, tooRecent };
+}
+
+/**
+ * Shut down and delete orphaned simulators created by this server.
+ *
+ * @param ownedUdids - UDIDs of simulators currently in use by the server
+ * @param options - Grace period and dry-run flag (dry runs only report)
+ */
+export async function reapOrphanedSimulators(
+  ownedUdids: Set<string>,
+  options: ReapOptions
+): Promise<ReapReport> {
+  const dryRun = options.dryRun ?? false;
+  const { orphans, tooRecent } = await findOrphanedSimulators(ownedUdids, options.graceMinutes);
+
+  const report: ReapReport = {
+    dryRun,
+    graceMinutes: options.graceMinutes,
+    orphans,
+    tooRecent,
+    reaped: [],
+    failed: [],
+  };
+
+  if (dryRun || orphans.length === 0) {
+    logger.debug('Orphaned simulator scan complete', {
+      dryRun,
+      orphans: orphans.length,
+      tooRecent: tooRecent.length,
+    });
+    return report;
+  }
+
+  for (const orphan of orphans) {
+    try {
+      await shutdownSimulator(orphan.udid);
+      await deleteSimulator(orphan.udid);
+      report.reaped.push(orphan.udid);
+    } catch (error) {
+      report.failed.push({ udid: orphan.udid, error: String(error) });
+    }
+  }
+
+  logger.info('Reaped orphaned simulators', {
+    reaped: report.reaped.length,
+    failed: report.failed.length,
+  });
+
+  return report;
+}
@@ -15,8 +15,55 @@ const {
   shutdownSimulator,
   deleteSimulator,
   getSimulatorStatus,
+  getContentSize,
+  setContentSize,
+  listDevices,
+  findDevice,
+  listRuntimes,
+  resolveRuntime,
 } = await import('./simctl.js');
 
+const runtimesOutput: ExecResult = {
+  stdout: JSON.stringify({
+    runtimes: [
+      {
+        name: 'iOS 17.5',
+        identifier: 'com.apple.CoreSimulator.SimRuntime.iOS-17-5',
+        version: '17.5',
+        platform: 'iOS',
+        isAvailable: true,
+        supportedDeviceTypes: [
+          { name: 'iPhone 15', identifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-15' },
+          { name: 'iPhone 16 Pro', identifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro' },
+        ],
+      },
+      {
+        name: 'iOS 18.0',
+        identifier: 'com.apple.CoreSimulator.SimRuntime.iOS-18-0',
+        version: '18.0',
+        platform: 'iOS',
+        isAvailable: true,
+      },
+      {
+        name: 'watchOS 11.0',
+        identifier: 'com.apple.CoreSimulator.SimRuntime.watchOS-11-0',
+        version: '11.0',
+        platform: 'watchOS',
+        isAvailable: true,
+      },
+      {
+        name: 'iOS 16.4',
+        identifier: 'com.apple.CoreSimulator.SimRuntime.iOS-16-4',
+        version: '16.4',
+        platform: 'iOS',
+        isAvailable: false,
+      },
+    ],
+  }),
+  stderr: '',
+  exitCode: 0,
+};
+
 describe('simctl', () => {
   beforeEach(() => {
     mockExecFile.mockClear();
@@ -108,6 +155,89 @@ describe('simctl', () => {
       expect(udid).toBe('ABCD-1234-EFGH-5678');
       expect(mockExecFile).toHaveBeenCalledTimes(2);
     });
+
+    it('should pass the runtime identifier when a runtime is given', async () => {
+      mockExecFile
+        .mockResolvedValueOnce({
+          stdout: JSON.stringify({
+            devicetypes: [
+              { name: 'iPhone 16 Pro', identifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro' },
+            ],
+          }),
+          stderr: '',
+          exitCode: 0,
+        })
+        .mockResolvedValueOnce(runtimesOutput)
+        .mockResolvedValueOnce({
+          stdout: 'ABCD-1234-EFGH-5678',
+          stderr: '',
+          exitCode: 0,
+        });
+
+      await createSimulator('iPhone 16 Pro', 'iOS 17.5');
+
+      expect(mockExecFile).toHaveBeenLastCalledWith(
+        'xcrun',
+        [
+          'simctl',
+          'create',
+          expect.stringMatching(/^MCP-\d+$/),
+          'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro',
+          'com.apple.CoreSimulator.SimRuntime.iOS-17-5',
+        ],
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('listRuntimes', () => {
+    it('should list iOS runtimes with their supported device types', async () => {
+      mockExecFile.mockResolvedValue(runtimesOutput);
+
+      const runtimes = await listRuntimes();
+
+      expect(runtimes.map((rt) => rt.name)).toEqual(['iOS 17.5', 'iOS 18.0', 'iOS 16.4']);
+      expect(runtimes[0].supportedDeviceTypes).toEqual([
+        'com.apple.CoreSimulator.SimDeviceType.iPhone-15',
+        'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro',
+      ]);
+    });
+
+    it('should throw error on failure', async () => {
+      mockExecFile.mockResolvedValue({
+        stdout: '',
+        stderr: 'command failed',
+        exitCode: 1,
+      });
+
+      await expect(listRuntimes()).rejects.toThrow('Failed to list runtimes');
+    });
+  });
+
+  describe('resolveRuntime', () => {
+    it('should match by name, version or identifier', async () => {
+      mockExecFile.mockResolvedValue(runtimesOutput);
+
+      expect((await resolveRuntime('ios 18.0')).version).toBe('18.0');
+      expect((await resolveRuntime('17.5')).name).toBe('iOS 17.5');
+      expect((await resolveRuntime('com.apple.CoreSimulator.SimRuntime.iOS-18-0')).name).toBe('iOS 18.0');
+    });
+
+    it('should list valid choices for unknown runtimes', async () => {
+      mockExecFile.mockResolvedValue(runtimesOutput);
+
+      await expect(resolveRuntime('iOS 12.0')).rejects.toThrow(
+        'Runtime not found: iOS 12.0. Available: iOS 17.5, iOS 18.0'
+      );
+    });
+
+    it('should reject unavailable runtimes', async () => {
+      mockExecFile.mockResolvedValue(runtimesOutput);
+
+      await expect(resolveRuntime('iOS 16.4')).rejects.toThrow(
+        'Runtime iOS 16.4 is installed but not available. Available: iOS 17.5, iOS 18.0'
+      );
+    });
   });
 
   describe('bootSimulator', () => {
@@ -192,6 +322,41 @@ describe('simctl', () => {
     });
   });
 
+  describe('listDevices', () => {
+    it('should flatten devices across runtimes', async () => {
+      mockExecFile.mockResolvedValue({
+        stdout: JSON.stringify({
+          devices: {
+            'iOS 17.0': [
+              { udid: 'UDID-1', name: 'iPhone 15', state: 'Shutdown', deviceTypeIdentifier: 'com.apple.iPhone-15' },
+            ],
+            'iOS 18.0': [
+              { udid: 'UDID-2', name: 'MCP-1700000000000', state: 'Booted', deviceTypeIdentifier: 'com.apple.iPhone-16-Pro' },
+            ],
+          },
+        }),
+        stderr: '',
+        exitCode: 0,
+      });
+
+      const devices = await listDevices();
+
+      expect(devices).toHaveLength(2);
+      expect(devices[0]).toMatchObject({ udid: 'UDID-1', runtime: 'iOS 17.0' });
+      expect(devices[1]).toMatchObject({ udid: 'UDID-2', runtime: 'iOS 18.0', state: 'Booted' });
+    });
+
+    it('should throw error on failure', async () => {
+      mockExecFile.mockResolvedValue({
+        stdout: '',
+        stderr: 'command failed',
+        exitCode: 1,
+      });
+
+      await expect(listDevices()).rejects.toThrow('Failed to list devices');
+    });
+  });
+
   describe('getSimulatorStatus', () => {
     it('should return simulator status', async () => {
       mockExecFile.mockResolvedValue({
@@ -220,4 +385,77 @@ describe('simctl', () => {
       await expect(getSimulatorStatus('NONEXISTENT')).rejects.toThrow('Simulator not found');
     });
   });
+
+  describe('getContentSize', () => {
+    it('should return the current text size', async () => {
+      mockExecFile.mockResolvedValue({ stdout: 'extra-large\n', stderr: '', exitCode: 0 });
+
+      expect(await getContentSize('TEST-UDID')).toBe('extra-large');
+      expect(mockExecFile).toHaveBeenCalledWith('xcrun', ['simctl', 'ui', 'TEST-UDID', 'content_size']);
+    });
+
+    it('should reject unknown text sizes', async () => {
+      mockExecFile.mockResolvedValue({ stdout: 'enormous\n', stderr: '', exitCode: 0 });
+
+      await expect(getContentSize('TEST-UDID')).rejects.toThrow('Unknown simulator text size: enormous');
+    });
+  });
+
+  describe('setContentSize', () => {
+    it('should set the text size', async () => {
+      mockExecFile.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 });
+
+      await setContentSize('TEST-UDID', 'accessibility-medium');
+
+      expect(mockExecFile).toHaveBeenCalledWith('xcrun', ['simctl', 'ui', 'TEST-UDID', 'content_size', 'accessibility-medium']);
+    });
+
+    it('should throw when simctl fails', async () => {
+      mockExecFile.mockResolvedValue({ stdout: '', stderr: 'Device not booted', exitCode: 1 });
+
+      await expect(setContentSize('TEST-UDID', 'small')).rejects.toThrow('Device not booted');
+    });
+  });
+
+  describe('findDevice', () => {
+    const devicesOutput = {
+      stdout: JSON.stringify({
+        devices: {
+          'iOS 17.0': [
+            { udid: 'UDID-1', name: 'iPhone 15', state: 'Shutdown', deviceTypeIdentifier: 'com.apple.iPhone-15' },
+          ],
+          'iOS 18.0': [
+            { udid: 'UDID-2', name: 'iPhone 15', state: 'Booted', deviceTypeIdentifier: 'com.apple.iPhone-15' },
+            { udid: 'UDID-3', name: 'My iPad', state: 'Shutdown', deviceTypeIdentifier: 'com.apple.iPad-Air' },
+          ],
+        },
+      }),
+      stderr: '',
+      exitCode: 0,
+    };
+
+    it('should find a simulator by UDID', async () => {
+      mockExecFile.mockResolvedValue(devicesOutput);
+
+      const device = await findDevice('udid-3');
+
+      expect(device).toMatchObject({ udid: 'UDID-3', name: 'My iPad' });
+    });
+
+    it('should prefer a booted simulator when names are shared', async () => {
+      mockExecFile.mockResolvedValue(devicesOutput);
+
+      const device = await findDevice('iphone 15');
+
+      expect(device).toMatchObject({ udid: 'UDID-2', state: 'Booted' });
+    });
+
+    it('should list available simulators when none match', async () => {
+      mockExecFile.mockResolvedValue(devicesOutput);
+
+      await expect(findDevice('iPhone 99')).rejects.toThrow(
+        /Simulator not found: iPhone 99\. Available: .*My iPad \[UDID-3\]/
+      );
+    });
+  });
 });
@@ -1,6 +1,39 @@
 import { execFile } from '../utils/exec.js';
 import { logger } from '../utils/logger.js';
-import { DeviceType, SimctlListOutput } from './types.js';
+import {
+  DeviceType,
+  Runtime,
+  SimctlListOutput,
+  SimctlRuntimesOutput,
+  SimulatorDevice,
+} from './types.js';
+
+/**
+ * Name prefix for simulators created by this server. The suffix is the creation
+ * time in milliseconds, which lets the orphan reaper tell how old a simulator is.
+ */
+export const MCP_SIMULATOR_PREFIX = 'MCP-';
+
+/**
+ * iOS Dynamic Type text sizes accepted by `simctl ui content_size`, smallest first.
+ * Apps that honor Dynamic Type (Flutter does by default) scale their text by it.
+ */
+export const CONTENT_SIZE_CATEGORIES = [
+  'extra-small',
+  'small',
+  'medium',
+  'large',
+  'extra-large',
+  'extra-extra-large',
+  'extra-extra-extra-large',
+  'accessibility-medium',
+  'accessibility-large',
+  'accessibility-extra-large',
+  'accessibility-extra-extra-large',
+  'accessibility-extra-extra-extra-large',
+] as const;
+
+export type ContentSizeCategory = (typeof CONTENT_SIZE_CATEGORIES)[number];
 
 export async function listDeviceTypes(): Promise<DeviceType[]> {
   logger.debug('Listing device types');
@@ -49,22 +82,94 @@ export async function getDeviceTypeIdentifier(deviceName: string): Promise<strin
   return match.identifier;
 }
 
-export async function createSimulator(deviceType: string): Promise<string> {
-  logger.info('Creating simulator', { deviceType });
+export async function listRuntimes(): Promise<Runtime[]> {
+  logger.debug('Listing runtimes');
+
+  const result = await execFile('xcrun', ['simctl', 'list', 'runtimes', '-j']);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to list runtimes: ${result.stderr}`);
+  }
+
+  let output: SimctlRuntimesOutput;
+  try {
+    output = JSON.parse(result.stdout) as SimctlRuntimesOutput;
+  } catch (error) {
+    throw new Error(
+      `Failed to parse simctl runtimes output: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Output preview: ${result.stdout.substring(0, 200)}`
+    );
+  }
+
+  const runtimes = (output.runtimes || [])
+    .filter((rt) => (rt.platform ?? rt.name.split(' ')[0]) === 'iOS')
+    .map((rt) => ({
+      name: rt.name,
+      identifier: rt.identifier,
+      version: rt.version,
+      isAvailable: rt.isAvailable,
+      supportedDeviceTypes: rt.supportedDeviceTypes?.map((dt) => dt.identifier),
+    }));
+
+  logger.debug('Found runtimes', { count: runtimes.length });
+  return runtimes;
+}
+
+/**
+ * Find an installed, available iOS runtime by name ("iOS 18.0"), version ("18.0")
+ * or identifier ("com.apple.CoreSimulator.SimRuntime.iOS-18-0").
+ *
+ * @throws {Error} If the runtime is unknown or unavailable, listing the valid choices
+ */
+export async function resolveRuntime(runtime: string): Promise<Runtime> {
+  const runtimes = await listRuntimes();
+  const wanted = runtime.trim().toLowerCase();
+
+  const match = runtimes.find((rt) =>
+    rt.identifier.toLowerCase() === wanted ||
+    rt.name.toLowerCase() === wanted ||
+    rt.version === wanted
+  );
+
+  const available = runtimes.filter((rt) => rt.isAvailable);
+  const availableNames = available.map((rt) => rt.name).join(', ') || 'none';
+
+  if (!match) {
+    throw new Error(`Runtime not found: ${runtime}. Available: ${availableNames}`);
+  }
+
+  if (!match.isAvailable) {
+    throw new Error(
+      `Runtime ${match.name} is installed but not available. Available: ${availableNames}`
+    );
+  }
+
+  return match;
+}
+
+export async function getRuntimeIdentifier(runtime: string): Promise<string> {
+  const match = await resolveRuntime(runtime);
+  return match.identifier;
+}
+
+export async function createSimulator(deviceType: string, runtime?: string): Promise<string> {
+  logger.info('Creating simulator', { deviceType, runtime });
 
   const deviceTypeId = await getDeviceTypeIdentifier(deviceType);
+  const runtimeId = runtime ? await getRuntimeIdentifier(runtime) : undefined;
 
-  const simulatorName = `MCP-${String(Date.now())}`;
+  const simulatorName = `${MCP_SIMULATOR_PREFIX}${String(Date.now())}`;
 
   const result = await execFile(
     'xcrun',
-    ['simctl', 'create', simulatorName, deviceTypeId],
+    ['simctl', 'create', simulatorName, deviceTypeId, ...(runtimeId ? [runtimeId] : [])],
     { timeout: 30000 }
   );
 
   if (result.exitCode !== 0) {
     throw new Error(
-      `Failed to create simulator "${simulatorName}" with device type "${deviceType}": ${result.stderr}. ` +
+      `Failed to create simulator "${simulatorName}" with device type "${deviceType}"` +
+      `${runtime ? ` and runtime "${runtime}"` : ''}: ${result.stderr}. ` +
       'This may indicate insufficient disk space or Xcode/CoreSimulator issues. ' +
       'Try running "xcrun simctl list devicetypes" to verify available device types.'
     );
@@ -119,7 +224,58 @@ export async function deleteSimulator(udid: string): Promise<void> {
   logger.info('Simulator deleted', { udid });
 }
 
-export async function getSimulatorStatus(udid: string): Promise<string> {
+export async function eraseSimulator(udid: string): Promise<void> {
+  logger.info('Erasing simulator', { udid });
+
+  const result = await execFile('xcrun', ['simctl', 'erase', udid], { timeout: 60000 });
+
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `Failed to erase simulator (UDID: ${udid}): ${result.stderr}. ` +
+      'The simulator must be shut down before it can be erased.'
+    );
+  }
+
+  logger.info('Simulator erased', { udid });
+}
+
+/**
+ * Read the Dynamic Type text size of a booted simulator.
+ *
+ * @throws {Error} If simctl fails or reports an unknown size
+ */
+export async function getContentSize(udid: string): Promise<ContentSizeCategory> {
+  const result = await execFile('xcrun', ['simctl', 'ui', udid, 'content_size']);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to read simulator text size: ${result.stderr}`);
+  }
+
+  const size = result.stdout.trim();
+  const category = CONTENT_SIZE_CATEGORIES.find((candidate) => candidate === size);
+  if (!category) {
+    throw new Error(`Unknown simulator text size: ${size}`);
+  }
+  return category;
+}
+
+/**
+ * Change the Dynamic Type text size of a booted simulator. Running apps pick up
+ * the change immediately.
+ */
+export async function setContentSize(udid: string, size: ContentSizeCategory): Promise<void> {
+  logger.info('Setting simulator text size', { udid, size });
+
+  const result = await execFile('xcrun', ['simctl', 'ui', udid, 'content_size', size]);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to set simulator text size: ${result.stderr}`);
+  }
+}
+
+export async function listDevices(): Promise<SimulatorDevice[]> {
+  logger.debug('Listing simulator devices');
+
   const result = await execFile('xcrun', ['simctl', 'list', 'devices', '-j']);
 
   if (result.exitCode !== 0) {
@@ -138,12 +294,52 @@ export async function getSimulatorStatus(udid: string): Promise<string> {
 
   const devices = output.devices || {};
 
-  for (const runtime of Object.keys(devices)) {
-    const device = devices[runtime].find((d) => d.udid === udid);
-    if (device) {
-      return device.state;
-    }
+  return Object.keys(devices).flatMap((runtime) =>
+    devices[runtime].map((device) => ({ ...device, runtime }))
+  );
+}
+
+export async function getSimulatorStatus(udid: string): Promise<string> {
+  const devices = await listDevices();
+
+  const device = devices.find((d) => d.udid === udid);
+  if (device) {
+    return device.state;
   }
 
   throw new Error(`Simulator not found: ${udid}`);
 }
+
+/**
+ * Find an existing simulator by UDID or device name (case-insensitive).
+ * When several simulators share a name, a booted one is preferred.
+ *
+ * @throws {Error} If no simulator matches, or the name matches several booted simulators
+ */
+export async function findDevice(udidOrName: string): Promise<SimulatorDevice> {
+  const devices = await listDevices();
+  const wanted = udidOrName.trim().toLowerCase();
+
+  const byUdid = devices.find((d) => d.udid.toLowerCase() === wanted);
+  if (byUdid) {
+    return byUdid;
+  }
+
+  const byName = devices.filter((d) => d.name.toLowerCase() === wanted);
+  const booted = byName.filter((d) => d.state === 'Booted');
+  const candidates = booted.length > 0 ? booted : byName;
+
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  if (candidates.length > 1) {
+    throw new Error(
+      `Simulator name "${udidOrName}" is ambiguous. Use one of these UDIDs instead: ` +
+      candidates.map((d) => `${d.udid} (${d.state})`).join(', ')
+    );
+  }
+
+  const available = devices.map((d) => `${d.name} [${d.udid}] (${d.state})`).join(', ');
+  throw new Error(`Simulator not found: ${udidOrName}. Available: ${available || 'none'}`);
+}
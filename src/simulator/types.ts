@@ -3,11 +3,35 @@ export interface DeviceType {
   identifier: string;
 }
 
+export interface Runtime {
+  name: string;
+  identifier: string;
+  version: string;
+  isAvailable: boolean;
+  /** Identifiers of the device types this runtime can simulate */
+  supportedDeviceTypes?: string[];
+}
+
 export interface SimulatorDevice {
   udid: string;
   name: string;
   state: string;
   deviceTypeIdentifier: string;
+  runtime: string;
+}
+
+export interface SimctlRuntimesOutput {
+  runtimes?: Array<{
+    name: string;
+    identifier: string;
+    version: string;
+    platform?: string;
+    isAvailable: boolean;
+    supportedDeviceTypes?: Array<{
+      name: string;
+      identifier: string;
+    }>;
+  }>;
 }
 
 export interface SimctlListOutput {
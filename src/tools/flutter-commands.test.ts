@@ -1,11 +1,17 @@
 import { jest, describe, it, expect, beforeEach } from '@jest/globals';
 import type { Session } from '../session/types.js';
 import type { SpawnedProcess, ExecResult } from '../utils/exec.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 const mockGetSession = jest.fn<() => Session | undefined>();
 const mockGetPreBuildScript = jest.fn<() => string | undefined>();
 const mockGetPostBuildScript = jest.fn<() => string | undefined>();
 const mockUpdateSessionActivity = jest.fn<() => void>();
+const mockRecordRunOptions = jest.fn<() => void>();
+const mockResolveSessionPath = jest.fn<(sessionId: string, filePath: string, argumentName: string) => string>();
+const mockGetVmServiceProxyToken = jest.fn<(sessionId: string) => string>();
 const mockSpawnStreaming = jest.fn<() => SpawnedProcess>();
 const mockExec = jest.fn<() => Promise<ExecResult>>();
 const mockExecFile = jest.fn<() => Promise<ExecResult>>();
@@ -16,6 +22,9 @@ jest.unstable_mockModule('../session/manager.js', () => ({
     getPreBuildScript: mockGetPreBuildScript,
     getPostBuildScript: mockGetPostBuildScript,
     updateSessionActivity: mockUpdateSessionActivity,
+    recordRunOptions: mockRecordRunOptions,
+    resolveSessionPath: mockResolveSessionPath,
+    getVmServiceProxyToken: mockGetVmServiceProxyToken,
   },
 }));
 
@@ -27,21 +36,47 @@ jest.unstable_mockModule('../utils/exec.js', () => ({
 
 const {
   handleFlutterRun,
+  handleFlutterAttach,
   handleFlutterStop,
   handleFlutterHotReload,
   handleFlutterHotRestart,
+  handleFlutterDebugCommand,
+  handleFlutterWidgetTree,
+  handleFlutterEvaluate,
+  handleFlutterStatus,
+  handleFlutterVmServiceInfo,
   handleFlutterLogs,
+  handleFlutterRunHistory,
   handleFlutterBuild,
   handleFlutterTest,
   handleFlutterClean,
 } = await import('./flutter-commands.js');
 
+/** Feed output to the stdout handler of the most recently spawned flutter process */
+function emitStdout(data: string): void {
+  const calls = mockSpawnStreaming.mock.calls as unknown as Array<
+    [string, string[], { onStdout: (chunk: string) => void }]
+  >;
+  calls[calls.length - 1][2].onStdout(data);
+}
+
+/** Report the exit of the most recently spawned flutter process */
+function emitExit(code: number): void {
+  const calls = mockSpawnStreaming.mock.calls as unknown as Array<
+    [string, string[], { onExit: (code: number | null, signal: string | null) => void }]
+  >;
+  calls[calls.length - 1][2].onExit(code, null);
+}
+
 describe('Flutter Command Tools', () => {
   beforeEach(() => {
     mockGetSession.mockClear();
     mockGetPreBuildScript.mockClear();
     mockGetPostBuildScript.mockClear();
     mockUpdateSessionActivity.mockClear();
+    mockRecordRunOptions.mockClear();
+    mockResolveSessionPath.mockReset();
+    mockGetVmServiceProxyToken.mockReturnValue('proxy-token');
     mockSpawnStreaming.mockClear();
     mockExec.mockClear();
     mockExecFile.mockClear();
@@ -92,6 +127,333 @@ describe('Flutter Command Tools', () => {
       expect(result.success).toBe(true);
       expect(result.pid).toBeGreaterThan(0);
       expect(result.message).toContain('Flutter process started');
+      expect(mockRecordRunOptions).toHaveBeenCalledWith('session-123', {
+        target: undefined,
+        flavor: undefined,
+        additionalArgs: undefined,
+      });
+    });
+
+    it('should wait for the app to attach when waitForReady is set', async () => {
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      });
+
+      const pending = handleFlutterRun({ sessionId: 'session-123', waitForReady: true });
+      await new Promise((resolve) => setImmediate(resolve));
+      emitStdout(
+        'Running Xcode build...\n' +
+        'Xcode build done.                                           42.1s\n' +
+        'A Dart VM Service on iPhone 16 Pro is available at: http://127.0.0.1:55123/AbCd=/\n' +
+        'Flutter run key commands.\n'
+      );
+      const result = await pending;
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('Flutter app attached');
+      expect(result.ready).toMatchObject({
+        ready: true,
+        status: 'running',
+        phase: 'attached',
+        vmServiceUri: 'http://127.0.0.1:55123/AbCd=/',
+        buildErrors: [],
+      });
+      expect(result.ready?.errorBlock).toBeUndefined();
+      expect(result.ready?.logTail).toContain('Flutter run key commands.');
+    });
+
+    it('should return the error block when startup fails', async () => {
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      });
+
+      const pending = handleFlutterRun({ sessionId: 'session-123', waitForReady: true });
+      await new Promise((resolve) => setImmediate(resolve));
+      emitStdout(
+        'Running Xcode build...\n' +
+        "lib/main.dart:12:3: Error: Expected ';' after this.\n" +
+        '  runApp(const MyApp())\n' +
+        'Error (Xcode): Flutter failed to compile the app\n' +
+        'Could not build the application for the simulator.\n' +
+        'Error launching application on iPhone 16 Pro.\n'
+      );
+      emitExit(1);
+      const result = await pending;
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Flutter run failed during phase "xcode-build" (exit code: 1)');
+      expect(result.ready).toMatchObject({
+        ready: false,
+        status: 'failed',
+        exitCode: 1,
+        buildErrors: [
+          "lib/main.dart:12:3: Error: Expected ';' after this.",
+          'Error (Xcode): Flutter failed to compile the app',
+        ],
+      });
+      expect(result.ready?.diagnostics).toEqual([
+        { severity: 'error', source: 'dart', file: 'lib/main.dart', line: 12, column: 3, message: "Expected ';' after this." },
+        { severity: 'error', source: 'xcode', message: 'Flutter failed to compile the app' },
+      ]);
+      expect(result.ready?.errorBlock?.split('\n')).toEqual([
+        "lib/main.dart:12:3: Error: Expected ';' after this.",
+        '  runApp(const MyApp())',
+        'Error (Xcode): Flutter failed to compile the app',
+        'Could not build the application for the simulator.',
+        'Error launching application on iPhone 16 Pro.',
+      ]);
+    });
+
+    it('should report a timeout while the app is still starting', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        mockGetSession.mockReturnValue({
+          id: 'session-123',
+          worktreePath: '/path/to/worktree',
+          simulatorUdid: 'UDID-123',
+          deviceType: 'iPhone 16 Pro',
+          createdAt: new Date(),
+          lastActivityAt: new Date(),
+        });
+
+        const pending = handleFlutterRun({ sessionId: 'session-123', waitForReady: true, readyTimeoutSeconds: 5 });
+        await new Promise((resolve) => setImmediate(resolve));
+        emitStdout('Running pod install...\n');
+        jest.advanceTimersByTime(5000);
+        const result = await pending;
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('still in phase "pod-install"');
+        expect(result.ready).toMatchObject({ ready: false, timedOut: true, status: 'starting' });
+        expect(result.ready?.errorBlock).toBeUndefined();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should relaunch with backoff after crashes and give up when attempts run out', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        mockGetSession.mockReturnValue({
+          id: 'session-123',
+          worktreePath: '/path/to/worktree',
+          simulatorUdid: 'UDID-123',
+          deviceType: 'iPhone 16 Pro',
+          createdAt: new Date(),
+          lastActivityAt: new Date(),
+        });
+
+        await handleFlutterRun({
+          sessionId: 'session-123',
+          restartPolicy: { maxAttempts: 2, backoffSeconds: 1 },
+        });
+        expect(mockRecordRunOptions).toHaveBeenCalledWith(
+          'session-123',
+          expect.objectContaining({
+            restartPolicy: { maxAttempts: 2, backoffMs: 1000, maxBackoffMs: 60000, onlyOnFailure: true },
+          })
+        );
+
+        emitStdout('Flutter run key commands.\nLost connection to device.\n');
+        emitExit(1);
+        let status = handleFlutterStatus({ sessionId: 'session-123' });
+        expect(status).toMatchObject({ status: 'failed', exitCode: 1 });
+        expect(status.nextRestartAt).toBeDefined();
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(mockSpawnStreaming).toHaveBeenCalledTimes(2);
+        status = handleFlutterStatus({ sessionId: 'session-123' });
+        expect(status).toMatchObject({ status: 'starting', phase: 'starting', restarts: 1 });
+        expect(status.exitCode).toBeUndefined();
+
+        // The delay doubles for the second relaunch
+        emitExit(1);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(mockSpawnStreaming).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(mockSpawnStreaming).toHaveBeenCalledTimes(3);
+
+        emitExit(1);
+        await jest.advanceTimersByTimeAsync(60000);
+        expect(mockSpawnStreaming).toHaveBeenCalledTimes(3);
+
+        status = handleFlutterStatus({ sessionId: 'session-123' });
+        expect(status.attempts?.map(({ attempt, exitCode, outcome }) => ({ attempt, exitCode, outcome }))).toEqual([
+          { attempt: 1, exitCode: 1, outcome: 'restarted' },
+          { attempt: 2, exitCode: 1, outcome: 'restarted' },
+          { attempt: 3, exitCode: 1, outcome: 'attempts-exhausted' },
+        ]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should not relaunch after compile errors, clean exits or flutter_stop', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        mockGetSession.mockReturnValue({
+          id: 'session-123',
+          worktreePath: '/path/to/worktree',
+          simulatorUdid: 'UDID-123',
+          deviceType: 'iPhone 16 Pro',
+          createdAt: new Date(),
+          lastActivityAt: new Date(),
+        });
+        const restartPolicy = { maxAttempts: 3, backoffSeconds: 1 };
+
+        await handleFlutterRun({ sessionId: 'session-123', restartPolicy });
+        emitStdout("lib/main.dart:12:3: Error: Expected ';' after this.\n");
+        emitExit(1);
+        await handleFlutterRun({ sessionId: 'session-123', restartPolicy });
+        emitExit(0);
+        await handleFlutterRun({ sessionId: 'session-123', restartPolicy });
+        emitExit(1);
+        expect(handleFlutterStop({ sessionId: 'session-123' }).success).toBe(true);
+        await jest.advanceTimersByTimeAsync(10000);
+
+        expect(mockSpawnStreaming).toHaveBeenCalledTimes(3);
+        const session = mockGetSession.mock.results.at(-1)?.value as Session;
+        expect(session.flutterProcessManager?.getRunHistory().at(-1)?.outcome).toBe('stopped');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should hot reload when watched files change and record the result', async () => {
+      const worktreePath = mkdtempSync(join(tmpdir(), 'flutter-watch-'));
+      mkdirSync(join(worktreePath, 'lib'));
+      try {
+        mockGetSession.mockReturnValue({
+          id: 'session-123',
+          worktreePath,
+          simulatorUdid: 'UDID-123',
+          deviceType: 'iPhone 16 Pro',
+          createdAt: new Date(),
+          lastActivityAt: new Date(),
+        });
+
+        await handleFlutterRun({ sessionId: 'session-123', watch: { debounceMs: 50 } });
+        expect(mockResolveSessionPath).toHaveBeenCalledWith('session-123', 'lib', 'watch');
+        emitStdout('Flutter run key commands.\n');
+
+        const spawned = mockSpawnStreaming.mock.results[0].value as SpawnedProcess;
+        const reloadSent = new Promise<void>((resolve) => {
+          (spawned.stdin.write as jest.Mock).mockImplementation(() => {
+            resolve();
+            return true;
+          });
+        });
+        writeFileSync(join(worktreePath, 'lib', 'home.dart'), 'class Home {}\n');
+        await reloadSent;
+        expect(spawned.stdin.write).toHaveBeenCalledWith('r\n');
+
+        emitStdout('Reloaded 1 of 755 libraries in 300ms.\n');
+        await new Promise((resolve) => setImmediate(resolve));
+
+        const status = handleFlutterStatus({ sessionId: 'session-123' });
+        expect(status.watching).toBe(true);
+        expect(status.autoReloads).toEqual([
+          expect.objectContaining({ files: ['lib/home.dart'], operation: 'reload', success: true }),
+        ]);
+        const logs = handleFlutterLogs({ sessionId: 'session-123' }).logs.map((entry) => entry.line);
+        expect(logs).toContain('[watch] Hot reload after changes to lib/home.dart');
+
+        handleFlutterStop({ sessionId: 'session-123' });
+        expect(handleFlutterStatus({ sessionId: 'session-123' }).watching).toBe(false);
+      } finally {
+        rmSync(worktreePath, { recursive: true, force: true });
+      }
+    });
+
+    it('should hot reload again for changes made during a manual reload', async () => {
+      const worktreePath = mkdtempSync(join(tmpdir(), 'flutter-watch-'));
+      mkdirSync(join(worktreePath, 'lib'));
+      try {
+        mockGetSession.mockReturnValue({
+          id: 'session-123',
+          worktreePath,
+          simulatorUdid: 'UDID-123',
+          deviceType: 'iPhone 16 Pro',
+          createdAt: new Date(),
+          lastActivityAt: new Date(),
+        });
+
+        await handleFlutterRun({ sessionId: 'session-123', watch: { debounceMs: 50 } });
+        emitStdout('Flutter run key commands.\n');
+        const spawned = mockSpawnStreaming.mock.results[0].value as SpawnedProcess;
+
+        const manual = handleFlutterHotReload({ sessionId: 'session-123' });
+        writeFileSync(join(worktreePath, 'lib', 'home.dart'), 'class Home {}\n');
+        // Past the debounce, the change is held back until the manual reload finishes
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        expect(spawned.stdin.write).toHaveBeenCalledTimes(1);
+
+        const reloadSent = new Promise<void>((resolve) => {
+          (spawned.stdin.write as jest.Mock).mockImplementation(() => {
+            resolve();
+            return true;
+          });
+        });
+        emitStdout('Reloaded 1 of 755 libraries in 300ms.\n');
+        await manual;
+        await reloadSent;
+        expect(spawned.stdin.write).toHaveBeenLastCalledWith('r\n');
+
+        emitStdout('Reloaded 1 of 755 libraries in 200ms.\n');
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(handleFlutterStatus({ sessionId: 'session-123' }).autoReloads).toEqual([
+          expect.objectContaining({ files: ['lib/home.dart'], operation: 'reload', success: true }),
+        ]);
+      } finally {
+        // Also closes the file watcher if an assertion failed
+        handleFlutterStop({ sessionId: 'session-123' });
+        rmSync(worktreePath, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject targets denied by the path policy', async () => {
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      });
+      mockResolveSessionPath.mockImplementation(() => {
+        throw new Error('Access denied: target must be under /path (rule: allow-only)');
+      });
+
+      await expect(
+        handleFlutterRun({ sessionId: 'session-123', target: 'lib/escape.dart' })
+      ).rejects.toThrow(/Access denied: target/);
+
+      expect(mockResolveSessionPath).toHaveBeenCalledWith('session-123', 'lib/escape.dart', 'target');
+      expect(mockSpawnStreaming).not.toHaveBeenCalled();
+    });
+
+    it('should reject targets in sibling directories sharing the project prefix', async () => {
+      const { FlutterProcessManager } = await import('../flutter/process.js');
+      const processManager = new FlutterProcessManager();
+
+      await expect(
+        processManager.start({
+          worktreePath: '/path/to/worktree',
+          deviceId: 'UDID-123',
+          target: '../worktree-other/lib/main.dart',
+        })
+      ).rejects.toThrow('Security: Target file must be within project directory');
+      expect(mockSpawnStreaming).not.toHaveBeenCalled();
     });
 
     it('should throw if session not found', async () => {
@@ -127,6 +489,81 @@ describe('Flutter Command Tools', () => {
     });
   });
 
+  describe('handleFlutterAttach', () => {
+    const session = (): Session => ({
+      id: 'session-123',
+      worktreePath: '/path/to/worktree',
+      simulatorUdid: 'UDID-123',
+      deviceType: 'iPhone 16 Pro',
+      createdAt: new Date(),
+      lastActivityAt: new Date(),
+    });
+
+    it('should attach to the app on the session simulator', async () => {
+      mockGetSession.mockReturnValue(session());
+
+      const result = await handleFlutterAttach({
+        sessionId: 'session-123',
+        appId: 'com.example.app',
+        vmServiceUri: 'http://127.0.0.1:55123/AbCd=/',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.runId).toBe('run-1');
+      expect(result.message).toContain('Flutter attach started');
+      expect(mockSpawnStreaming.mock.calls[0][1]).toEqual([
+        'attach',
+        '-d',
+        'UDID-123',
+        '--app-id',
+        'com.example.app',
+        '--debug-url',
+        'http://127.0.0.1:55123/AbCd=/',
+      ]);
+      expect(mockRecordRunOptions).toHaveBeenCalledWith('session-123', {
+        target: undefined,
+        flavor: undefined,
+        machine: undefined,
+        attach: { appId: 'com.example.app', vmServiceUri: 'http://127.0.0.1:55123/AbCd=/' },
+      });
+    });
+
+    it('should manage the attached app like a launched one', async () => {
+      mockGetSession.mockReturnValue(session());
+
+      await handleFlutterAttach({ sessionId: 'session-123' });
+      emitStdout('Flutter run key commands.\n');
+
+      const status = handleFlutterStatus({ sessionId: 'session-123' });
+      expect(status.status).toBe('running');
+      expect(status.attach).toBe(true);
+
+      const result = handleFlutterStop({ sessionId: 'session-123' });
+      expect(result.message).toContain('stop signal sent');
+    });
+
+    it('should require a simulator', async () => {
+      mockGetSession.mockReturnValue({ ...session(), simulatorUdid: undefined });
+
+      await expect(handleFlutterAttach({ sessionId: 'session-123' })).rejects.toThrow(
+        'No simulator running for this session'
+      );
+      expect(mockSpawnStreaming).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid app id or VM service URL', async () => {
+      mockGetSession.mockReturnValue(session());
+
+      await expect(
+        handleFlutterAttach({ sessionId: 'session-123', appId: 'com.example;rm -rf' })
+      ).rejects.toThrow('Invalid app id');
+      await expect(
+        handleFlutterAttach({ sessionId: 'session-123', vmServiceUri: 'file:///etc/passwd' })
+      ).rejects.toThrow('Invalid VM service URL');
+      expect(mockSpawnStreaming).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleFlutterStop', () => {
     it('should stop Flutter process', async () => {
       const { FlutterProcessManager } = await import('../flutter/process.js');
@@ -173,7 +610,7 @@ describe('Flutter Command Tools', () => {
   });
 
   describe('handleFlutterHotReload', () => {
-    it('should trigger hot reload', async () => {
+    async function startRunningSession(machine?: boolean): Promise<Session> {
       const { FlutterProcessManager } = await import('../flutter/process.js');
       const processManager = new FlutterProcessManager();
 
@@ -183,6 +620,7 @@ describe('Flutter Command Tools', () => {
         simulatorUdid: 'UDID-123',
         deviceType: 'iPhone 16 Pro',
         createdAt: new Date(),
+        lastActivityAt: new Date(),
         flutterProcessManager: processManager,
       };
 
@@ -190,18 +628,472 @@ describe('Flutter Command Tools', () => {
 
       await processManager.start({
         worktreePath: session.worktreePath,
-        deviceId: session.simulatorUdid,
+        deviceId: 'UDID-123',
+        machine,
       });
+      return session;
+    }
 
-      const result = handleFlutterHotReload({ sessionId: 'session-123' });
+    it('should wait for the reload and report reloaded libraries', async () => {
+      await startRunningSession();
 
-      expect(result.success).toBe(true);
-      expect(result.message).toContain('Hot reload triggered');
+      const pending = handleFlutterHotReload({ sessionId: 'session-123' });
+      const spawned = mockSpawnStreaming.mock.results[0].value as SpawnedProcess;
+      expect(spawned.stdin.write).toHaveBeenCalledWith('r\n');
+
+      emitStdout('Performing hot reload...\nReloaded 2 of 755 libraries in 417ms.\n');
+      const result = await pending;
+
+      expect(result).toMatchObject({
+        operation: 'reload',
+        success: true,
+        librariesReloaded: 2,
+        totalLibraries: 755,
+        compileErrors: [],
+      });
+      expect(result.message).toContain('Hot reload completed');
+    });
+
+    it('should refuse flutter_run and flutter_attach while a reload is in progress', async () => {
+      const session = await startRunningSession();
+      const processManager = session.flutterProcessManager;
+
+      const pending = handleFlutterHotReload({ sessionId: 'session-123' });
+      expect(processManager?.getStatus()?.status).toBe('hot-reloading');
+
+      await expect(handleFlutterRun({ sessionId: 'session-123' })).rejects.toThrow('Flutter process already running');
+      await expect(handleFlutterAttach({ sessionId: 'session-123' })).rejects.toThrow('Flutter process already running');
+      expect(session.flutterProcessManager).toBe(processManager);
+
+      emitStdout('Reloaded 1 of 755 libraries in 100ms.\n');
+      await pending;
+    });
+
+    it('should report compile errors from the log stream', async () => {
+      await startRunningSession();
+
+      const pending = handleFlutterHotReload({ sessionId: 'session-123' });
+      emitStdout(
+        "lib/main.dart:12:3: Error: Expected ';' after this.\n" +
+        'Try again after fixing the above error(s).\n'
+      );
+      const result = await pending;
+
+      expect(result.success).toBe(false);
+      expect(result.compileErrors).toEqual(["lib/main.dart:12:3: Error: Expected ';' after this."]);
+    });
+
+    it('should fall back to hot restart when the reload is rejected', async () => {
+      await startRunningSession();
+
+      const pending = handleFlutterHotReload({ sessionId: 'session-123', fallbackToRestart: true });
+      emitStdout('Hot reload was rejected:\nConst class cannot become non-const: Library:lib/main.dart Class: Foo\n');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const spawned = mockSpawnStreaming.mock.results[0].value as SpawnedProcess;
+      expect(spawned.stdin.write).toHaveBeenLastCalledWith('R\n');
+      emitStdout('Restarted application in 1,160ms.\n');
+      const result = await pending;
+
+      expect(result).toMatchObject({
+        operation: 'restart',
+        success: true,
+        fellBackToRestart: true,
+        reloadRejection: 'Hot reload was rejected:',
+      });
+    });
+
+    it('should time out when no outcome is reported', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        const session = await startRunningSession();
+        emitStdout('Flutter run key commands.\n');
+
+        const pending = handleFlutterHotReload({ sessionId: 'session-123', timeoutSeconds: 5 });
+        await jest.advanceTimersByTimeAsync(5000);
+        const result = await pending;
+
+        expect(result).toMatchObject({ success: false, timedOut: true });
+        expect(result.message).toBe('Hot reload did not complete within 5 seconds');
+        expect(session.flutterProcessManager?.getStatus()?.status).toBe('running');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should send app.restart in machine mode', async () => {
+      const session = await startRunningSession(true);
+      const processManager = session.flutterProcessManager!;
+
+      const [, spawnArgs] = mockSpawnStreaming.mock.calls[0] as unknown as [string, string[]];
+      const spawned = mockSpawnStreaming.mock.results[0].value as SpawnedProcess;
+      expect(spawnArgs).toContain('--machine');
+      expect(processManager.getStatus()?.status).toBe('starting');
+
+      emitStdout(
+        '[{"event":"app.start","params":{"appId":"app-1","deviceId":"UDID-123"}}]\n' +
+        '[{"event":"app.started","params":{"appId":"app-1"}}]\n'
+      );
+      expect(processManager.getStatus()).toMatchObject({ status: 'running', appId: 'app-1' });
+
+      const pending = handleFlutterHotReload({ sessionId: 'session-123' });
+
+      expect(processManager.getStatus()?.status).toBe('hot-reloading');
+      expect(spawned.stdin.write).toHaveBeenCalledWith(
+        `${JSON.stringify([{ id: 1, method: 'app.restart', params: { appId: 'app-1', fullRestart: false, pause: false, reason: 'manual' } }])}\n`
+      );
+
+      emitStdout(
+        '[{"event":"app.progress","params":{"appId":"app-1","message":"Reloaded 1 of 755 libraries in 300ms.","finished":true}}]\n' +
+        '[{"id":1,"result":{"code":0,"message":""}}]\n'
+      );
+      const result = await pending;
+
+      expect(result).toMatchObject({ success: true, librariesReloaded: 1, totalLibraries: 755 });
+      expect(processManager.getStatus()?.status).toBe('running');
+      expect(processManager.getLogs().logs.map((entry) => entry.line)).toEqual([
+        'Launching app app-1 on UDID-123',
+        'Application started',
+        'Reloaded 1 of 755 libraries in 300ms.',
+      ]);
+    });
+
+    it('should report failed machine-mode reloads', async () => {
+      await startRunningSession(true);
+      emitStdout('[{"event":"app.start","params":{"appId":"app-1"}}]\n');
+
+      const pending = handleFlutterHotReload({ sessionId: 'session-123' });
+      emitStdout('[{"id":1,"result":{"code":1,"message":"Hot reload was rejected: Const class cannot become non-const"}}]\n');
+      const result = await pending;
+
+      expect(result.success).toBe(false);
+      expect(result.reloadRejection).toBe('Hot reload was rejected: Const class cannot become non-const');
+    });
+  });
+
+  describe('handleFlutterDebugCommand', () => {
+    async function startAttachedSession(machine?: boolean): Promise<Session> {
+      const { FlutterProcessManager } = await import('../flutter/process.js');
+      const processManager = new FlutterProcessManager();
+
+      const session: Session = {
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+        flutterProcessManager: processManager,
+      };
+      mockGetSession.mockReturnValue(session);
+
+      await processManager.start({ worktreePath: session.worktreePath, deviceId: 'UDID-123', machine });
+      emitStdout(
+        machine
+          ? '[{"event":"app.started","params":{"appId":"app-1"}}]\n'
+          : 'Flutter run key commands.\n'
+      );
+      return session;
+    }
+
+    it('should return a dump once its output goes quiet', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        await startAttachedSession();
+
+        const pending = handleFlutterDebugCommand({ sessionId: 'session-123', command: 'widget-tree' });
+        const spawned = mockSpawnStreaming.mock.results[0].value as SpawnedProcess;
+        expect(spawned.stdin.write).toHaveBeenLastCalledWith('w\n');
+
+        await jest.advanceTimersByTimeAsync(2000);
+        emitStdout('flutter: MyApp\nflutter: └MaterialApp\n');
+        await jest.advanceTimersByTimeAsync(300);
+        emitStdout('flutter:  └Scaffold\n');
+        await jest.advanceTimersByTimeAsync(500);
+        const result = await pending;
+
+        expect(result).toMatchObject({
+          command: 'widget-tree',
+          key: 'w',
+          success: true,
+          output: 'MyApp\n└MaterialApp\n └Scaffold',
+          lineCount: 3,
+          truncated: false,
+        });
+        expect(result.timedOut).toBeUndefined();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should truncate long dumps and report a missing dump as a failure', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        await startAttachedSession();
+
+        let pending = handleFlutterDebugCommand({ sessionId: 'session-123', command: 'render-tree', maxLines: 2 });
+        emitStdout('flutter: RenderView\nflutter:  child: RenderSemanticsAnnotations\nflutter:   child: RenderBox\n');
+        await jest.advanceTimersByTimeAsync(500);
+        let result = await pending;
+        expect(result).toMatchObject({ success: true, lineCount: 3, truncated: true });
+        expect(result.output.split('\n')).toHaveLength(2);
+
+        pending = handleFlutterDebugCommand({ sessionId: 'session-123', command: 'layer-tree', timeoutSeconds: 3 });
+        await jest.advanceTimersByTimeAsync(3000);
+        result = await pending;
+        expect(result).toMatchObject({ success: false, timedOut: true, lineCount: 0 });
+        expect(result.message).toBe('Dump the layer tree: no output within 3 seconds');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should return toggles after a quiet period without output', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        await startAttachedSession();
+
+        const pending = handleFlutterDebugCommand({ sessionId: 'session-123', command: 'debug-paint' });
+        await jest.advanceTimersByTimeAsync(500);
+        const result = await pending;
+
+        expect(result).toMatchObject({ key: 'p', success: true, output: '', lineCount: 0 });
+        expect(result.message).toBe('Toggle construction lines (debug paint): sent "p"');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject debug commands in machine mode', async () => {
+      await startAttachedSession(true);
+
+      await expect(
+        handleFlutterDebugCommand({ sessionId: 'session-123', command: 'widget-tree' })
+      ).rejects.toThrow(/not available in machine mode/);
+    });
+
+    it('should reject debug commands before the app is attached', async () => {
+      const { FlutterProcessManager } = await import('../flutter/process.js');
+      const processManager = new FlutterProcessManager();
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+        flutterProcessManager: processManager,
+      });
+      await processManager.start({ worktreePath: '/path/to/worktree', deviceId: 'UDID-123' });
+
+      await expect(
+        handleFlutterDebugCommand({ sessionId: 'session-123', command: 'widget-tree' })
+      ).rejects.toThrow(/has not started yet/);
+    });
+  });
+
+  describe('handleFlutterWidgetTree', () => {
+    it('should require an attached app with a VM service', async () => {
+      const { FlutterProcessManager } = await import('../flutter/process.js');
+      const processManager = new FlutterProcessManager();
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+        flutterProcessManager: processManager,
+      });
+      await processManager.start({ worktreePath: '/path/to/worktree', deviceId: 'UDID-123' });
+
+      await expect(handleFlutterWidgetTree({ sessionId: 'session-123' })).rejects.toThrow(
+        /Dart VM service is not available/
+      );
+    });
+  });
+
+  describe('handleFlutterEvaluate', () => {
+    it('should explain that release builds have no VM service', async () => {
+      const { FlutterProcessManager } = await import('../flutter/process.js');
+      const processManager = new FlutterProcessManager();
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+        flutterProcessManager: processManager,
+      });
+      await processManager.start({
+        worktreePath: '/path/to/worktree',
+        deviceId: 'UDID-123',
+        additionalArgs: ['--release'],
+      });
+      emitStdout('Launching lib/main.dart on iPhone 16 Pro in release mode...\nFlutter run key commands.\n');
+
+      await expect(
+        handleFlutterEvaluate({ sessionId: 'session-123', expression: '1 + 1' })
+      ).rejects.toThrow(/Release builds do not have one/);
+    });
+  });
+
+  describe('handleFlutterStatus', () => {
+    it('should report status none without a Flutter process', () => {
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      });
+
+      expect(handleFlutterStatus({ sessionId: 'session-123' })).toEqual({
+        sessionId: 'session-123',
+        status: 'none',
+        phaseHistory: [],
+      });
+    });
+
+    it('should track phases from flutter output and mark the app running once attached', async () => {
+      const { FlutterProcessManager } = await import('../flutter/process.js');
+      const processManager = new FlutterProcessManager();
+
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+        flutterProcessManager: processManager,
+      });
+
+      await processManager.start({ worktreePath: '/path/to/worktree', deviceId: 'UDID-123' });
+      emitStdout(
+        'Launching lib/main.dart on iPhone 16 Pro in debug mode...\n' +
+        'Running pod install...                                              1,502ms\n' +
+        'Running Xcode build...\n'
+      );
+
+      let status = handleFlutterStatus({ sessionId: 'session-123' });
+      expect(status.status).toBe('starting');
+      expect(status.phase).toBe('xcode-build');
+
+      emitStdout(
+        'Xcode build done.                                           42.1s\n' +
+        'Syncing files to device iPhone 16 Pro...                           120ms\n' +
+        'Running pod install...\n' +
+        'Flutter run key commands.\n'
+      );
+
+      status = handleFlutterStatus({ sessionId: 'session-123' });
+      expect(status.status).toBe('running');
+      expect(status.phase).toBe('attached');
+      expect(status.phaseHistory.map((transition) => transition.phase)).toEqual([
+        'starting',
+        'pod-install',
+        'xcode-build',
+        'installing',
+        'launching',
+        'attached',
+      ]);
+      expect(status.phaseHistory[2].line).toBe('Running Xcode build...');
+      expect(status.phaseHistory.every((transition) => transition.durationMs >= 0)).toBe(true);
+    });
+  });
+
+  describe('handleFlutterVmServiceInfo', () => {
+    it('should report no VM service without a Flutter process', () => {
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      });
+
+      expect(handleFlutterVmServiceInfo({ sessionId: 'session-123' })).toMatchObject({
+        available: false,
+        status: 'none',
+      });
+    });
+
+    it('should expose the announced URIs and clear them when flutter exits', async () => {
+      const { FlutterProcessManager } = await import('../flutter/process.js');
+      const processManager = new FlutterProcessManager();
+
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+        flutterProcessManager: processManager,
+      });
+
+      await processManager.start({ worktreePath: '/path/to/worktree', deviceId: 'UDID-123' });
+      expect(handleFlutterVmServiceInfo({ sessionId: 'session-123' }).available).toBe(false);
+
+      emitStdout(
+        'A Dart VM Service on iPhone 16 Pro is available at: http://127.0.0.1:55123/AbCd=/\n' +
+        'The Flutter DevTools debugger and profiler on iPhone 16 Pro is available at: http://127.0.0.1:9101?uri=http://127.0.0.1:55123/AbCd=/\n'
+      );
+      expect(handleFlutterVmServiceInfo({ sessionId: 'session-123' })).toMatchObject({
+        available: true,
+        vmServiceUri: 'http://127.0.0.1:55123/AbCd=/',
+        vmServiceWsUri: 'ws://127.0.0.1:55123/AbCd=/ws',
+        devToolsUri: 'http://127.0.0.1:9101?uri=http://127.0.0.1:55123/AbCd=/',
+        proxy: {
+          vmServiceUri: expect.stringMatching(/\/vmservice\/session-123\/proxy-token\/$/),
+          vmServiceWsUri: expect.stringMatching(/^ws:.*\/vmservice\/session-123\/proxy-token\/ws$/),
+        },
+      });
+
+      // A relaunched app announces a new VM service; the old DevTools URL no longer applies
+      emitStdout('A Dart VM Service on iPhone 16 Pro is available at: http://127.0.0.1:60001/EfGh=/\n');
+      let info = handleFlutterVmServiceInfo({ sessionId: 'session-123' });
+      expect(info.vmServiceUri).toBe('http://127.0.0.1:60001/EfGh=/');
+      expect(info.devToolsUri).toBeUndefined();
+
+      emitExit(0);
+      info = handleFlutterVmServiceInfo({ sessionId: 'session-123' });
+      expect(info).toMatchObject({ available: false, status: 'stopped' });
+      expect(info.vmServiceUri).toBeUndefined();
+      expect(info.proxy).toBeUndefined();
+    });
+
+    it('should take the VM service URI from machine-mode debugPort events', async () => {
+      const { FlutterProcessManager } = await import('../flutter/process.js');
+      const processManager = new FlutterProcessManager();
+
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+        flutterProcessManager: processManager,
+      });
+
+      await processManager.start({ worktreePath: '/path/to/worktree', deviceId: 'UDID-123', machine: true });
+      emitStdout(
+        '[{"event":"app.debugPort","params":{"appId":"a1","port":55123,"wsUri":"ws://127.0.0.1:55123/AbCd=/ws"}}]\n'
+      );
+
+      expect(handleFlutterVmServiceInfo({ sessionId: 'session-123' })).toMatchObject({
+        available: true,
+        vmServiceUri: 'http://127.0.0.1:55123/AbCd=/',
+        vmServiceWsUri: 'ws://127.0.0.1:55123/AbCd=/ws',
+      });
     });
   });
 
   describe('handleFlutterHotRestart', () => {
-    it('should trigger hot restart', async () => {
+    it('should wait for the restart to finish', async () => {
       const { FlutterProcessManager } = await import('../flutter/process.js');
       const processManager = new FlutterProcessManager();
 
@@ -221,10 +1113,13 @@ describe('Flutter Command Tools', () => {
         deviceId: session.simulatorUdid,
       });
 
-      const result = handleFlutterHotRestart({ sessionId: 'session-123' });
+      const pending = handleFlutterHotRestart({ sessionId: 'session-123' });
+      emitStdout('Performing hot restart...\nRestarted application in 1,160ms.\n');
+      const result = await pending;
 
+      expect(result.operation).toBe('restart');
       expect(result.success).toBe(true);
-      expect(result.message).toContain('Hot restart triggered');
+      expect(result.message).toContain('Hot restart completed');
     });
   });
 
@@ -270,6 +1165,66 @@ describe('Flutter Command Tools', () => {
       expect(result.nextIndex).toBe(0);
       expect(result.totalLines).toBe(0);
     });
+
+    it('should return the logs of an earlier run by run id', async () => {
+      const session: Session = {
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      };
+      mockGetSession.mockReturnValue(session);
+
+      const first = await handleFlutterRun({ sessionId: 'session-123' });
+      emitStdout('Flutter run key commands.\n');
+      emitExit(0);
+      const second = await handleFlutterRun({ sessionId: 'session-123', flavor: 'dev' });
+      emitStdout("lib/main_dev.dart:3:1: Error: Expected ';' after this.\n");
+
+      expect([first.runId, second.runId]).toEqual(['run-1', 'run-2']);
+      expect(handleFlutterLogs({ sessionId: 'session-123' })).toMatchObject({
+        runId: 'run-2',
+        logs: [expect.objectContaining({ line: "lib/main_dev.dart:3:1: Error: Expected ';' after this." })],
+      });
+      expect(handleFlutterLogs({ sessionId: 'session-123', runId: 'run-1' })).toMatchObject({
+        runId: 'run-1',
+        logs: [expect.objectContaining({ line: 'Flutter run key commands.' })],
+      });
+      expect(() => handleFlutterLogs({ sessionId: 'session-123', runId: 'run-9' })).toThrow('Run not found: run-9');
+    });
+  });
+
+  describe('handleFlutterRunHistory', () => {
+    it('should list runs with their options and outcome, keeping the most recent ten', async () => {
+      const session: Session = {
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      };
+      mockGetSession.mockReturnValue(session);
+
+      for (let run = 1; run <= 11; run++) {
+        await handleFlutterRun({ sessionId: 'session-123', flavor: run === 11 ? 'dev' : undefined });
+        emitStdout('Running Xcode build...\n');
+        if (run < 11) {
+          emitExit(1);
+        }
+      }
+
+      const { runs } = handleFlutterRunHistory({ sessionId: 'session-123' });
+      expect(runs.map((run) => run.runId)).toEqual([
+        'run-2', 'run-3', 'run-4', 'run-5', 'run-6', 'run-7', 'run-8', 'run-9', 'run-10', 'run-11',
+      ]);
+      expect(runs[0]).toMatchObject({ current: false, status: 'failed', phase: 'xcode-build', exitCode: 1, logLines: 1 });
+      expect(runs[0].stoppedAt).toBeDefined();
+      expect(runs[9]).toMatchObject({ current: true, status: 'starting', options: { flavor: 'dev' } });
+      expect(runs[9].exitCode).toBeUndefined();
+    });
   });
 
   describe('handleFlutterBuild', () => {
@@ -329,6 +1284,36 @@ describe('Flutter Command Tools', () => {
       expect(result.message).toContain('Build failed');
     });
 
+    it('should return diagnostics parsed from stdout and stderr', async () => {
+      mockGetSession.mockReturnValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'UDID-123',
+        deviceType: 'iPhone 16 Pro',
+        createdAt: new Date(),
+        lastActivityAt: new Date(),
+      });
+      mockExecFile.mockResolvedValue({
+        stdout: "lib/main.dart:12:5: Error: Expected ';' after this.\nFailed to build iOS app",
+        stderr: "Error (Xcode): /path/to/worktree/ios/Runner/AppDelegate.swift:10:5: error: cannot find 'Foo' in scope",
+        exitCode: 1,
+      });
+
+      const result = await handleFlutterBuild({ sessionId: 'session-123' });
+
+      expect(result.diagnostics).toEqual([
+        { severity: 'error', source: 'dart', file: 'lib/main.dart', line: 12, column: 5, message: "Expected ';' after this." },
+        {
+          severity: 'error',
+          source: 'xcode',
+          file: 'ios/Runner/AppDelegate.swift',
+          line: 10,
+          column: 5,
+          message: "cannot find 'Foo' in scope",
+        },
+      ]);
+    });
+
     it('should throw if session not found', async () => {
       mockGetSession.mockReturnValue(undefined);
 
@@ -1,9 +1,33 @@
 import { z } from 'zod';
 import { sessionManager } from '../session/manager.js';
 import { FlutterProcessManager } from '../flutter/process.js';
+import { DEBUG_COMMAND_NAMES } from '../flutter/debug-commands.js';
+import { fetchWidgetTree, WidgetTree } from '../flutter/inspector.js';
+import { applyDebugToggles, DebugToggleResult } from '../flutter/debug-toggles.js';
+import { evaluateExpression, EvaluateResult } from '../flutter/evaluate.js';
+import { parseDiagnostics } from '../flutter/diagnostics.js';
+import { watchRoots } from '../flutter/watcher.js';
+import {
+  AutoReloadRecord,
+  BuildDiagnostic,
+  FlutterDebugCommandResult,
+  FlutterProcessPhase,
+  FlutterProcessStatus,
+  FlutterReadyResult,
+  FlutterRestartPolicy,
+  FlutterRunAttempt,
+  FlutterWatchOptions,
+  HotReloadResult,
+} from '../flutter/types.js';
+import { Session, SessionRunOptions } from '../session/types.js';
+import { CONTENT_SIZE_CATEGORIES, ContentSizeCategory, getContentSize, setContentSize } from '../simulator/simctl.js';
+import { buildVmServiceProxyUris, VmServiceProxyUris } from '../vm-service-proxy.js';
 import { logger } from '../utils/logger.js';
 import { exec, execFile } from '../utils/exec.js';
 
+/** flutter_run invocations kept per session, including the current one */
+const MAX_RUN_HISTORY = 10;
+
 /**
  * Execute a build script (pre or post) in the project directory.
  * Scripts are executed using exec to allow shell features like pipes, &&, etc.
@@ -45,24 +69,223 @@ export const flutterRunSchema = z.object({
   target: z.string().optional().describe('Target file (e.g., lib/main.dart)'),
   flavor: z.string().optional().describe('Build flavor'),
   additionalArgs: z.array(z.string()).optional().describe('Additional Flutter arguments'),
+  machine: z
+    .boolean()
+    .optional()
+    .describe('Control flutter run through its --machine JSON protocol instead of keystrokes'),
+  waitForReady: z
+    .boolean()
+    .optional()
+    .describe('Wait until the app is attached or startup fails before returning'),
+  readyTimeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(1800)
+    .optional()
+    .describe('Seconds to wait when waitForReady is set (default: 300)'),
+  restartPolicy: z
+    .object({
+      maxAttempts: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .optional()
+        .describe('Relaunches before giving up (default: 3)'),
+      backoffSeconds: z
+        .number()
+        .min(0)
+        .max(300)
+        .optional()
+        .describe('Delay before the first relaunch, doubled for each further one (default: 2)'),
+      maxBackoffSeconds: z
+        .number()
+        .min(0)
+        .max(3600)
+        .optional()
+        .describe('Upper bound for the delay between relaunches (default: 60)'),
+      onlyOnFailure: z
+        .boolean()
+        .optional()
+        .describe('Only relaunch after a non-zero exit (default: true)'),
+    })
+    .optional()
+    .describe('Relaunch flutter run automatically when it exits unexpectedly'),
+  watch: z
+    .object({
+      include: z
+        .array(z.string())
+        .min(1)
+        .optional()
+        .describe('Globs of files to watch, relative to the project (default: lib/**/*.dart)'),
+      restartOn: z
+        .array(z.string())
+        .optional()
+        .describe('Globs whose changes need a hot restart (default: lib/main.dart, pubspec.yaml)'),
+      debounceMs: z
+        .number()
+        .int()
+        .min(50)
+        .max(10000)
+        .optional()
+        .describe('Milliseconds to wait after the last change before reloading (default: 300)'),
+    })
+    .optional()
+    .describe('Hot reload automatically when source files change'),
+});
+
+export const flutterAttachSchema = z.object({
+  sessionId: z.string().describe('Session ID'),
+  appId: z.string().optional().describe('Bundle id of the app to attach to'),
+  vmServiceUri: z.string().optional().describe('VM service URL of the app instance to attach to'),
+  target: z.string().optional().describe('Entry point the app was built from (e.g., lib/main.dart)'),
+  flavor: z.string().optional().describe('Build flavor the app was built with'),
+  machine: z
+    .boolean()
+    .optional()
+    .describe('Control flutter attach through its --machine JSON protocol instead of keystrokes'),
+  waitForReady: z
+    .boolean()
+    .optional()
+    .describe('Wait until the app is attached or attaching fails before returning'),
+  readyTimeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(1800)
+    .optional()
+    .describe('Seconds to wait when waitForReady is set (default: 120)'),
 });
 
 export const flutterCommandSchema = z.object({
   sessionId: z.string().describe('Session ID'),
 });
 
+export const flutterHotReloadSchema = z.object({
+  sessionId: z.string().describe('Session ID'),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(600)
+    .optional()
+    .describe('Seconds to wait for the reload to finish (default: 30)'),
+  fallbackToRestart: z
+    .boolean()
+    .optional()
+    .describe('Hot restart automatically if the reload is rejected (default: false)'),
+});
+
+export const flutterDebugCommandSchema = z.object({
+  sessionId: z.string().describe('Session ID'),
+  command: z.enum(DEBUG_COMMAND_NAMES).describe('Debug command to send to flutter run'),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(120)
+    .optional()
+    .describe('Seconds to wait for the command output (default: 10)'),
+  maxLines: z
+    .number()
+    .int()
+    .min(1)
+    .max(20000)
+    .optional()
+    .describe('Maximum number of output lines to return (default: 2000)'),
+});
+
+export const flutterWidgetTreeSchema = z.object({
+  sessionId: z.string().describe('Session ID'),
+  id: z.string().optional().describe('Widget id from an earlier result to fetch its detailed subtree'),
+  maxDepth: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe('Levels of the tree to include (default: 30)'),
+});
+
+export const flutterDebugToggleSchema = z.object({
+  sessionId: z.string().describe('Session ID'),
+  timeDilation: z
+    .number()
+    .min(0.1)
+    .max(100)
+    .optional()
+    .describe('Animation slow-down factor (1 = normal, 5 = slow animations)'),
+  debugPaint: z.boolean().optional().describe('Show layout bounds, padding and alignment'),
+  performanceOverlay: z.boolean().optional().describe('Show the performance overlay'),
+  platform: z
+    .enum(['iOS', 'android', 'macOS', 'fuchsia', 'linux', 'windows', 'default'])
+    .optional()
+    .describe('Platform the app behaves as'),
+  brightness: z.enum(['light', 'dark', 'default']).optional().describe('Brightness override'),
+  textSize: z
+    .enum(CONTENT_SIZE_CATEGORIES)
+    .optional()
+    .describe('Dynamic Type text size of the simulator, which sets the text scale factor'),
+});
+
+export const flutterEvaluateSchema = z.object({
+  sessionId: z.string().describe('Session ID'),
+  expression: z.string().min(1).describe('Dart expression to evaluate'),
+  libraryUri: z
+    .string()
+    .optional()
+    .describe('Library to evaluate in, e.g. package:my_app/main.dart (default: the root library)'),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(60)
+    .optional()
+    .describe('Seconds to wait for the result (default: 10)'),
+});
+
+export const flutterHotRestartSchema = z.object({
+  sessionId: z.string().describe('Session ID'),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(600)
+    .optional()
+    .describe('Seconds to wait for the restart to finish (default: 60)'),
+});
+
 export const flutterLogsSchema = z.object({
   sessionId: z.string().describe('Session ID'),
+  runId: z.string().optional().describe('Run from flutter_run_history (default: the current run)'),
   fromIndex: z.number().optional().describe('Start index for log retrieval'),
   limit: z.number().optional().describe('Maximum number of lines to return (default: 100)'),
 });
 
+/**
+ * Add a run to the session's run history, dropping the oldest runs beyond the limit.
+ *
+ * @returns The new run's ID
+ */
+function recordRun(session: Session, processManager: FlutterProcessManager, options: SessionRunOptions): string {
+  session.flutterRunCount = (session.flutterRunCount ?? 0) + 1;
+  const runId = `run-${String(session.flutterRunCount)}`;
+  session.flutterRuns = [...(session.flutterRuns ?? []), { runId, options, processManager }].slice(
+    -MAX_RUN_HISTORY
+  );
+  return runId;
+}
+
 export async function handleFlutterRun(
   args: z.infer<typeof flutterRunSchema>
 ): Promise<{
   success: boolean;
   pid: number;
+  /** Identifies this run in flutter_run_history and flutter_logs */
+  runId: string;
   message: string;
+  ready?: FlutterReadyResult;
 }> {
   logger.info('Tool: flutter_run', args);
 
@@ -74,11 +297,18 @@ export async function handleFlutterRun(
   // Update session activity
   sessionManager.updateSessionActivity(args.sessionId);
 
+  // Security: the target must pass the same path policy as the project itself
+  if (args.target) {
+    sessionManager.resolveSessionPath(args.sessionId, args.target, 'target');
+  }
+
   if (session.flutterProcessManager) {
-    const status = session.flutterProcessManager.getStatus();
-    if (status && (status.status === 'running' || status.status === 'starting')) {
+    // Any live process counts, including one in the middle of a hot reload
+    if (session.flutterProcessManager.isRunning()) {
       throw new Error('Flutter process already running for this session');
     }
+    // A relaunch still pending from the previous run would compete with this one
+    session.flutterProcessManager.cancelRestart();
   }
 
   // Ensure simulator is started
@@ -95,17 +325,45 @@ export async function handleFlutterRun(
     await executeScript(preBuildScript, session.worktreePath, 'pre-build');
   }
 
+  const restartPolicy: FlutterRestartPolicy | undefined = args.restartPolicy && {
+    maxAttempts: args.restartPolicy.maxAttempts ?? 3,
+    backoffMs: (args.restartPolicy.backoffSeconds ?? 2) * 1000,
+    maxBackoffMs: (args.restartPolicy.maxBackoffSeconds ?? 60) * 1000,
+    onlyOnFailure: args.restartPolicy.onlyOnFailure ?? true,
+  };
+
+  const watch: FlutterWatchOptions | undefined = args.watch && {
+    include: args.watch.include ?? ['lib/**/*.dart'],
+    restartOn: args.watch.restartOn ?? ['lib/main.dart', 'pubspec.yaml'],
+    debounceMs: args.watch.debounceMs ?? 300,
+  };
+  if (watch) {
+    // Security: watched directories must pass the same path policy as the project itself
+    for (const root of watchRoots([...watch.include, ...watch.restartOn])) {
+      sessionManager.resolveSessionPath(args.sessionId, root.dir || '.', 'watch');
+    }
+  }
+
   const processManager = new FlutterProcessManager();
   session.flutterProcessManager = processManager;
 
-  const flutterProcess = await processManager.start({
-    worktreePath: session.worktreePath,
-    deviceId: simulatorUdid,
+  const runOptions: SessionRunOptions = {
     target: args.target,
     flavor: args.flavor,
     additionalArgs: args.additionalArgs,
+    machine: args.machine,
+    restartPolicy,
+    watch,
+  };
+  const flutterProcess = await processManager.start({
+    worktreePath: session.worktreePath,
+    deviceId: simulatorUdid,
+    ...runOptions,
   });
 
+  const runId = recordRun(session, processManager, runOptions);
+  sessionManager.recordRunOptions(args.sessionId, runOptions);
+
   // Execute post-build script if configured (don't await - run in background)
   const postBuildScript = sessionManager.getPostBuildScript();
   if (postBuildScript) {
@@ -114,10 +372,119 @@ export async function handleFlutterRun(
     });
   }
 
+  if (!args.waitForReady) {
+    return {
+      success: true,
+      pid: flutterProcess.pid,
+      runId,
+      message: `Flutter process started (PID: ${String(flutterProcess.pid)})`,
+    };
+  }
+
+  const ready = await processManager.waitForReady((args.readyTimeoutSeconds ?? 300) * 1000);
+  return {
+    success: ready.ready,
+    pid: flutterProcess.pid,
+    runId,
+    message: describeReady(ready, flutterProcess.pid, 'run'),
+    ready,
+  };
+}
+
+/**
+ * Summarize the outcome of waiting for flutter run or flutter attach to be ready.
+ */
+function describeReady(ready: FlutterReadyResult, pid: number, command: 'run' | 'attach'): string {
+  if (ready.ready) {
+    return `Flutter app attached after ${String(Math.round(ready.elapsedMs / 1000))}s (PID: ${String(pid)})`;
+  }
+  if (ready.timedOut) {
+    return `Flutter app still in phase "${ready.phase}" after ${String(Math.round(ready.elapsedMs / 1000))}s; it keeps starting in the background`;
+  }
+  if (ready.status === 'running') {
+    return `Flutter app did not stay attached (phase: ${ready.phase})`;
+  }
+  return `Flutter ${command} failed during phase "${ready.phase}" (exit code: ${String(ready.exitCode)})`;
+}
+
+/**
+ * Attach to a Flutter app that is already running on the session's simulator, e.g. one
+ * launched from Xcode or by a previous server instance. The attached app is managed like
+ * one started with flutter_run: logs, hot reload/restart, stop and run history.
+ */
+export async function handleFlutterAttach(
+  args: z.infer<typeof flutterAttachSchema>
+): Promise<{
+  success: boolean;
+  pid: number;
+  runId: string;
+  message: string;
+  ready?: FlutterReadyResult;
+}> {
+  logger.info('Tool: flutter_attach', args);
+
+  const session = sessionManager.getSession(args.sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${args.sessionId}`);
+  }
+
+  // Update session activity
+  sessionManager.updateSessionActivity(args.sessionId);
+
+  // Security: the target must pass the same path policy as the project itself
+  if (args.target) {
+    sessionManager.resolveSessionPath(args.sessionId, args.target, 'target');
+  }
+
+  if (session.flutterProcessManager) {
+    if (session.flutterProcessManager.isRunning()) {
+      throw new Error('Flutter process already running for this session');
+    }
+    session.flutterProcessManager.cancelRestart();
+  }
+
+  // Unlike flutter_run, there is nothing to attach to without a booted simulator
+  if (!session.simulatorUdid) {
+    throw new Error(
+      'No simulator running for this session. flutter_attach connects to an app already running ' +
+      'on the session simulator; use flutter_run to launch one.'
+    );
+  }
+
+  const processManager = new FlutterProcessManager();
+  session.flutterProcessManager = processManager;
+
+  const runOptions: SessionRunOptions = {
+    target: args.target,
+    flavor: args.flavor,
+    machine: args.machine,
+    attach: { appId: args.appId, vmServiceUri: args.vmServiceUri },
+  };
+  const flutterProcess = await processManager.start({
+    worktreePath: session.worktreePath,
+    deviceId: session.simulatorUdid,
+    ...runOptions,
+  });
+
+  const runId = recordRun(session, processManager, runOptions);
+  sessionManager.recordRunOptions(args.sessionId, runOptions);
+
+  if (!args.waitForReady) {
+    return {
+      success: true,
+      pid: flutterProcess.pid,
+      runId,
+      message: `Flutter attach started (PID: ${String(flutterProcess.pid)}); waiting for the app to connect`,
+    };
+  }
+
+  const ready = await processManager.waitForReady((args.readyTimeoutSeconds ?? 120) * 1000);
   return {
-    success: true,
+    success: ready.ready,
     pid: flutterProcess.pid,
-    message: `Flutter process started (PID: ${String(flutterProcess.pid)})`,
+    runId,
+    message: describeReady(ready, flutterProcess.pid, 'attach'),
+    ready,
   };
 }
 
@@ -149,12 +516,9 @@ export function handleFlutterStop(
   };
 }
 
-export function handleFlutterHotReload(
-  args: z.infer<typeof flutterCommandSchema>
-): {
-  success: boolean;
-  message: string;
-} {
+export async function handleFlutterHotReload(
+  args: z.infer<typeof flutterHotReloadSchema>
+): Promise<HotReloadResult> {
   logger.info('Tool: flutter_hot_reload', args);
 
   const session = sessionManager.getSession(args.sessionId);
@@ -169,21 +533,260 @@ export function handleFlutterHotReload(
     throw new Error('No Flutter process running for this session');
   }
 
-  const reloaded = session.flutterProcessManager.hotReload();
+  return session.flutterProcessManager.hotReload({
+    timeoutMs: args.timeoutSeconds !== undefined ? args.timeoutSeconds * 1000 : undefined,
+    fallbackToRestart: args.fallbackToRestart,
+  });
+}
+
+export async function handleFlutterHotRestart(
+  args: z.infer<typeof flutterHotRestartSchema>
+): Promise<HotReloadResult> {
+  logger.info('Tool: flutter_hot_restart', args);
+
+  const session = sessionManager.getSession(args.sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${args.sessionId}`);
+  }
+
+  // Update session activity
+  sessionManager.updateSessionActivity(args.sessionId);
+
+  if (!session.flutterProcessManager) {
+    throw new Error('No Flutter process running for this session');
+  }
+
+  return session.flutterProcessManager.hotRestart({
+    timeoutMs: args.timeoutSeconds !== undefined ? args.timeoutSeconds * 1000 : undefined,
+  });
+}
+
+/**
+ * Send a debug key such as "w" (dump widget tree) to flutter run and return the output
+ * it prints as one result.
+ */
+export async function handleFlutterDebugCommand(
+  args: z.infer<typeof flutterDebugCommandSchema>
+): Promise<FlutterDebugCommandResult> {
+  logger.info('Tool: flutter_debug_command', args);
+
+  const session = sessionManager.getSession(args.sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${args.sessionId}`);
+  }
+
+  // Update session activity
+  sessionManager.updateSessionActivity(args.sessionId);
+
+  if (!session.flutterProcessManager) {
+    throw new Error('No Flutter process running for this session');
+  }
+
+  return session.flutterProcessManager.sendDebugCommand(args.command, {
+    timeoutMs: args.timeoutSeconds !== undefined ? args.timeoutSeconds * 1000 : undefined,
+    maxLines: args.maxLines,
+  });
+}
+
+/**
+ * Return the app's widget tree from the Flutter inspector, with widget types, keys,
+ * text and the source location where each widget was created.
+ */
+export async function handleFlutterWidgetTree(
+  args: z.infer<typeof flutterWidgetTreeSchema>
+): Promise<WidgetTree & { sessionId: string }> {
+  logger.info('Tool: flutter_widget_tree', args);
+
+  const session = sessionManager.getSession(args.sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${args.sessionId}`);
+  }
+
+  // Update session activity
+  sessionManager.updateSessionActivity(args.sessionId);
+
+  if (!session.flutterProcessManager) {
+    throw new Error('No Flutter process running for this session');
+  }
+
+  const vmService = await session.flutterProcessManager.getVmService();
+  const tree = await fetchWidgetTree(vmService, {
+    id: args.id,
+    maxDepth: args.maxDepth ?? 30,
+    projectRoot: session.worktreePath,
+  });
+  return { sessionId: args.sessionId, ...tree };
+}
+
+/**
+ * Change runtime debug settings of the running app through ext.flutter.* service
+ * extensions, and its text size through the simulator, and report the current value of each.
+ */
+export async function handleFlutterDebugToggle(
+  args: z.infer<typeof flutterDebugToggleSchema>
+): Promise<DebugToggleResult & { sessionId: string }> {
+  logger.info('Tool: flutter_debug_toggle', args);
+
+  const session = sessionManager.getSession(args.sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${args.sessionId}`);
+  }
+
+  // Update session activity
+  sessionManager.updateSessionActivity(args.sessionId);
+
+  if (!session.flutterProcessManager) {
+    throw new Error('No Flutter process running for this session');
+  }
+
+  const { sessionId, ...changes } = args;
+  const vmService = await session.flutterProcessManager.getVmService();
+  const simulatorUdid = session.simulatorUdid;
+  const textSize = simulatorUdid
+    ? {
+      get: () => getContentSize(simulatorUdid),
+      set: (size: ContentSizeCategory) => setContentSize(simulatorUdid, size),
+    }
+    : undefined;
+  const result = await applyDebugToggles(vmService, changes, textSize);
+  return { sessionId, ...result };
+}
+
+/**
+ * Evaluate a Dart expression in the running app and return the result's kind, class
+ * and string value.
+ */
+export async function handleFlutterEvaluate(
+  args: z.infer<typeof flutterEvaluateSchema>
+): Promise<EvaluateResult & { sessionId: string; success: boolean }> {
+  logger.info('Tool: flutter_evaluate', args);
+
+  const session = sessionManager.getSession(args.sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${args.sessionId}`);
+  }
+
+  // Update session activity
+  sessionManager.updateSessionActivity(args.sessionId);
+
+  if (!session.flutterProcessManager) {
+    throw new Error('No Flutter process running for this session');
+  }
+
+  const status = session.flutterProcessManager.getStatus();
+  if (status?.status === 'running' && !status.vmServiceUri) {
+    // Release builds run without a VM service, so flutter never announces one
+    throw new Error(
+      'Expression evaluation is not available: the app has no Dart VM service. ' +
+      'Release builds do not have one; run the app in debug mode.'
+    );
+  }
+
+  const vmService = await session.flutterProcessManager.getVmService();
+  const result = await evaluateExpression(vmService, args.expression, {
+    libraryUri: args.libraryUri,
+    timeoutMs: (args.timeoutSeconds ?? 10) * 1000,
+  });
+  return { sessionId: args.sessionId, success: result.kind !== 'Error', ...result };
+}
+
+/**
+ * Report the Flutter process lifecycle: current status and phase, how long it has been
+ * in that phase, and the full phase history.
+ */
+export function handleFlutterStatus(
+  args: z.infer<typeof flutterCommandSchema>
+): {
+  sessionId: string;
+  status: FlutterProcessStatus | 'none';
+  phase?: FlutterProcessPhase;
+  secondsInPhase?: number;
+  pid?: number;
+  appId?: string;
+  machine?: boolean;
+  attach?: boolean;
+  startedAt?: string;
+  stoppedAt?: string;
+  exitCode?: number;
+  restarts?: number;
+  nextRestartAt?: string;
+  watching?: boolean;
+  /** Hot reloads triggered by the file watcher, oldest first */
+  autoReloads?: Array<Omit<AutoReloadRecord, 'at'> & { at: string }>;
+  phaseHistory: Array<{ phase: FlutterProcessPhase; at: string; durationMs: number; line?: string }>;
+  /** Launches of flutter run, including relaunches by the restart policy */
+  attempts?: Array<Omit<FlutterRunAttempt, 'startedAt' | 'stoppedAt'> & { startedAt: string; stoppedAt?: string }>;
+} {
+  logger.info('Tool: flutter_status', args);
+
+  const session = sessionManager.getSession(args.sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${args.sessionId}`);
+  }
+
+  // Update session activity
+  sessionManager.updateSessionActivity(args.sessionId);
+
+  const flutterProcess = session.flutterProcessManager?.getStatus();
+  if (!flutterProcess) {
+    return { sessionId: args.sessionId, status: 'none', phaseHistory: [] };
+  }
+
+  // The last phase lasts until the process stopped, or until now while it is alive
+  const endOfLastPhase = flutterProcess.stoppedAt?.getTime() ?? Date.now();
+  const history = flutterProcess.phaseHistory;
+  const phaseHistory = history.map((transition, index) => ({
+    phase: transition.phase,
+    at: transition.at.toISOString(),
+    durationMs: (index + 1 < history.length ? history[index + 1].at.getTime() : endOfLastPhase) -
+      transition.at.getTime(),
+    line: transition.line,
+  }));
 
   return {
-    success: reloaded,
-    message: reloaded ? 'Hot reload triggered' : 'Failed to trigger hot reload',
+    sessionId: args.sessionId,
+    status: flutterProcess.status,
+    phase: flutterProcess.phase,
+    secondsInPhase: Math.floor(phaseHistory[phaseHistory.length - 1].durationMs / 1000),
+    pid: flutterProcess.pid,
+    appId: flutterProcess.appId,
+    machine: flutterProcess.machine,
+    attach: flutterProcess.attach,
+    startedAt: flutterProcess.startedAt.toISOString(),
+    stoppedAt: flutterProcess.stoppedAt?.toISOString(),
+    exitCode: flutterProcess.exitCode,
+    restarts: flutterProcess.restarts,
+    nextRestartAt: flutterProcess.nextRestartAt?.toISOString(),
+    watching: flutterProcess.watching,
+    autoReloads: flutterProcess.autoReloads?.map((record) => ({ ...record, at: record.at.toISOString() })),
+    phaseHistory,
+    attempts: session.flutterProcessManager?.getRunHistory().map((attempt) => ({
+      ...attempt,
+      startedAt: attempt.startedAt.toISOString(),
+      stoppedAt: attempt.stoppedAt?.toISOString(),
+    })),
   };
 }
 
-export function handleFlutterHotRestart(
+/**
+ * Report how to connect to the running app: the Dart VM service URI (HTTP and WebSocket)
+ * and the DevTools URL. They are only set while the app is attached. The proxy URIs reach
+ * the same VM service through this server, for clients that can't reach the host's loopback.
+ */
+export function handleFlutterVmServiceInfo(
   args: z.infer<typeof flutterCommandSchema>
 ): {
-  success: boolean;
+  sessionId: string;
+  available: boolean;
+  status: FlutterProcessStatus | 'none';
+  phase?: FlutterProcessPhase;
+  vmServiceUri?: string;
+  vmServiceWsUri?: string;
+  devToolsUri?: string;
+  proxy?: VmServiceProxyUris;
   message: string;
 } {
-  logger.info('Tool: flutter_hot_restart', args);
+  logger.info('Tool: flutter_vm_service_info', args);
 
   const session = sessionManager.getSession(args.sessionId);
   if (!session) {
@@ -193,21 +796,38 @@ export function handleFlutterHotRestart(
   // Update session activity
   sessionManager.updateSessionActivity(args.sessionId);
 
-  if (!session.flutterProcessManager) {
-    throw new Error('No Flutter process running for this session');
+  const flutterProcess = session.flutterProcessManager?.getStatus();
+  if (!flutterProcess) {
+    return {
+      sessionId: args.sessionId,
+      available: false,
+      status: 'none',
+      message: 'No Flutter process for this session. Call flutter_run first.',
+    };
   }
 
-  const restarted = session.flutterProcessManager.hotRestart();
-
+  const available = flutterProcess.vmServiceUri !== undefined;
   return {
-    success: restarted,
-    message: restarted ? 'Hot restart triggered' : 'Failed to trigger hot restart',
+    sessionId: args.sessionId,
+    available,
+    status: flutterProcess.status,
+    phase: flutterProcess.phase,
+    vmServiceUri: flutterProcess.vmServiceUri,
+    vmServiceWsUri: flutterProcess.vmServiceWsUri,
+    devToolsUri: flutterProcess.devToolsUri,
+    proxy: available
+      ? buildVmServiceProxyUris(args.sessionId, sessionManager.getVmServiceProxyToken(args.sessionId))
+      : undefined,
+    message: available
+      ? 'Dart VM service is available'
+      : `Dart VM service is not available (phase: ${flutterProcess.phase})`,
   };
 }
 
 export function handleFlutterLogs(
   args: z.infer<typeof flutterLogsSchema>
 ): {
+  runId?: string;
   logs: Array<{ line: string; timestamp: string; index: number }>;
   nextIndex: number;
   totalLines: number;
@@ -222,7 +842,18 @@ export function handleFlutterLogs(
   // Update session activity
   sessionManager.updateSessionActivity(args.sessionId);
 
-  if (!session.flutterProcessManager) {
+  let runId = session.flutterRuns?.at(-1)?.runId;
+  let processManager = session.flutterProcessManager;
+  if (args.runId) {
+    const run = session.flutterRuns?.find((candidate) => candidate.runId === args.runId);
+    if (!run) {
+      throw new Error(`Run not found: ${args.runId}. Use flutter_run_history to list the runs kept for this session.`);
+    }
+    runId = run.runId;
+    processManager = run.processManager;
+  }
+
+  if (!processManager) {
     return {
       logs: [],
       nextIndex: 0,
@@ -230,9 +861,10 @@ export function handleFlutterLogs(
     };
   }
 
-  const result = session.flutterProcessManager.getLogs(args.fromIndex, args.limit);
+  const result = processManager.getLogs(args.fromIndex, args.limit);
 
   return {
+    runId,
     logs: result.logs.map((log) => ({
       line: log.line,
       timestamp: log.timestamp.toISOString(),
@@ -243,6 +875,61 @@ export function handleFlutterLogs(
   };
 }
 
+/**
+ * List the session's recent flutter_run invocations with the options used, timing,
+ * exit code and final phase, oldest first.
+ */
+export function handleFlutterRunHistory(
+  args: z.infer<typeof flutterCommandSchema>
+): {
+  sessionId: string;
+  runs: Array<{
+    runId: string;
+    current: boolean;
+    options: SessionRunOptions;
+    status: FlutterProcessStatus;
+    phase: FlutterProcessPhase;
+    startedAt: string;
+    stoppedAt?: string;
+    durationMs: number;
+    exitCode?: number;
+    restarts?: number;
+    logLines: number;
+  }>;
+} {
+  logger.info('Tool: flutter_run_history', args);
+
+  const session = sessionManager.getSession(args.sessionId);
+  if (!session) {
+    throw new Error(`Session not found: ${args.sessionId}`);
+  }
+
+  // Update session activity
+  sessionManager.updateSessionActivity(args.sessionId);
+
+  const runs = (session.flutterRuns ?? []).flatMap(({ runId, options, processManager }) => {
+    const flutterProcess = processManager.getStatus();
+    if (!flutterProcess) {
+      return [];
+    }
+    return [{
+      runId,
+      current: processManager === session.flutterProcessManager,
+      options,
+      status: flutterProcess.status,
+      phase: flutterProcess.phase,
+      startedAt: flutterProcess.startedAt.toISOString(),
+      stoppedAt: flutterProcess.stoppedAt?.toISOString(),
+      durationMs: (flutterProcess.stoppedAt?.getTime() ?? Date.now()) - flutterProcess.startedAt.getTime(),
+      exitCode: flutterProcess.exitCode,
+      restarts: flutterProcess.restarts,
+      logLines: processManager.getLogs().totalLines,
+    }];
+  });
+
+  return { sessionId: args.sessionId, runs };
+}
+
 export const flutterBuildSchema = z.object({
   sessionId: z.string().describe('Session ID'),
   flavor: z.string().optional().describe('Build flavor'),
@@ -268,6 +955,8 @@ export async function handleFlutterBuild(
 ): Promise<{
   success: boolean;
   output: string;
+  /** Errors and warnings found in the output */
+  diagnostics: BuildDiagnostic[];
   exitCode: number;
   message: string;
 }> {
@@ -316,6 +1005,7 @@ export async function handleFlutterBuild(
   return {
     success,
     output,
+    diagnostics: parseDiagnostics([result.stdout, result.stderr].join('\n'), session.worktreePath),
     exitCode: result.exitCode,
     message: success
       ? 'Build completed successfully'
@@ -348,6 +1038,7 @@ export async function handleFlutterTest(
   const testArgs = ['test'];
 
   if (args.path) {
+    sessionManager.resolveSessionPath(args.sessionId, args.path, 'path');
     testArgs.push(args.path);
   }
 
@@ -385,6 +1076,8 @@ export async function handleFlutterClean(
 ): Promise<{
   success: boolean;
   output: string;
+  /** Errors and warnings found in the output */
+  diagnostics: BuildDiagnostic[];
   exitCode: number;
   message: string;
 }> {
@@ -411,6 +1104,7 @@ export async function handleFlutterClean(
   return {
     success,
     output,
+    diagnostics: parseDiagnostics([result.stdout, result.stderr].join('\n'), session.worktreePath),
     exitCode: result.exitCode,
     message: success
       ? 'Clean completed successfully'
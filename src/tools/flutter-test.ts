@@ -81,6 +81,8 @@ export function handleFlutterTest(
     if (args.testTarget.startsWith('/')) {
       throw new Error('testTarget must be a relative path');
     }
+    // Catch symlinks that point outside the allowed roots
+    sessionManager.resolveSessionPath(args.sessionId, args.testTarget, 'testTarget');
   }
 
   // Start the test run
@@ -97,7 +99,8 @@ export function handleFlutterTest(
 }
 
 export function handleFlutterTestResults(
-  args: z.infer<typeof flutterTestResultsSchema>
+  args: z.infer<typeof flutterTestResultsSchema>,
+  clientId?: string
 ): {
   reference: number;
   tests_complete: number;
@@ -113,6 +116,9 @@ export function handleFlutterTestResults(
   // Find the session that has this test reference
   let testManager: FlutterTestManager | undefined;
   for (const sessionId of sessionManager.getAllSessionIds()) {
+    if (!sessionManager.canAccessSession(sessionId, clientId)) {
+      continue;
+    }
     const session = sessionManager.getSession(sessionId);
     if (session?.testManager) {
       const refs = session.testManager.getAllReferences();
@@ -177,13 +183,17 @@ export function handleFlutterTestResults(
 }
 
 export function handleFlutterTestLogs(
-  args: z.infer<typeof flutterTestLogsSchema>
+  args: z.infer<typeof flutterTestLogsSchema>,
+  clientId?: string
 ): Array<{ test_name: string; output: string }> {
   logger.info('Tool: flutter_test_logs', args);
 
   // Find the session that has this test reference
   let testManager: FlutterTestManager | undefined;
   for (const sessionId of sessionManager.getAllSessionIds()) {
+    if (!sessionManager.canAccessSession(sessionId, clientId)) {
+      continue;
+    }
     const session = sessionManager.getSession(sessionId);
     if (session?.testManager) {
       const refs = session.testManager.getAllReferences();
@@ -1,27 +1,47 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { getServerBaseUrl } from '../config.js';
+import { sessionManager } from '../session/manager.js';
+import { CONTENT_SIZE_CATEGORIES } from '../simulator/simctl.js';
 import {
   sessionStartSchema,
   sessionEndSchema,
+  sessionListSchema,
+  sessionKeepaliveSchema,
   startSimulatorSchema,
   handleSessionStart,
   handleSessionEnd,
   handleStartSimulator,
   handleSessionList,
+  handleSessionKeepalive,
 } from './session.js';
-import { handleSimulatorList } from './simulator.js';
+import { simulatorReapSchema, handleSimulatorList, handleSimulatorReap } from './simulator.js';
 import {
   flutterRunSchema,
+  flutterAttachSchema,
   flutterCommandSchema,
+  flutterHotReloadSchema,
+  flutterHotRestartSchema,
+  flutterDebugCommandSchema,
+  flutterWidgetTreeSchema,
+  flutterDebugToggleSchema,
+  flutterEvaluateSchema,
   flutterLogsSchema,
   flutterBuildSchema,
   flutterCleanSchema,
   handleFlutterRun,
+  handleFlutterAttach,
   handleFlutterStop,
   handleFlutterHotReload,
+  handleFlutterDebugCommand,
+  handleFlutterWidgetTree,
+  handleFlutterDebugToggle,
+  handleFlutterEvaluate,
+  handleFlutterStatus,
+  handleFlutterVmServiceInfo,
   handleFlutterHotRestart,
   handleFlutterLogs,
+  handleFlutterRunHistory,
   handleFlutterBuild,
   handleFlutterClean,
 } from './flutter-commands.js';
@@ -65,11 +85,45 @@ export function registerTools(mcpServer: McpServer): void {
               type: 'string',
               description: 'Absolute path to your Flutter project directory (the folder containing pubspec.yaml)',
             },
+            label: {
+              type: 'string',
+              description: 'Human-readable label shown in session_list (e.g., "checkout flow - agent 3"). Max 100 characters.',
+            },
+            metadata: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Arbitrary key/value metadata shown in session_list and usable as a filter (e.g., {"agent": "reviewer", "branch": "feature/login", "ticket": "APP-123"})',
+            },
             deviceType: {
               type: 'string',
               description:
                 'iOS device type to simulate (e.g., "iPhone 16 Pro", "iPhone 15", "iPad Pro"). Defaults to "iPhone 16 Pro". Use simulator_list to see available types.',
             },
+            runtime: {
+              type: 'string',
+              description:
+                'iOS runtime for the simulator (e.g., "iOS 17.5", "iOS 18.0" or just "18.0"). Defaults to the newest installed runtime. Use simulator_list to see which runtimes each device type supports.',
+            },
+            attachTo: {
+              type: 'string',
+              description:
+                'UDID or name of an existing simulator to drive (e.g., one already open with your app state) instead of creating a new one. The simulator is booted if needed and left running when the session ends. Simulators the server manages itself (warm pool or other sessions) cannot be attached to.',
+            },
+            timeoutMinutes: {
+              type: 'number',
+              description:
+                'End this session after this many minutes without activity (0 = never). Overrides the server --session-timeout. Builds, hot reloads and flutter_test runs in progress count as activity; a launched app that is left alone does not.',
+            },
+            waitSeconds: {
+              type: 'number',
+              description:
+                'If the server is at its session limit, wait up to this many seconds (max 3600) for another session to end instead of failing immediately. Waiting requests appear in session_list\'s queue.',
+            },
+            priority: {
+              type: 'number',
+              description:
+                'Queue priority while waiting for a slot: higher values are served first, equal priorities in arrival order (default: 0)',
+            },
           },
           required: ['worktreePath'],
         },
@@ -92,7 +146,7 @@ export function registerTools(mcpServer: McpServer): void {
       {
         name: 'session_end',
         description:
-          'Clean up and end a Flutter development session. Gracefully stops the Flutter app, shuts down the simulator, and deletes it. Always call this when done to avoid leaving orphaned simulators running. Required before starting a new session for the same project.',
+          'Clean up and end a Flutter development session. Gracefully stops the Flutter app, shuts down the simulator, and deletes it (attached simulators are left running). Always call this when done to avoid leaving orphaned simulators running. Required before starting a new session for the same project.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -106,24 +160,78 @@ export function registerTools(mcpServer: McpServer): void {
       },
       {
         name: 'session_list',
-        description: 'List all currently active Flutter development sessions. Shows session IDs, project paths, simulator UDIDs, and device types. Useful for checking what sessions are running or finding a session ID you forgot.',
+        description: 'List all currently active Flutter development sessions. Shows session IDs, labels, metadata, project paths, simulator UDIDs, device types and idle time. Useful for checking what sessions are running or finding a session ID you forgot. Also returns the queue of session_start requests waiting for a free slot, with their positions. All filters are optional and combined and apply to sessions only.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            label: {
+              type: 'string',
+              description: 'Only sessions whose label contains this text (case-insensitive)',
+            },
+            metadata: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Only sessions whose metadata contains all of these key/value pairs (e.g., {"branch": "main"})',
+            },
+            worktreePath: {
+              type: 'string',
+              description: 'Only sessions for projects in this directory or below',
+            },
+            flutterStatus: {
+              type: 'string',
+              enum: ['starting', 'running', 'hot-reloading', 'stopped', 'failed', 'none'],
+              description: 'Only sessions whose Flutter process has this status ("none" for sessions without a Flutter process)',
+            },
+          },
+        },
+      },
+      {
+        name: 'session_keepalive',
+        description: 'Keep a session from being ended for inactivity, e.g. while you think or wait on something outside this server. Counts as activity and returns when the session will expire (expiresAt). Optionally changes the session\'s inactivity timeout.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
+            timeoutMinutes: {
+              type: 'number',
+              description: 'New inactivity timeout for this session in minutes (0 = never expire)',
+            },
+          },
+          required: ['sessionId'],
         },
       },
       {
         name: 'simulator_list',
-        description: 'List all available iOS device types that can be used for simulator creation. Use this to see valid options for the deviceType parameter in session_start (e.g., "iPhone 16 Pro", "iPhone 15", "iPad Pro 12.9-inch").',
+        description: 'List all available iOS device types that can be used for simulator creation, with the runtimes each one supports. When a warm simulator pool is configured, also reports its idle, checked-out and warming simulators per device type. Use this to see valid options for the deviceType and runtime parameters in session_start (e.g., "iPhone 16 Pro", "iPhone 15", "iPad Pro 12.9-inch").',
         inputSchema: {
           type: 'object',
           properties: {},
         },
       },
+      {
+        name: 'simulator_reap',
+        description: 'Find simulators created by this server (named "MCP-<timestamp>") that no active session owns, e.g. left behind by a server crash. By default this is a dry run that only reports them; set dryRun=false to shut down and delete them. Simulators younger than the grace age are never reaped. Simulators of other servers running on the same host are not known to this one and count as orphaned.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            dryRun: {
+              type: 'boolean',
+              description: 'If true (default), only report orphaned simulators. If false, shut down and delete them.',
+            },
+            graceMinutes: {
+              type: 'number',
+              description: 'Minimum age in minutes before an unowned simulator counts as orphaned (default: server setting, 10)',
+            },
+          },
+        },
+      },
       {
         name: 'flutter_run',
         description:
-          'Build and launch the Flutter app on the simulator. This starts the Flutter development server and runs your app. Returns immediately with process info - the app builds in the background. Use flutter_logs to monitor build progress and see any errors. First build may take 1-2 minutes.',
+          'Build and launch the Flutter app on the simulator. This starts the Flutter development server and runs your app. Returns immediately with process info - the app builds in the background - unless waitForReady is set. Use flutter_logs to monitor build progress and see any errors. First build may take 1-2 minutes.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -144,6 +252,107 @@ export function registerTools(mcpServer: McpServer): void {
               items: { type: 'string' },
               description: 'Additional Flutter CLI arguments',
             },
+            machine: {
+              type: 'boolean',
+              description:
+                'Run with "flutter run --machine" and control the app through its JSON protocol instead of keystrokes. Status then reflects the real app state (running only once the app has started) and reload/restart failures are reported in flutter_logs. Default: false',
+            },
+            waitForReady: {
+              type: 'boolean',
+              description:
+                'Block until the app is attached to the debugger or startup fails, instead of returning immediately. The result then includes a "ready" report with elapsed time, VM service URL, build errors, structured diagnostics (severity, source, file, line, column, message), the error block explaining a failure, and the tail of the startup log. Default: false',
+            },
+            readyTimeoutSeconds: {
+              type: 'number',
+              description: 'Maximum seconds to wait when waitForReady is set (1-1800, default: 300). The app keeps starting in the background after a timeout.',
+            },
+            restartPolicy: {
+              type: 'object',
+              description:
+                'Opt in to relaunching flutter run with the same options when it exits unexpectedly (app crash, lost device connection). Not applied after flutter_stop or when the build failed with compile errors. Each launch and its exit code is listed in flutter_status "attempts".',
+              properties: {
+                maxAttempts: {
+                  type: 'number',
+                  description: 'Relaunches before giving up (1-20, default: 3)',
+                },
+                backoffSeconds: {
+                  type: 'number',
+                  description: 'Delay before the first relaunch, doubled for each further one (default: 2)',
+                },
+                maxBackoffSeconds: {
+                  type: 'number',
+                  description: 'Upper bound for the delay between relaunches (default: 60)',
+                },
+                onlyOnFailure: {
+                  type: 'boolean',
+                  description: 'Only relaunch after a non-zero exit code; set false to also relaunch after a clean exit (default: true)',
+                },
+              },
+            },
+            watch: {
+              type: 'object',
+              description:
+                'Opt in to hot reloading automatically when files in the project change, so edits made in the shared worktree show up without calling flutter_hot_reload. Changes are debounced and batched; files matching restartOn trigger a hot restart instead, and a rejected reload falls back to a restart. Each automatic reload is logged with a "[watch]" prefix in flutter_logs and listed in flutter_status "autoReloads". Pass {} for the defaults.',
+              properties: {
+                include: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Globs of files to watch, relative to the project (default: ["lib/**/*.dart"])',
+                },
+                restartOn: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Globs whose changes need a hot restart (default: ["lib/main.dart", "pubspec.yaml"]). Dependency changes still need flutter pub get and a new flutter_run.',
+                },
+                debounceMs: {
+                  type: 'number',
+                  description: 'Milliseconds to wait after the last change before reloading (50-10000, default: 300)',
+                },
+              },
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'flutter_attach',
+        description:
+          'Attach to a Flutter app that is already running on the session simulator (launched from Xcode, by a person, or by a previous server instance) with "flutter attach". The attached app is managed like one from flutter_run: flutter_logs, flutter_hot_reload, flutter_hot_restart, flutter_stop, flutter_status and flutter_run_history all work. Requires the session simulator to be booted and the app to be a debug build.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
+            appId: {
+              type: 'string',
+              description: 'Bundle id of the app to attach to (e.g. "com.example.app"), when several Flutter apps run on the simulator',
+            },
+            vmServiceUri: {
+              type: 'string',
+              description: 'VM service URL of a specific app instance, as printed by the app (e.g. "http://127.0.0.1:55123/AbCd=/")',
+            },
+            target: {
+              type: 'string',
+              description: 'Entry point the app was built from, relative to the project (default: lib/main.dart). Needed for hot reload to compile the right sources.',
+            },
+            flavor: {
+              type: 'string',
+              description: 'Build flavor the app was built with',
+            },
+            machine: {
+              type: 'boolean',
+              description: 'Run with "flutter attach --machine" and control the app through its JSON protocol instead of keystrokes. Default: false',
+            },
+            waitForReady: {
+              type: 'boolean',
+              description: 'Block until the app is attached or attaching fails, and return the same "ready" report as flutter_run. Default: false',
+            },
+            readyTimeoutSeconds: {
+              type: 'number',
+              description: 'Maximum seconds to wait when waitForReady is set (1-1800, default: 120)',
+            },
           },
           required: ['sessionId'],
         },
@@ -164,7 +373,7 @@ export function registerTools(mcpServer: McpServer): void {
       },
       {
         name: 'flutter_hot_reload',
-        description: 'Perform a hot reload - quickly inject updated code into the running app while preserving state. Use this after making code changes to see them instantly without restarting. Faster than hot restart but cannot handle certain changes (new dependencies, native code, etc).',
+        description: 'Perform a hot reload - quickly inject updated code into the running app while preserving state. Use this after making code changes to see them instantly without restarting. Faster than hot restart but cannot handle certain changes (new dependencies, native code, etc). Waits for the reload to finish and returns success, durationMs, librariesReloaded and any compileErrors (also as structured diagnostics), so the UI is up to date when it returns.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -172,13 +381,185 @@ export function registerTools(mcpServer: McpServer): void {
               type: 'string',
               description: 'Session ID from session_start',
             },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'Seconds to wait for the reload to finish (default: 30). The result has timedOut=true if it did not finish in time.',
+            },
+            fallbackToRestart: {
+              type: 'boolean',
+              description: 'If the reload is rejected because the changes cannot be applied (e.g. const or enum changes), perform a hot restart instead. The result then has fellBackToRestart=true. Default: false',
+            },
           },
           required: ['sessionId'],
         },
       },
       {
         name: 'flutter_hot_restart',
-        description: 'Perform a hot restart - restart the app from scratch while keeping the same build. Slower than hot reload but handles more types of changes. Use when hot reload fails or when you need to reset app state.',
+        description: 'Perform a hot restart - restart the app from scratch while keeping the same build. Slower than hot reload but handles more types of changes. Use when hot reload fails or when you need to reset app state. Waits for the restart to finish and returns success, durationMs and any compileErrors (also as structured diagnostics).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'Seconds to wait for the restart to finish (default: 60)',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'flutter_debug_command',
+        description:
+          'Send a flutter run debug key to the running app and return what it prints as one result, instead of searching flutter_logs. Dumps wait for their output to finish; toggles return after a short quiet period. Not available with machine: true.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
+            command: {
+              type: 'string',
+              enum: [
+                'widget-tree',
+                'render-tree',
+                'layer-tree',
+                'semantics-traversal-order',
+                'semantics-hit-test-order',
+                'debug-paint',
+                'performance-overlay',
+                'platform',
+                'widget-inspector',
+              ],
+              description:
+                'widget-tree (w): dump the widget hierarchy; render-tree (t): dump the render tree; layer-tree (L): dump the layer tree; semantics-traversal-order (S) / semantics-hit-test-order (U): dump the accessibility tree; debug-paint (p): toggle construction lines; performance-overlay (P): toggle the performance overlay; platform (o): switch between iOS and Android behavior; widget-inspector (i): toggle the widget inspector',
+            },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'Maximum seconds to wait for the output (1-120, default: 10)',
+            },
+            maxLines: {
+              type: 'number',
+              description: 'Maximum number of output lines to return (default: 2000). lineCount and truncated report the full size.',
+            },
+          },
+          required: ['sessionId', 'command'],
+        },
+      },
+      {
+        name: 'flutter_widget_tree',
+        description:
+          'Get the running app\'s widget tree from the Flutter inspector as JSON: widget type, key, text and the source location (file:line:column) where each widget was created, so you can map what is on screen back to code. Without id, returns the summary tree of widgets created by the app\'s own code; pass a node\'s id to get its detailed subtree with properties. Ids stay valid until the next request without id. Requires a debug build with the app attached.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
+            id: {
+              type: 'string',
+              description: 'Widget id from an earlier flutter_widget_tree result to fetch that widget\'s subtree',
+            },
+            maxDepth: {
+              type: 'number',
+              description: 'Levels of the tree to include (1-200, default: 30). Deeper nodes report omittedChildren instead of children.',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'flutter_debug_toggle',
+        description:
+          'Change runtime debug settings of the running app without editing code: animation speed (timeDilation), debug paint (layout bounds), performance overlay, platform override, brightness override and text size (text scale factor). Omitted settings are left unchanged; the response reports the current value of every setting. A hot restart resets all of them to their defaults except textSize, which is the simulator\'s Dynamic Type setting: it survives restarts and affects every app on the simulator. Requires a debug build with the app attached.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
+            timeDilation: {
+              type: 'number',
+              description: 'Animation slow-down factor (0.1-100). 1 is normal speed, 5 matches "slow animations" in DevTools.',
+            },
+            debugPaint: {
+              type: 'boolean',
+              description: 'Show layout bounds, padding and alignment (debugPaintSizeEnabled)',
+            },
+            performanceOverlay: {
+              type: 'boolean',
+              description: 'Show the performance overlay with UI and raster thread timings',
+            },
+            platform: {
+              type: 'string',
+              enum: ['iOS', 'android', 'macOS', 'fuchsia', 'linux', 'windows', 'default'],
+              description: 'Make the app behave as another platform (scrolling physics, page transitions, ...). "default" removes the override.',
+            },
+            brightness: {
+              type: 'string',
+              enum: ['light', 'dark', 'default'],
+              description: 'Force light or dark brightness. "default" follows the simulator setting.',
+            },
+            textSize: {
+              type: 'string',
+              enum: [...CONTENT_SIZE_CATEGORIES],
+              description: 'Dynamic Type text size of the simulator, which Flutter turns into the text scale factor (MediaQuery.textScaler). "large" is the iOS default (scale 1.0); the accessibility sizes scale text up to roughly 3x. There is no service extension for the text scale factor, so this changes the simulator setting.',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'flutter_evaluate',
+        description:
+          'Evaluate a Dart expression in the running app and return the result\'s kind (String, Int, List, PlainInstance, Null, ...), class and string value, to read app state without adding print statements. The expression runs in the root library (lib/main.dart) unless libraryUri names another loaded library, and can use anything visible there (top-level variables, imports, static members). Objects without a built-in string value are described with toString(). An exception thrown by the expression is returned with kind "Error" and success false. Requires a debug build with the app attached and not paused.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
+            expression: {
+              type: 'string',
+              description: 'Dart expression, e.g. "counterNotifier.value" or "MyApp.router.location"',
+            },
+            libraryUri: {
+              type: 'string',
+              description: 'URI of the library to evaluate in, e.g. "package:my_app/state/cart.dart" (default: the app\'s root library)',
+            },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'Seconds to wait for the result (1-60, default: 10)',
+            },
+          },
+          required: ['sessionId', 'expression'],
+        },
+      },
+      {
+        name: 'flutter_status',
+        description: 'Get where the Flutter app is in its lifecycle: status plus phase (starting, resolving-dependencies, pod-install, xcode-build, installing, launching, attached, app-exited, disconnected), seconds spent in the current phase, and the history of phase transitions with timestamps. Use this after flutter_run to decide whether to keep waiting (e.g. still in xcode-build) or act (attached). With a restart policy, also reports restarts, nextRestartAt and every launch attempt with its exit code. With watch mode, also reports the automatic reloads made after file changes. status is "none" if flutter_run has not been called.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'flutter_vm_service_info',
+        description:
+          'Get the Dart VM service URI (HTTP and WebSocket) and the Flutter DevTools URL of the running app, for connecting debuggers, profilers or VM service clients. The URIs are set once the app is attached, replaced when flutter announces new ones, and cleared when the app or flutter process exits. available is false until then. The VM service only listens on the host\'s loopback interface; from a container use the proxy URIs, which forward HTTP and WebSocket traffic through this server and only work for the session\'s owner.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -193,7 +574,7 @@ export function registerTools(mcpServer: McpServer): void {
       {
         name: 'flutter_logs',
         description:
-          'Retrieve Flutter build output and app logs. Logs are buffered in memory - use fromIndex to poll for new logs since your last check. Essential for monitoring build progress, debugging errors, and seeing app output (print statements, exceptions, etc).',
+          'Retrieve Flutter build output and app logs of the current run, or of an earlier run with runId. Logs are buffered in memory - use fromIndex to poll for new logs since your last check. Essential for monitoring build progress, debugging errors, and seeing app output (print statements, exceptions, etc).',
         inputSchema: {
           type: 'object',
           properties: {
@@ -209,6 +590,25 @@ export function registerTools(mcpServer: McpServer): void {
               type: 'number',
               description: 'Maximum number of log lines to return (default: 100). Use smaller values for frequent polling.',
             },
+            runId: {
+              type: 'string',
+              description: 'Read the logs of an earlier run from flutter_run_history instead of the current one, e.g. to compare a failing run with the last successful one',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'flutter_run_history',
+        description:
+          'List the recent flutter_run invocations of the session (up to 10, oldest first): runId, the options used, start and stop time, duration, exit code, final status and phase, restarts and the number of retained log lines. Each run keeps its logs after the next flutter_run; pass its runId to flutter_logs to read them.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID from session_start',
+            },
           },
           required: ['sessionId'],
         },
@@ -216,7 +616,7 @@ export function registerTools(mcpServer: McpServer): void {
       {
         name: 'flutter_build',
         description:
-          'Build the Flutter app for iOS without running it. This is a one-shot command that compiles the app and returns the full build output. Useful for verifying builds succeed before deployment or testing. Unlike flutter_run, this does not start an ongoing process.',
+          'Build the Flutter app for iOS without running it. This is a one-shot command that compiles the app and returns the full build output plus diagnostics: Dart, Xcode, CocoaPods and Gradle errors and warnings as {severity, source, file, line, column, message} records with paths relative to the project. Useful for verifying builds succeed before deployment or testing. Unlike flutter_run, this does not start an ongoing process.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -326,7 +726,7 @@ export function registerTools(mcpServer: McpServer): void {
       {
         name: 'flutter_clean',
         description:
-          'Clean the Flutter project build cache and remove build artifacts. This removes the build/ directory and other cached files. Useful when builds fail or when switching between branches with different dependencies. Returns the output of the clean operation.',
+          'Clean the Flutter project build cache and remove build artifacts. This removes the build/ directory and other cached files. Useful when builds fail or when switching between branches with different dependencies. Returns the output of the clean operation and any diagnostics found in it.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -469,16 +869,22 @@ export function registerTools(mcpServer: McpServer): void {
     ],
   }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
+    // MCP session ID of the calling client; sessions are scoped to the client that created them
+    const clientId = extra.sessionId;
 
-    logger.info('Tool called', { name, args });
+    logger.info('Tool called', { name, args, clientId });
 
     try {
+      if (typeof args?.sessionId === 'string') {
+        sessionManager.assertSessionAccess(args.sessionId, clientId);
+      }
+
       switch (name) {
         case 'session_start': {
           const parsed = sessionStartSchema.parse(args);
-          const result = handleSessionStart(parsed);
+          const result = await handleSessionStart(parsed, clientId);
           return {
             content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
           };
@@ -501,7 +907,16 @@ export function registerTools(mcpServer: McpServer): void {
         }
 
         case 'session_list': {
-          const result = handleSessionList();
+          const parsed = sessionListSchema.parse(args ?? {});
+          const result = handleSessionList(parsed, clientId);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case 'session_keepalive': {
+          const parsed = sessionKeepaliveSchema.parse(args);
+          const result = handleSessionKeepalive(parsed);
           return {
             content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
           };
@@ -514,6 +929,14 @@ export function registerTools(mcpServer: McpServer): void {
           };
         }
 
+        case 'simulator_reap': {
+          const parsed = simulatorReapSchema.parse(args);
+          const result = await handleSimulatorReap(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
         case 'flutter_run': {
           const parsed = flutterRunSchema.parse(args);
           const result = await handleFlutterRun(parsed);
@@ -522,6 +945,14 @@ export function registerTools(mcpServer: McpServer): void {
           };
         }
 
+        case 'flutter_attach': {
+          const parsed = flutterAttachSchema.parse(args);
+          const result = await handleFlutterAttach(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
         case 'flutter_stop': {
           const parsed = flutterCommandSchema.parse(args);
           const result = handleFlutterStop(parsed);
@@ -531,16 +962,64 @@ export function registerTools(mcpServer: McpServer): void {
         }
 
         case 'flutter_hot_reload': {
-          const parsed = flutterCommandSchema.parse(args);
-          const result = handleFlutterHotReload(parsed);
+          const parsed = flutterHotReloadSchema.parse(args);
+          const result = await handleFlutterHotReload(parsed);
           return {
             content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
           };
         }
 
         case 'flutter_hot_restart': {
+          const parsed = flutterHotRestartSchema.parse(args);
+          const result = await handleFlutterHotRestart(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case 'flutter_debug_command': {
+          const parsed = flutterDebugCommandSchema.parse(args);
+          const result = await handleFlutterDebugCommand(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case 'flutter_widget_tree': {
+          const parsed = flutterWidgetTreeSchema.parse(args);
+          const result = await handleFlutterWidgetTree(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case 'flutter_debug_toggle': {
+          const parsed = flutterDebugToggleSchema.parse(args);
+          const result = await handleFlutterDebugToggle(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case 'flutter_evaluate': {
+          const parsed = flutterEvaluateSchema.parse(args);
+          const result = await handleFlutterEvaluate(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case 'flutter_status': {
           const parsed = flutterCommandSchema.parse(args);
-          const result = handleFlutterHotRestart(parsed);
+          const result = handleFlutterStatus(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
+        case 'flutter_vm_service_info': {
+          const parsed = flutterCommandSchema.parse(args);
+          const result = handleFlutterVmServiceInfo(parsed);
           return {
             content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
           };
@@ -554,6 +1033,14 @@ export function registerTools(mcpServer: McpServer): void {
           };
         }
 
+        case 'flutter_run_history': {
+          const parsed = flutterCommandSchema.parse(args);
+          const result = handleFlutterRunHistory(parsed);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        }
+
         case 'flutter_build': {
           const parsed = flutterBuildSchema.parse(args);
           const result = await handleFlutterBuild(parsed);
@@ -572,7 +1059,7 @@ export function registerTools(mcpServer: McpServer): void {
 
         case 'flutter_test_results': {
           const parsed = flutterTestResultsSchema.parse(args);
-          const result = handleFlutterTestResults(parsed);
+          const result = handleFlutterTestResults(parsed, clientId);
           return {
             content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
           };
@@ -580,7 +1067,7 @@ export function registerTools(mcpServer: McpServer): void {
 
         case 'flutter_test_logs': {
           const parsed = flutterTestLogsSchema.parse(args);
-          const result = handleFlutterTestLogs(parsed);
+          const result = handleFlutterTestLogs(parsed, clientId);
           return {
             content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
           };
@@ -1,30 +1,39 @@
 import { jest, describe, it, expect, beforeEach } from '@jest/globals';
-import type { SessionInfo } from '../session/types.js';
+import type { QueuedSessionInfo, SessionInfo } from '../session/types.js';
 
-const mockCreateSession = jest.fn<() => SessionInfo>();
+const mockCreateSession = jest.fn<() => Promise<SessionInfo>>();
 const mockEndSession = jest.fn<() => Promise<void>>();
 const mockListSessions = jest.fn<() => SessionInfo[]>();
+const mockGetSessionQueue = jest.fn<() => QueuedSessionInfo[]>();
+const mockKeepaliveSession = jest.fn<
+  (sessionId: string, timeoutMinutes?: number) => { timeoutMinutes?: number; expiresAt?: string }
+>();
 
 jest.unstable_mockModule('../session/manager.js', () => ({
   sessionManager: {
     createSession: mockCreateSession,
     endSession: mockEndSession,
     listSessions: mockListSessions,
+    getSessionQueue: mockGetSessionQueue,
+    keepaliveSession: mockKeepaliveSession,
   },
 }));
 
-const { handleSessionStart, handleSessionEnd, handleSessionList } = await import('./session.js');
+const { handleSessionStart, handleSessionEnd, handleSessionList, handleSessionKeepalive } =
+  await import('./session.js');
 
 describe('Session Tools', () => {
   beforeEach(() => {
     mockCreateSession.mockClear();
     mockEndSession.mockClear();
     mockListSessions.mockClear();
+    mockGetSessionQueue.mockReset();
+    mockGetSessionQueue.mockReturnValue([]);
   });
 
   describe('handleSessionStart', () => {
-    it('should create session with default device type', () => {
-      mockCreateSession.mockReturnValue({
+    it('should create session with default device type', async () => {
+      mockCreateSession.mockResolvedValue({
         id: 'session-123',
         worktreePath: '/path/to/worktree',
         // No simulatorUdid - lazy initialization
@@ -32,13 +41,15 @@ describe('Session Tools', () => {
         createdAt: '2025-01-01T00:00:00.000Z',
       });
 
-      const result = handleSessionStart({
+      const result = await handleSessionStart({
         worktreePath: '/path/to/worktree',
       });
 
       expect(mockCreateSession).toHaveBeenCalledWith({
         worktreePath: '/path/to/worktree',
         deviceType: undefined,
+        runtime: undefined,
+        attachTo: undefined,
       });
 
       expect(result).toEqual({
@@ -48,8 +59,8 @@ describe('Session Tools', () => {
       });
     });
 
-    it('should create session with custom device type', () => {
-      mockCreateSession.mockReturnValue({
+    it('should create session with custom device type', async () => {
+      mockCreateSession.mockResolvedValue({
         id: 'session-123',
         worktreePath: '/path/to/worktree',
         // No simulatorUdid - lazy initialization
@@ -57,7 +68,7 @@ describe('Session Tools', () => {
         createdAt: '2025-01-01T00:00:00.000Z',
       });
 
-      const result = handleSessionStart({
+      const result = await handleSessionStart({
         worktreePath: '/path/to/worktree',
         deviceType: 'iPhone 15',
       });
@@ -65,10 +76,39 @@ describe('Session Tools', () => {
       expect(mockCreateSession).toHaveBeenCalledWith({
         worktreePath: '/path/to/worktree',
         deviceType: 'iPhone 15',
+        runtime: undefined,
+        attachTo: undefined,
       });
 
       expect(result.deviceType).toBe('iPhone 15');
     });
+
+    it('should return the simulator when attaching to an existing one', async () => {
+      mockCreateSession.mockResolvedValue({
+        id: 'session-123',
+        worktreePath: '/path/to/worktree',
+        simulatorUdid: 'EXISTING-UDID',
+        attachedSimulator: true,
+        deviceType: 'iPhone 15',
+        createdAt: '2025-01-01T00:00:00.000Z',
+      });
+
+      const result = await handleSessionStart({
+        worktreePath: '/path/to/worktree',
+        attachTo: 'EXISTING-UDID',
+      });
+
+      expect(mockCreateSession).toHaveBeenCalledWith({
+        worktreePath: '/path/to/worktree',
+        deviceType: undefined,
+        runtime: undefined,
+        attachTo: 'EXISTING-UDID',
+      });
+      expect(result).toMatchObject({
+        simulatorUdid: 'EXISTING-UDID',
+        attachedSimulator: true,
+      });
+    });
   });
 
   describe('handleSessionEnd', () => {
@@ -85,6 +125,28 @@ describe('Session Tools', () => {
     });
   });
 
+  describe('handleSessionKeepalive', () => {
+    it('should report when the session expires', () => {
+      mockKeepaliveSession.mockReturnValue({
+        timeoutMinutes: 30,
+        expiresAt: '2025-01-01T00:30:00.000Z',
+      });
+
+      const result = handleSessionKeepalive({ sessionId: 'session-123', timeoutMinutes: 30 });
+
+      expect(mockKeepaliveSession).toHaveBeenCalledWith('session-123', 30);
+      expect(result.message).toBe('Session session-123 kept alive until 2025-01-01T00:30:00.000Z');
+    });
+
+    it('should report sessions that never expire', () => {
+      mockKeepaliveSession.mockReturnValue({});
+
+      const result = handleSessionKeepalive({ sessionId: 'session-123' });
+
+      expect(result.message).toBe('Session session-123 does not expire');
+    });
+  });
+
   describe('handleSessionList', () => {
     it('should list all sessions', async () => {
       mockListSessions.mockReturnValue([
@@ -118,6 +180,39 @@ describe('Session Tools', () => {
       const result = await handleSessionList();
 
       expect(result.sessions).toEqual([]);
+      expect(result.queue).toEqual([]);
+    });
+
+    it('should include queued session requests for the calling client', () => {
+      mockListSessions.mockReturnValue([]);
+      mockGetSessionQueue.mockReturnValue([
+        {
+          position: 1,
+          label: 'waiting agent',
+          worktreePath: '/path/3',
+          priority: 0,
+          queuedAt: '2025-01-03T00:00:00.000Z',
+          waitedSeconds: 12,
+          expiresInSeconds: 48,
+        },
+      ]);
+
+      const result = handleSessionList({}, 'client-a');
+
+      expect(mockGetSessionQueue).toHaveBeenCalledWith('client-a');
+      expect(result.queue).toHaveLength(1);
+      expect(result.queue[0].position).toBe(1);
+    });
+
+    it('should pass filters and the calling client to the session manager', () => {
+      mockListSessions.mockReturnValue([]);
+
+      handleSessionList({ label: 'checkout', flutterStatus: 'running' }, 'client-a');
+
+      expect(mockListSessions).toHaveBeenCalledWith('client-a', {
+        label: 'checkout',
+        flutterStatus: 'running',
+      });
     });
   });
 });
@@ -1,13 +1,75 @@
 import { z } from 'zod';
 import { sessionManager } from '../session/manager.js';
+import { QueuedSessionInfo, SessionInfo } from '../session/types.js';
 import { logger } from '../utils/logger.js';
 
 export const sessionStartSchema = z.object({
   worktreePath: z.string().describe('Absolute path to Flutter project directory'),
+  label: z
+    .string()
+    .max(100)
+    .optional()
+    .describe('Human-readable label for the session (e.g., "checkout flow - agent 3")'),
+  metadata: z
+    .record(z.string().max(200))
+    .optional()
+    .describe('Key/value metadata such as agent name, branch or ticket'),
   deviceType: z
     .string()
     .optional()
     .describe('iOS device type (e.g., "iPhone 16 Pro"). Defaults to "iPhone 16 Pro"'),
+  runtime: z
+    .string()
+    .optional()
+    .describe('iOS runtime (e.g., "iOS 17.5" or "18.0"). Defaults to the newest installed runtime'),
+  attachTo: z
+    .string()
+    .optional()
+    .describe('UDID or name of an existing simulator to use instead of creating one'),
+  timeoutMinutes: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('End the session after this many idle minutes (0 = never). Defaults to the server setting'),
+  waitSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .max(3600)
+    .optional()
+    .describe('Wait up to this many seconds for a free slot when the session limit is reached'),
+  priority: z
+    .number()
+    .int()
+    .optional()
+    .describe('Queue priority while waiting for a slot (higher first, default 0)'),
+});
+
+export const sessionKeepaliveSchema = z.object({
+  sessionId: z.string().describe('Session ID to keep alive'),
+  timeoutMinutes: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Optionally change the inactivity timeout for this session (0 = never)'),
+});
+
+export const sessionListSchema = z.object({
+  label: z.string().optional().describe('Only sessions whose label contains this text (case-insensitive)'),
+  metadata: z
+    .record(z.string())
+    .optional()
+    .describe('Only sessions whose metadata contains all of these key/value pairs'),
+  worktreePath: z
+    .string()
+    .optional()
+    .describe('Only sessions for projects in this directory or below'),
+  flutterStatus: z
+    .enum(['starting', 'running', 'hot-reloading', 'stopped', 'failed', 'none'])
+    .optional()
+    .describe('Only sessions whose Flutter process has this status ("none" for no process)'),
 });
 
 export const sessionEndSchema = z.object({
@@ -18,24 +80,67 @@ export const startSimulatorSchema = z.object({
   sessionId: z.string().describe('Session ID'),
 });
 
-export function handleSessionStart(
-  args: z.infer<typeof sessionStartSchema>
-): {
+export async function handleSessionStart(
+  args: z.infer<typeof sessionStartSchema>,
+  clientId?: string
+): Promise<{
   sessionId: string;
+  label?: string;
+  metadata?: Record<string, string>;
   deviceType: string;
   worktreePath: string;
-} {
+  runtime?: string;
+  simulatorUdid?: string;
+  attachedSimulator?: boolean;
+  expiresAt?: string;
+}> {
   logger.info('Tool: session_start', args);
 
-  const session = sessionManager.createSession({
+  const session = await sessionManager.createSession({
     worktreePath: args.worktreePath,
+    label: args.label,
+    metadata: args.metadata,
     deviceType: args.deviceType,
+    runtime: args.runtime,
+    attachTo: args.attachTo,
+    timeoutMinutes: args.timeoutMinutes,
+    waitSeconds: args.waitSeconds,
+    priority: args.priority,
+    ownerId: clientId,
   });
 
   return {
     sessionId: session.id,
+    label: session.label,
+    metadata: session.metadata,
     deviceType: session.deviceType,
     worktreePath: session.worktreePath,
+    runtime: session.runtime,
+    simulatorUdid: session.simulatorUdid,
+    attachedSimulator: session.attachedSimulator,
+    expiresAt: session.expiresAt,
+  };
+}
+
+export function handleSessionKeepalive(
+  args: z.infer<typeof sessionKeepaliveSchema>
+): {
+  sessionId: string;
+  timeoutMinutes?: number;
+  expiresAt?: string;
+  expiresInSeconds?: number;
+  message: string;
+} {
+  logger.info('Tool: session_keepalive', args);
+
+  const expiry = sessionManager.keepaliveSession(args.sessionId, args.timeoutMinutes);
+
+  return {
+    sessionId: args.sessionId,
+    ...expiry,
+    message: expiry.expiresAt
+      ? `Session ${args.sessionId} kept alive until ${expiry.expiresAt}`
+      : `Session ${args.sessionId} does not expire`,
   };
 }
 
@@ -66,18 +171,17 @@ export async function handleStartSimulator(
   };
 }
 
-export function handleSessionList(): {
-  sessions: Array<{
-    id: string;
-    worktreePath: string;
-    simulatorUdid?: string;
-    deviceType: string;
-    createdAt: string;
-  }>;
+export function handleSessionList(
+  args: z.infer<typeof sessionListSchema> = {},
+  clientId?: string
+): {
+  sessions: SessionInfo[];
+  queue: QueuedSessionInfo[];
 } {
-  logger.info('Tool: session_list');
+  logger.info('Tool: session_list', args);
 
-  const sessions = sessionManager.listSessions();
+  const sessions = sessionManager.listSessions(clientId, args);
+  const queue = sessionManager.getSessionQueue(clientId);
 
-  return { sessions };
+  return { sessions, queue };
 }
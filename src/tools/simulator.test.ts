@@ -1,17 +1,34 @@
 import { jest, describe, it, expect, beforeEach } from '@jest/globals';
-import type { DeviceType } from '../simulator/types.js';
+import type { DeviceType, Runtime } from '../simulator/types.js';
+import type { ReapReport } from '../simulator/reaper.js';
+import type { PoolStatus } from '../simulator/pool.js';
 
 const mockListDeviceTypes = jest.fn<() => Promise<DeviceType[]>>();
+const mockListRuntimes = jest.fn<() => Promise<Runtime[]>>();
+const mockReapOrphanedSimulators = jest.fn<(dryRun?: boolean, graceMinutes?: number) => Promise<ReapReport>>();
+const mockGetPoolStatus = jest.fn<() => PoolStatus[] | undefined>();
 
 jest.unstable_mockModule('../simulator/simctl.js', () => ({
   listDeviceTypes: mockListDeviceTypes,
+  listRuntimes: mockListRuntimes,
 }));
 
-const { handleSimulatorList } = await import('./simulator.js');
+jest.unstable_mockModule('../session/manager.js', () => ({
+  sessionManager: {
+    reapOrphanedSimulators: mockReapOrphanedSimulators,
+    getPoolStatus: mockGetPoolStatus,
+  },
+}));
+
+const { simulatorReapSchema, handleSimulatorList, handleSimulatorReap } = await import('./simulator.js');
 
 describe('Simulator Tools', () => {
   beforeEach(() => {
     mockListDeviceTypes.mockClear();
+    mockListRuntimes.mockReset();
+    mockListRuntimes.mockResolvedValue([]);
+    mockReapOrphanedSimulators.mockClear();
+    mockGetPoolStatus.mockReset();
   });
 
   describe('handleSimulatorList', () => {
@@ -29,6 +46,39 @@ describe('Simulator Tools', () => {
       expect(result.deviceTypes[1].name).toBe('iPhone 15');
     });
 
+    it('should report the available runtimes for each device type', async () => {
+      mockListDeviceTypes.mockResolvedValue([
+        { name: 'iPhone 16 Pro', identifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro' },
+        { name: 'iPhone 15', identifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-15' },
+      ]);
+      mockListRuntimes.mockResolvedValue([
+        {
+          name: 'iOS 17.5',
+          identifier: 'com.apple.CoreSimulator.SimRuntime.iOS-17-5',
+          version: '17.5',
+          isAvailable: true,
+          supportedDeviceTypes: ['com.apple.CoreSimulator.SimDeviceType.iPhone-15'],
+        },
+        {
+          name: 'iOS 18.0',
+          identifier: 'com.apple.CoreSimulator.SimRuntime.iOS-18-0',
+          version: '18.0',
+          isAvailable: true,
+        },
+        {
+          name: 'iOS 16.4',
+          identifier: 'com.apple.CoreSimulator.SimRuntime.iOS-16-4',
+          version: '16.4',
+          isAvailable: false,
+        },
+      ]);
+
+      const result = await handleSimulatorList();
+
+      expect(result.deviceTypes[0].runtimes).toEqual(['iOS 18.0']);
+      expect(result.deviceTypes[1].runtimes).toEqual(['iOS 17.5', 'iOS 18.0']);
+    });
+
     it('should return empty array when no device types', async () => {
       mockListDeviceTypes.mockResolvedValue([]);
 
@@ -36,5 +86,69 @@ describe('Simulator Tools', () => {
 
       expect(result.deviceTypes).toEqual([]);
     });
+
+    it('should include the simulator pool status when a pool is configured', async () => {
+      mockListDeviceTypes.mockResolvedValue([]);
+      const pool: PoolStatus[] = [
+        { deviceType: 'iPhone 16 Pro', size: 2, idle: 1, checkedOut: 1, warming: 0 },
+      ];
+      mockGetPoolStatus.mockReturnValue(pool);
+
+      const result = await handleSimulatorList();
+
+      expect(result.pool).toEqual(pool);
+    });
+
+    it('should omit the pool status without a pool', async () => {
+      mockListDeviceTypes.mockResolvedValue([]);
+
+      const result = await handleSimulatorList();
+
+      expect(result.pool).toBeUndefined();
+    });
+  });
+
+  describe('handleSimulatorReap', () => {
+    const report: ReapReport = {
+      dryRun: true,
+      graceMinutes: 10,
+      orphans: [
+        {
+          udid: 'ORPHAN',
+          name: 'MCP-1700000000000',
+          state: 'Booted',
+          runtime: 'iOS 18.0',
+          createdAt: '2023-11-14T22:13:20.000Z',
+          ageMinutes: 60,
+        },
+      ],
+      tooRecent: [],
+      reaped: [],
+      failed: [],
+    };
+
+    it('should default to a dry run', async () => {
+      mockReapOrphanedSimulators.mockResolvedValue(report);
+
+      const result = await handleSimulatorReap({});
+
+      expect(mockReapOrphanedSimulators).toHaveBeenCalledWith(true, undefined);
+      expect(result.orphans).toHaveLength(1);
+      expect(result.message).toContain('dry run');
+    });
+
+    it('should reap when dryRun is false', async () => {
+      mockReapOrphanedSimulators.mockResolvedValue({ ...report, dryRun: false, reaped: ['ORPHAN'] });
+
+      const result = await handleSimulatorReap({ dryRun: false, graceMinutes: 5 });
+
+      expect(mockReapOrphanedSimulators).toHaveBeenCalledWith(false, 5);
+      expect(result.message).toContain('Reaped 1 of 1');
+    });
+
+    it('should reject a grace age below one minute', () => {
+      expect(simulatorReapSchema.safeParse({ dryRun: false, graceMinutes: 0 }).success).toBe(false);
+      expect(simulatorReapSchema.safeParse({ graceMinutes: -5 }).success).toBe(false);
+    });
   });
 });
@@ -1,12 +1,56 @@
-import { listDeviceTypes } from '../simulator/simctl.js';
+import { z } from 'zod';
+import { listDeviceTypes, listRuntimes } from '../simulator/simctl.js';
+import { ReapReport } from '../simulator/reaper.js';
+import { PoolStatus } from '../simulator/pool.js';
+import { sessionManager } from '../session/manager.js';
 import { logger } from '../utils/logger.js';
 
+export const simulatorReapSchema = z.object({
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Only report orphaned simulators without deleting them (default: true)'),
+  graceMinutes: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('Minimum age in minutes (at least 1) before an unowned simulator is considered orphaned'),
+});
+
 export async function handleSimulatorList(): Promise<{
-  deviceTypes: Array<{ name: string; identifier: string }>;
+  deviceTypes: Array<{ name: string; identifier: string; runtimes: string[] }>;
+  /** Warm pool simulators per device type, present only when a pool is configured */
+  pool?: PoolStatus[];
 }> {
   logger.info('Tool: simulator_list');
 
-  const deviceTypes = await listDeviceTypes();
+  const [deviceTypes, runtimes] = await Promise.all([listDeviceTypes(), listRuntimes()]);
+  const available = runtimes.filter((rt) => rt.isAvailable);
+
+  return {
+    deviceTypes: deviceTypes.map((dt) => ({
+      ...dt,
+      // Older Xcode versions do not report supported device types; assume all are supported
+      runtimes: available
+        .filter((rt) => !rt.supportedDeviceTypes || rt.supportedDeviceTypes.includes(dt.identifier))
+        .map((rt) => rt.name),
+    })),
+    pool: sessionManager.getPoolStatus(),
+  };
+}
+
+export async function handleSimulatorReap(
+  args: z.infer<typeof simulatorReapSchema>
+): Promise<ReapReport & { message: string }> {
+  logger.info('Tool: simulator_reap', args);
+
+  const dryRun = args.dryRun ?? true;
+  const report = await sessionManager.reapOrphanedSimulators(dryRun, args.graceMinutes);
 
-  return { deviceTypes };
+  return {
+    ...report,
+    message: dryRun
+      ? `Found ${String(report.orphans.length)} orphaned simulator(s) (dry run, nothing deleted)`
+      : `Reaped ${String(report.reaped.length)} of ${String(report.orphans.length)} orphaned simulator(s)`,
+  };
 }
@@ -0,0 +1,240 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { setupTransport, McpTransports } from './transport.js';
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'transport-test', version: '1.0.0' },
+  },
+};
+
+interface McpResponse {
+  status: number;
+  clientId: string | null;
+  message?: { result?: unknown; error?: { code: number; message: string } };
+}
+
+/** Parse a JSON or single-event SSE response body into its JSON-RPC message */
+function parseMessage(body: string): McpResponse['message'] {
+  const data = body.split('\n').find((line) => line.startsWith('data: '));
+  const json = data ? data.slice('data: '.length) : body;
+  return json ? (JSON.parse(json) as McpResponse['message']) : undefined;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('setupTransport', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  let transports: McpTransports;
+  let onClientClosed: jest.Mock<(clientId: string, reason: string) => void>;
+  let serverCount: number;
+
+  async function start(clientTimeoutMinutes: number): Promise<void> {
+    const app = express();
+    app.use(express.json());
+    transports = setupTransport(app, {
+      createServer: () => {
+        const name = `server-${String(++serverCount)}`;
+        const server = new McpServer({ name, version: '1.0.0' });
+        server.registerTool('whoami', { description: 'Name the server handling the call' }, () => ({
+          content: [{ type: 'text', text: name }],
+        }));
+        return server;
+      },
+      clientTimeoutMinutes,
+      onClientClosed,
+    });
+    await new Promise<void>((resolve) => {
+      httpServer = app.listen(0, '127.0.0.1', () => {
+        resolve();
+      });
+    });
+    baseUrl = `http://127.0.0.1:${String((httpServer.address() as AddressInfo).port)}/mcp`;
+  }
+
+  async function send(method: string, body?: unknown, clientId?: string): Promise<McpResponse> {
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+    };
+    if (clientId) {
+      headers['mcp-session-id'] = clientId;
+      headers['mcp-protocol-version'] = '2025-03-26';
+    }
+    const res = await fetch(baseUrl, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return {
+      status: res.status,
+      clientId: res.headers.get('mcp-session-id'),
+      message: parseMessage(await res.text()),
+    };
+  }
+
+  async function connect(): Promise<string> {
+    const res = await send('POST', INITIALIZE_REQUEST);
+    expect(res.status).toBe(200);
+    expect(res.clientId).toBeTruthy();
+    return res.clientId as string;
+  }
+
+  async function whoami(clientId: string): Promise<McpResponse> {
+    return send('POST', {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'whoami', arguments: {} },
+    }, clientId);
+  }
+
+  async function waitForClose(): Promise<void> {
+    for (let i = 0; i < 50 && onClientClosed.mock.calls.length === 0; i++) {
+      await wait(10);
+    }
+  }
+
+  beforeEach(() => {
+    onClientClosed = jest.fn<(clientId: string, reason: string) => void>();
+    serverCount = 0;
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await transports.close();
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => {
+        resolve();
+      });
+    });
+  });
+
+  it('should route each request to the transport of its client', async () => {
+    await start(0);
+    const first = await connect();
+    const second = await connect();
+
+    expect(first).not.toBe(second);
+    expect((await whoami(first)).message?.result).toEqual({ content: [{ type: 'text', text: 'server-1' }] });
+    expect((await whoami(second)).message?.result).toEqual({ content: [{ type: 'text', text: 'server-2' }] });
+  });
+
+  it('should answer 404 for an unknown session ID', async () => {
+    await start(0);
+
+    const post = await whoami('no-such-client');
+    expect(post.status).toBe(404);
+    expect(post.message?.error?.code).toBe(-32001);
+
+    expect((await send('GET', undefined, 'no-such-client')).status).toBe(404);
+    expect((await send('DELETE', undefined, 'no-such-client')).status).toBe(404);
+  });
+
+  it('should answer 404 for an unknown session ID even on an initialize request', async () => {
+    await start(0);
+
+    expect((await send('POST', INITIALIZE_REQUEST, 'no-such-client')).status).toBe(404);
+  });
+
+  it('should answer 400 when a non-initialize request has no session ID', async () => {
+    await start(0);
+
+    const res = await send('POST', { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(res.status).toBe(400);
+    expect((await send('GET')).status).toBe(400);
+  });
+
+  it('should call onClientClosed when a client deletes its session', async () => {
+    await start(0);
+    const clientId = await connect();
+
+    expect((await send('DELETE', undefined, clientId)).status).toBe(200);
+    await waitForClose();
+
+    expect(onClientClosed).toHaveBeenCalledWith(clientId, 'deleted by client');
+    expect((await whoami(clientId)).status).toBe(404);
+  });
+
+  describe('idle timeout', () => {
+    beforeEach(() => {
+      // Only the idle check interval and the clock are faked; the HTTP stack needs real timers
+      jest.useFakeTimers({
+        doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'queueMicrotask', 'hrtime', 'performance'],
+      });
+    });
+
+    it('should close a client idle for longer than the timeout', async () => {
+      await start(5);
+      const clientId = await connect();
+
+      jest.advanceTimersByTime(6 * 60000);
+      await waitForClose();
+
+      expect(onClientClosed).toHaveBeenCalledWith(clientId, 'timed out');
+      expect((await whoami(clientId)).status).toBe(404);
+    });
+
+    it('should keep a client that sent a request within the timeout', async () => {
+      await start(5);
+      const clientId = await connect();
+
+      jest.advanceTimersByTime(4 * 60000);
+      await whoami(clientId);
+      jest.advanceTimersByTime(3 * 60000);
+      await wait(20);
+
+      expect(onClientClosed).not.toHaveBeenCalled();
+      expect((await whoami(clientId)).status).toBe(200);
+    });
+
+    it('should keep a client holding an open SSE stream', async () => {
+      await start(5);
+      const clientId = await connect();
+
+      const controller = new AbortController();
+      const stream = await fetch(baseUrl, {
+        headers: {
+          accept: 'text/event-stream',
+          'mcp-session-id': clientId,
+          'mcp-protocol-version': '2025-03-26',
+        },
+        signal: controller.signal,
+      });
+      expect(stream.status).toBe(200);
+
+      jest.advanceTimersByTime(10 * 60000);
+      await wait(20);
+      expect(onClientClosed).not.toHaveBeenCalled();
+
+      // Once the stream closes, the idle clock starts again
+      controller.abort();
+      await wait(20);
+      jest.advanceTimersByTime(6 * 60000);
+      await waitForClose();
+
+      expect(onClientClosed).toHaveBeenCalledWith(clientId, 'timed out');
+    });
+
+    it('should not call onClientClosed on server shutdown', async () => {
+      await start(5);
+      await connect();
+
+      await transports.close();
+
+      expect(onClientClosed).not.toHaveBeenCalled();
+    });
+  });
+});
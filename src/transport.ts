@@ -1,14 +1,134 @@
+import { randomUUID } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { Express } from 'express';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Express, Request, Response } from 'express';
 import { logger } from './utils/logger.js';
 import { updateHostHeader } from './config.js';
 
-export function setupTransport(app: Express): StreamableHTTPServerTransport {
-  logger.debug('Setting up Streamable HTTP transport');
+export interface TransportOptions {
+  /** Creates the MCP server instance for a newly connected client */
+  createServer: () => McpServer;
+  /** Close clients that sent no request for this many minutes (0 disables) */
+  clientTimeoutMinutes: number;
+  /** Called once a client's MCP session is deleted or times out (not on server shutdown) */
+  onClientClosed: (clientId: string, reason: string) => void;
+}
+
+export interface McpTransports {
+  /** Close every client transport and stop idle monitoring */
+  close(): Promise<void>;
+}
+
+interface ClientConnection {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeenAt: Date;
+  /** Requests still being answered, including open SSE streams */
+  openRequests: number;
+  closeReason?: string;
+}
+
+function sendBadRequest(res: Response, message: string): void {
+  res.status(400).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
 
-  const transport = new StreamableHTTPServerTransport({
-    sessionIdGenerator: undefined,
+function sendSessionNotFound(res: Response): void {
+  // 404 tells the client its session is gone and it must re-initialize
+  res.status(404).json({
+    jsonrpc: '2.0',
+    error: { code: -32001, message: 'Session not found' },
+    id: null,
   });
+}
+
+/**
+ * Register the /mcp routes with one stateful transport per MCP client.
+ *
+ * Each client gets its own transport and MCP server, keyed by the mcp-session-id
+ * header, so tool handlers can tell which client issued a call.
+ */
+export function setupTransport(app: Express, options: TransportOptions): McpTransports {
+  logger.debug('Setting up Streamable HTTP transport');
+
+  const clients: Map<string, ClientConnection> = new Map();
+  let shuttingDown = false;
+
+  const getClient = (req: Request): ClientConnection | undefined => {
+    const clientId = req.get('mcp-session-id');
+    const client = clientId ? clients.get(clientId) : undefined;
+    if (client) {
+      client.lastSeenAt = new Date();
+    }
+    return client;
+  };
+
+  /** Hand a request to the client's transport, counting it as activity until the response ends */
+  const forwardRequest = (client: ClientConnection, req: Request, res: Response, body?: unknown): void => {
+    client.openRequests++;
+    res.on('close', () => {
+      client.openRequests--;
+      client.lastSeenAt = new Date();
+    });
+    void client.transport.handleRequest(req, res, body);
+  };
+
+  /** Reject a request that has no usable client: 404 for an unknown session ID, 400 when it is missing */
+  const rejectRequest = (req: Request, res: Response): void => {
+    if (req.get('mcp-session-id')) {
+      sendSessionNotFound(res);
+      return;
+    }
+    sendBadRequest(res, 'Bad Request: No valid MCP session ID provided. Send an initialize request first.');
+  };
+
+  const closeClient = async (clientId: string, reason: string): Promise<void> => {
+    const client = clients.get(clientId);
+    if (!client) {
+      return;
+    }
+    client.closeReason = reason;
+    await client.transport.close();
+  };
+
+  const connectClient = async (): Promise<StreamableHTTPServerTransport> => {
+    const server = options.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (clientId) => {
+        clients.set(clientId, { transport, server, lastSeenAt: new Date(), openRequests: 0 });
+        logger.info('MCP client connected', { clientId, clients: clients.size });
+      },
+      onsessionclosed: (clientId) => {
+        const client = clients.get(clientId);
+        if (client) {
+          client.closeReason = 'deleted by client';
+        }
+      },
+    });
+
+    transport.onclose = () => {
+      const clientId = transport.sessionId;
+      if (!clientId) {
+        return;
+      }
+      const reason = clients.get(clientId)?.closeReason ?? 'connection closed';
+      if (clients.delete(clientId)) {
+        logger.info('MCP client disconnected', { clientId, reason, clients: clients.size });
+        // On shutdown, sessions are handled by sessionManager.cleanup() instead
+        if (!shuttingDown) {
+          options.onClientClosed(clientId, reason);
+        }
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  };
 
   app.post('/mcp', (req, res) => {
     // Capture the Host header to construct correct URLs for screenshots
@@ -16,18 +136,77 @@ export function setupTransport(app: Express): StreamableHTTPServerTransport {
     if (hostHeader) {
       updateHostHeader(hostHeader);
     }
-    void transport.handleRequest(req, res, req.body);
+
+    const client = getClient(req);
+    if (client) {
+      forwardRequest(client, req, res, req.body);
+      return;
+    }
+
+    if (req.get('mcp-session-id') || !isInitializeRequest(req.body)) {
+      rejectRequest(req, res);
+      return;
+    }
+
+    connectClient()
+      .then((transport) => transport.handleRequest(req, res, req.body))
+      .catch((error: unknown) => {
+        logger.error('Failed to connect MCP client', { error: String(error) });
+        if (!res.headersSent) {
+          res.status(500).json({ error: 'Failed to initialize MCP session' });
+        }
+      });
   });
 
   app.get('/mcp', (req, res) => {
-    void transport.handleRequest(req, res);
+    const client = getClient(req);
+    if (!client) {
+      rejectRequest(req, res);
+      return;
+    }
+    forwardRequest(client, req, res);
   });
 
   app.delete('/mcp', (req, res) => {
-    void transport.handleRequest(req, res);
+    const client = getClient(req);
+    if (!client) {
+      rejectRequest(req, res);
+      return;
+    }
+    forwardRequest(client, req, res);
   });
 
-  logger.debug('Streamable HTTP transport routes registered');
+  let idleCheckIntervalId: NodeJS.Timeout | undefined;
+  if (options.clientTimeoutMinutes > 0) {
+    const timeoutMs = options.clientTimeoutMinutes * 60000;
+    idleCheckIntervalId = setInterval(() => {
+      const now = Date.now();
+      for (const [clientId, client] of clients) {
+        // A client holding an SSE stream open is still connected, however long ago it last sent a request
+        if (client.openRequests === 0 && now - client.lastSeenAt.getTime() > timeoutMs) {
+          closeClient(clientId, 'timed out').catch((error: unknown) => {
+            logger.error('Failed to close idle MCP client', { clientId, error: String(error) });
+          });
+        }
+      }
+    }, 60000);
+  }
+
+  logger.debug('Streamable HTTP transport routes registered', {
+    clientTimeout: options.clientTimeoutMinutes > 0
+      ? `${String(options.clientTimeoutMinutes)} minutes`
+      : 'disabled',
+  });
 
-  return transport;
+  return {
+    close: async () => {
+      shuttingDown = true;
+      if (idleCheckIntervalId) {
+        clearInterval(idleCheckIntervalId);
+      }
+      for (const clientId of Array.from(clients.keys())) {
+        await closeClient(clientId, 'server shutdown');
+      }
+    },
+  };
 }
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import { globToRegExp, matchesGlob } from './glob.js';
+
+describe('globToRegExp', () => {
+  it('should keep * within a single segment', () => {
+    const regex = globToRegExp('/Users/*/Library');
+    expect(regex.test('/Users/alice/Library')).toBe(true);
+    expect(regex.test('/Users/alice/nested/Library')).toBe(false);
+  });
+
+  it('should let ** span segments', () => {
+    const regex = globToRegExp('/Users/**/secrets');
+    expect(regex.test('/Users/secrets')).toBe(true);
+    expect(regex.test('/Users/alice/app/secrets')).toBe(true);
+  });
+
+  it('should escape regex characters', () => {
+    expect(globToRegExp('app.(dev)').test('app.(dev)')).toBe(true);
+    expect(globToRegExp('app.(dev)').test('appx(dev)')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match segment patterns anywhere in the path', () => {
+    expect(matchesGlob('/Users/alice/.ssh/id_rsa', '.ssh')).toBe(true);
+    expect(matchesGlob('/Users/alice/app/release.keystore', '*.keystore')).toBe(true);
+    expect(matchesGlob('/Users/alice/app/lib/main.dart', '*.keystore')).toBe(false);
+  });
+
+  it('should match everything inside a matching directory', () => {
+    expect(matchesGlob('/Users/alice/Library/Keychains/login', '/Users/*/Library')).toBe(true);
+    expect(matchesGlob('/Users/alice/LibraryX', '/Users/*/Library')).toBe(false);
+  });
+
+  it('should let relative patterns start at any segment', () => {
+    expect(matchesGlob('/Users/alice/app/config/secrets/prod.json', 'config/secrets')).toBe(true);
+    expect(matchesGlob('/Users/alice/app/config/public', 'config/secrets')).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Minimal glob matching for path rules.
+ *
+ * Supported syntax:
+ * - `*` matches any characters within a single path segment
+ * - `?` matches a single character within a segment
+ * - `**` matches any number of segments (including none)
+ *
+ * Patterns without a `/` match a single segment anywhere in the path (e.g. ".git",
+ * "*.keystore"). Relative patterns containing a `/` may start at any segment; callers
+ * that need them anchored to a root prefix them with `/`.
+ */
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ *
+ * @example
+ * globToRegExp('**\/secrets/*.json').test('/app/config/secrets/prod.json'); // true
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i += 2;
+        if (pattern[i] === '/') {
+          // "**/" matches zero or more leading segments
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          source += '.*';
+        }
+        continue;
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+    i++;
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether an absolute path, or any of its parent directories, matches a glob pattern.
+ * Matching a directory therefore also matches everything inside it.
+ *
+ * @param path - Absolute, normalized path
+ * @param pattern - Glob pattern
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const segments = path.split('/').filter((segment) => segment.length > 0);
+
+  if (!pattern.includes('/')) {
+    const regex = globToRegExp(pattern);
+    return segments.some((segment) => regex.test(segment));
+  }
+
+  const anchored = pattern.startsWith('/') || pattern.startsWith('**')
+    ? pattern
+    : `**/${pattern}`;
+  const regex = globToRegExp(anchored.replace(/\/+$/, ''));
+
+  for (let count = segments.length; count > 0; count--) {
+    if (regex.test(`/${segments.slice(0, count).join('/')}`)) {
+      return true;
+    }
+  }
+  return false;
+}
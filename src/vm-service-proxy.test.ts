@@ -0,0 +1,234 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createServer, request, IncomingMessage, Server } from 'http';
+import { AddressInfo, Socket } from 'net';
+import express from 'express';
+import type { Session } from './session/types.js';
+
+const mockGetSession = jest.fn<(sessionId: string) => Session | undefined>();
+const mockCanAccessSession = jest.fn<(sessionId: string, clientId?: string) => boolean>();
+const mockUpdateSessionActivity = jest.fn<() => void>();
+let sessionEndSubscriber: ((sessionId: string) => void) | undefined;
+let ownerChangeSubscriber: ((sessionId: string) => void) | undefined;
+
+jest.unstable_mockModule('./session/manager.js', () => ({
+  sessionManager: {
+    getSession: mockGetSession,
+    canAccessSession: mockCanAccessSession,
+    updateSessionActivity: mockUpdateSessionActivity,
+    subscribeToSessionEnd: (callback: (sessionId: string) => void) => {
+      sessionEndSubscriber = callback;
+      return () => {
+        sessionEndSubscriber = undefined;
+      };
+    },
+    subscribeToOwnerChange: (callback: (sessionId: string) => void) => {
+      ownerChangeSubscriber = callback;
+      return () => {
+        ownerChangeSubscriber = undefined;
+      };
+    },
+  },
+}));
+
+jest.unstable_mockModule('./config.js', () => ({
+  getServerBaseUrl: () => 'http://host.docker.internal:3000',
+}));
+
+const { setupVmServiceProxy, buildVmServiceProxyUris } = await import('./vm-service-proxy.js');
+
+function listen(server: Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.closeAllConnections();
+    server.close(() => {
+      resolve();
+    });
+  });
+}
+
+function get(port: number, path: string): Promise<{ status: number; headers: IncomingMessage['headers']; body: string }> {
+  return new Promise((resolve, reject) => {
+    request({ host: '127.0.0.1', port, path }, (res) => {
+      let body = '';
+      res.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      res.on('end', () => {
+        resolve({ status: res.statusCode ?? 0, headers: res.headers, body });
+      });
+    })
+      .on('error', reject)
+      .end();
+  });
+}
+
+/** Open a raw upgrade request and resolve with the socket and the response head */
+function upgrade(port: number, path: string): Promise<{ socket: Socket; head: string }> {
+  return new Promise((resolve, reject) => {
+    const socket = new Socket();
+    socket.connect(port, '127.0.0.1', () => {
+      socket.write(
+        `GET ${path} HTTP/1.1\r\nHost: 127.0.0.1\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\n`
+      );
+    });
+    socket.once('data', (data: Buffer) => {
+      resolve({ socket, head: data.toString() });
+    });
+    socket.on('error', reject);
+  });
+}
+
+describe('VM service proxy', () => {
+  let upstream: Server;
+  let proxyServer: Server;
+  let proxyPort: number;
+  let proxy: ReturnType<typeof setupVmServiceProxy>;
+  let session: Session;
+  // Upgraded sockets are detached from their server and must be closed separately
+  let upgradedSockets: Socket[];
+
+  beforeEach(async () => {
+    mockGetSession.mockReset();
+    mockCanAccessSession.mockReset();
+    mockCanAccessSession.mockReturnValue(true);
+    upgradedSockets = [];
+
+    // Stand-in for the Dart VM service: echoes paths and accepts upgrades on /AbCd=/ws
+    upstream = createServer((req, res) => {
+      if (req.url === '/AbCd=/') {
+        res.writeHead(302, { location: '/AbCd=/devtools/?uri=ws://127.0.0.1/AbCd=/ws' });
+        res.end();
+        return;
+      }
+      res.end(`upstream ${req.method ?? ''} ${req.url ?? ''}`);
+    });
+    upstream.on('upgrade', (req: IncomingMessage, socket: Socket) => {
+      upgradedSockets.push(socket);
+      socket.write('HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n');
+      socket.on('data', (data: Buffer) => socket.write(`echo:${data.toString()}`));
+    });
+    const upstreamPort = await listen(upstream);
+
+    session = {
+      id: 'session-123',
+      worktreePath: '/path/to/worktree',
+      deviceType: 'iPhone 16 Pro',
+      createdAt: new Date(),
+      lastActivityAt: new Date(),
+      vmServiceProxyToken: 'secret-token',
+      flutterProcessManager: {
+        getStatus: () => ({ vmServiceUri: `http://127.0.0.1:${String(upstreamPort)}/AbCd=/` }),
+      } as unknown as Session['flutterProcessManager'],
+    };
+    mockGetSession.mockImplementation((sessionId) => (sessionId === session.id ? session : undefined));
+
+    const app = express();
+    proxy = setupVmServiceProxy(app);
+    app.use(express.json());
+    proxyServer = createServer(app);
+    proxyServer.on('upgrade', (req: IncomingMessage, socket: Socket, head: Buffer) => {
+      if (!proxy.handleUpgrade(req, socket, head)) {
+        socket.destroy();
+      }
+    });
+    proxyPort = await listen(proxyServer);
+  });
+
+  afterEach(async () => {
+    proxy.close();
+    upgradedSockets.forEach((socket) => socket.destroy());
+    await close(proxyServer);
+    await close(upstream);
+  });
+
+  it('should build proxy URIs for DevTools and VM service clients', () => {
+    expect(buildVmServiceProxyUris('session-123', 'secret-token')).toEqual({
+      vmServiceUri: 'http://host.docker.internal:3000/vmservice/session-123/secret-token/',
+      vmServiceWsUri: 'ws://host.docker.internal:3000/vmservice/session-123/secret-token/ws',
+      devToolsUri:
+        'http://host.docker.internal:3000/vmservice/session-123/secret-token/devtools/?uri=' +
+        encodeURIComponent('ws://host.docker.internal:3000/vmservice/session-123/secret-token/ws'),
+    });
+  });
+
+  it('should forward HTTP requests below the VM service auth code', async () => {
+    const response = await get(proxyPort, '/vmservice/session-123/secret-token/getVM?x=1');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toBe('upstream GET /AbCd=/getVM?x=1');
+    expect(mockUpdateSessionActivity).toHaveBeenCalledWith('session-123');
+  });
+
+  it('should rewrite redirects to go through the proxy', async () => {
+    const response = await get(proxyPort, '/vmservice/session-123/secret-token/');
+
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toBe(
+      '/vmservice/session-123/secret-token/devtools/?uri=ws://127.0.0.1/AbCd=/ws'
+    );
+  });
+
+  it('should reject wrong tokens, other clients and unknown sessions', async () => {
+    expect((await get(proxyPort, '/vmservice/session-123/wrong-token/getVM')).status).toBe(403);
+    expect((await get(proxyPort, '/vmservice/other-session/secret-token/getVM')).status).toBe(404);
+
+    mockCanAccessSession.mockReturnValue(false);
+    expect((await get(proxyPort, '/vmservice/session-123/secret-token/getVM')).status).toBe(403);
+  });
+
+  it('should report when the VM service is not available', async () => {
+    session.flutterProcessManager = undefined;
+
+    const response = await get(proxyPort, '/vmservice/session-123/secret-token/getVM');
+    expect(response.status).toBe(503);
+  });
+
+  it('should pipe WebSocket connections and close them when the session ends', async () => {
+    const { socket, head } = await upgrade(proxyPort, '/vmservice/session-123/secret-token/ws');
+    expect(head).toContain('101 Switching Protocols');
+
+    const echoed = new Promise<string>((resolve) => {
+      socket.once('data', (data: Buffer) => {
+        resolve(data.toString());
+      });
+    });
+    socket.write('ping');
+    expect(await echoed).toBe('echo:ping');
+
+    const closed = new Promise<void>((resolve) => {
+      socket.on('close', () => {
+        resolve();
+      });
+    });
+    sessionEndSubscriber?.('session-123');
+    await closed;
+  });
+
+  it('should close WebSocket connections when the session owner changes', async () => {
+    const { socket, head } = await upgrade(proxyPort, '/vmservice/session-123/secret-token/ws');
+    expect(head).toContain('101 Switching Protocols');
+
+    const closed = new Promise<void>((resolve) => {
+      socket.on('close', () => {
+        resolve();
+      });
+    });
+    session.vmServiceProxyToken = undefined;
+    ownerChangeSubscriber?.('session-123');
+    await closed;
+
+    expect((await get(proxyPort, '/vmservice/session-123/secret-token/getVM')).status).toBe(403);
+  });
+
+  it('should refuse upgrades with a wrong token', async () => {
+    const { socket, head } = await upgrade(proxyPort, '/vmservice/session-123/wrong-token/ws');
+
+    expect(head).toContain('403 Forbidden');
+    socket.destroy();
+  });
+});
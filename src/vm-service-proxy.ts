@@ -0,0 +1,282 @@
+import { timingSafeEqual } from 'crypto';
+import { IncomingMessage, STATUS_CODES, request as httpRequest } from 'http';
+import { Duplex } from 'stream';
+import { Express, Request, Response } from 'express';
+import { sessionManager } from './session/manager.js';
+import { getServerBaseUrl } from './config.js';
+import { toVmServiceWsUri } from './flutter/vm-service-uri.js';
+import { logger } from './utils/logger.js';
+
+export interface VmServiceProxy {
+  /**
+   * Handle a WebSocket upgrade request from the HTTP server.
+   *
+   * @returns false if the request is not for the proxy, so the caller can reject it
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean;
+  /** Close every proxied WebSocket connection */
+  close(): void;
+}
+
+export interface VmServiceProxyUris {
+  /** HTTP URI of the proxied VM service */
+  vmServiceUri: string;
+  /** WebSocket endpoint of the proxied VM service */
+  vmServiceWsUri: string;
+  /** DevTools served by the VM service, connected through the proxy */
+  devToolsUri: string;
+}
+
+// "/vmservice/<sessionId>/<token>/ws"
+const PROXY_PATH_PATTERN = /^\/vmservice\/([^/?]+)\/([^/?]+)(.*)$/;
+
+type ProxyTarget = { target: URL } | { status: number; message: string };
+
+/**
+ * Build the URLs through which a session's VM service and DevTools are reachable from
+ * outside the host, e.g. from a Docker container.
+ */
+export function buildVmServiceProxyUris(sessionId: string, token: string): VmServiceProxyUris {
+  const vmServiceUri = `${getServerBaseUrl()}/vmservice/${encodeURIComponent(sessionId)}/${token}/`;
+  const vmServiceWsUri = toVmServiceWsUri(vmServiceUri);
+  return {
+    vmServiceUri,
+    vmServiceWsUri,
+    devToolsUri: `${vmServiceUri}devtools/?uri=${encodeURIComponent(vmServiceWsUri)}`,
+  };
+}
+
+function tokensMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Check a proxy request against the session's token and owner, and find the VM service
+ * it should be forwarded to.
+ */
+function resolveTarget(sessionId: string, token: string, clientId?: string): ProxyTarget {
+  const session = sessionManager.getSession(sessionId);
+  if (!session) {
+    return { status: 404, message: `Session not found: ${sessionId}` };
+  }
+
+  if (
+    !session.vmServiceProxyToken ||
+    !tokensMatch(session.vmServiceProxyToken, token) ||
+    !sessionManager.canAccessSession(sessionId, clientId)
+  ) {
+    logger.warn('Rejected VM service proxy request', { sessionId });
+    return { status: 403, message: 'Access denied: invalid VM service proxy token for this session' };
+  }
+
+  const vmServiceUri = session.flutterProcessManager?.getStatus()?.vmServiceUri;
+  if (!vmServiceUri) {
+    return { status: 503, message: 'Dart VM service is not available. Wait until the app is attached.' };
+  }
+
+  sessionManager.updateSessionActivity(sessionId);
+  return { target: new URL(vmServiceUri) };
+}
+
+/**
+ * Map a path below the proxy route onto the VM service, whose URI path is its auth code.
+ */
+function upstreamPath(target: URL, path: string): string {
+  const base = target.pathname.endsWith('/') ? target.pathname : `${target.pathname}/`;
+  return `${base}${path.replace(/^\//, '')}`;
+}
+
+/**
+ * Point redirects from the VM service (e.g. to its DevTools page) back at the proxy.
+ */
+function rewriteLocation(location: string, target: URL, proxyBase: string): string {
+  const base = target.pathname.endsWith('/') ? target.pathname : `${target.pathname}/`;
+  for (const prefix of [`${target.origin}${base}`, base]) {
+    if (location.startsWith(prefix)) {
+      return `${proxyBase}${location.slice(prefix.length)}`;
+    }
+  }
+  return location;
+}
+
+function clientIdOf(req: IncomingMessage): string | undefined {
+  const header = req.headers['mcp-session-id'];
+  return typeof header === 'string' ? header : undefined;
+}
+
+/**
+ * Register the /vmservice routes that forward HTTP and WebSocket traffic to a session's
+ * Dart VM service, which only listens on the host's loopback interface.
+ *
+ * Every URL carries the session's proxy token, which only the session's owner can get
+ * from flutter_vm_service_info. Must be registered before body-parsing middleware so
+ * request bodies are forwarded untouched. Connections are closed when the session ends
+ * or its owner changes.
+ */
+export function setupVmServiceProxy(app: Express): VmServiceProxy {
+  const connections: Map<string, Set<Duplex>> = new Map();
+
+  const track = (sessionId: string, ...sockets: Duplex[]): void => {
+    let sessionConnections = connections.get(sessionId);
+    if (!sessionConnections) {
+      sessionConnections = new Set();
+      connections.set(sessionId, sessionConnections);
+    }
+    for (const socket of sockets) {
+      sessionConnections.add(socket);
+      socket.on('close', () => {
+        sessionConnections.delete(socket);
+        if (sessionConnections.size === 0 && connections.get(sessionId) === sessionConnections) {
+          connections.delete(sessionId);
+        }
+      });
+    }
+  };
+
+  const closeSession = (sessionId: string): void => {
+    const sessionConnections = connections.get(sessionId);
+    if (!sessionConnections) {
+      return;
+    }
+    connections.delete(sessionId);
+    logger.info('Closing VM service proxy connections', { sessionId, connections: sessionConnections.size });
+    sessionConnections.forEach((socket) => {
+      socket.destroy();
+    });
+  };
+
+  const unsubscribeEnd = sessionManager.subscribeToSessionEnd(closeSession);
+  // Connections opened with revoked URLs must not outlive the owner that opened them
+  const unsubscribeOwnerChange = sessionManager.subscribeToOwnerChange(closeSession);
+
+  app.use('/vmservice/:sessionId/:token', (req: Request, res: Response) => {
+    const { sessionId, token } = req.params;
+    const resolved = resolveTarget(sessionId, token, clientIdOf(req));
+    if (!('target' in resolved)) {
+      res.status(resolved.status).json({ error: resolved.message });
+      return;
+    }
+
+    const { target } = resolved;
+    const proxyBase = `/vmservice/${encodeURIComponent(sessionId)}/${token}/`;
+    const upstream = httpRequest(
+      {
+        hostname: target.hostname,
+        port: target.port,
+        path: upstreamPath(target, req.url),
+        method: req.method,
+        headers: { ...req.headers, host: target.host },
+      },
+      (upstreamRes) => {
+        const headers = { ...upstreamRes.headers };
+        if (headers.location) {
+          headers.location = rewriteLocation(headers.location, target, proxyBase);
+        }
+        res.writeHead(upstreamRes.statusCode ?? 502, headers);
+        upstreamRes.pipe(res);
+      }
+    );
+
+    upstream.on('error', (error) => {
+      logger.warn('VM service proxy request failed', { sessionId, error: error.message });
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(502).json({ error: `Could not reach the Dart VM service: ${error.message}` });
+      }
+    });
+
+    req.pipe(upstream);
+  });
+
+  return {
+    handleUpgrade: (req, socket, head) => {
+      const match = PROXY_PATH_PATTERN.exec(req.url ?? '');
+      if (!match) {
+        return false;
+      }
+
+      const sessionId = decodeURIComponent(match[1]);
+      const resolved = resolveTarget(sessionId, match[2], clientIdOf(req));
+      if (!('target' in resolved)) {
+        socket.end(
+          `HTTP/1.1 ${String(resolved.status)} ${STATUS_CODES[resolved.status] ?? ''}\r\nConnection: close\r\n\r\n`
+        );
+        return true;
+      }
+
+      const { target } = resolved;
+      const upstream = httpRequest({
+        hostname: target.hostname,
+        port: target.port,
+        path: upstreamPath(target, match[3] || '/'),
+        method: req.method,
+        headers: { ...req.headers, host: target.host },
+      });
+
+      upstream.on('upgrade', (upstreamRes, upstreamSocket, upstreamHead) => {
+        const headerLines: string[] = [];
+        for (let i = 0; i < upstreamRes.rawHeaders.length; i += 2) {
+          headerLines.push(`${upstreamRes.rawHeaders[i]}: ${upstreamRes.rawHeaders[i + 1]}`);
+        }
+        socket.write(
+          `HTTP/1.1 ${String(upstreamRes.statusCode ?? 101)} ${upstreamRes.statusMessage ?? 'Switching Protocols'}\r\n` +
+          `${headerLines.join('\r\n')}\r\n\r\n`
+        );
+        if (upstreamHead.length > 0) {
+          socket.write(upstreamHead);
+        }
+        if (head.length > 0) {
+          upstreamSocket.write(head);
+        }
+
+        upstreamSocket.on('error', () => {
+          socket.destroy();
+        });
+        socket.on('error', () => {
+          upstreamSocket.destroy();
+        });
+        upstreamSocket.on('close', () => {
+          socket.destroy();
+        });
+        socket.on('close', () => {
+          upstreamSocket.destroy();
+        });
+        upstreamSocket.pipe(socket).pipe(upstreamSocket);
+
+        track(sessionId, socket, upstreamSocket);
+        logger.info('VM service proxy connection opened', { sessionId });
+      });
+
+      upstream.on('response', (upstreamRes) => {
+        // The VM service refused the upgrade
+        upstreamRes.resume();
+        socket.end(
+          `HTTP/1.1 ${String(upstreamRes.statusCode ?? 502)} ${upstreamRes.statusMessage ?? ''}\r\nConnection: close\r\n\r\n`
+        );
+      });
+
+      upstream.on('error', (error) => {
+        logger.warn('VM service proxy connection failed', { sessionId, error: error.message });
+        socket.end('HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n');
+      });
+
+      socket.on('error', () => {
+        upstream.destroy();
+      });
+
+      upstream.end();
+      return true;
+    },
+
+    close: () => {
+      unsubscribeEnd();
+      unsubscribeOwnerChange();
+      for (const sessionId of Array.from(connections.keys())) {
+        closeSession(sessionId);
+      }
+    },
+  };
+}